@@ -15,8 +15,9 @@ import FileUpload from '@/components/FileUpload'
 import CVPreviewCard from '@/components/CVPreviewCard'
 import CVEditor from '@/components/CVEditor'
 import ProcessingStatus from '@/components/ProcessingStatus'
-import { CVData, ProcessingState } from '@/types/cv'
+import { CVData, FieldConfidence, ProcessingProgress, ProcessingState, Provenance } from '@/types/cv'
 import { downloadPDF, downloadDOCX } from '@/utils/downloadService'
+import apiService from '@/utils/apiService'
 import toast from 'react-hot-toast'
 import HomeButton from '@/components/HomeButton'
 import ApiStatus from '@/components/ApiStatus'
@@ -26,14 +27,20 @@ export default function Home() {
   const [processingState, setProcessingState] = useState<ProcessingState>('idle')
   const [showEditor, setShowEditor] = useState(false)
   const [originalContent, setOriginalContent] = useState<string>('')
+  const [provenance, setProvenance] = useState<Provenance | undefined>()
+  const [confidence, setConfidence] = useState<FieldConfidence | undefined>()
+  const [progress, setProgress] = useState<ProcessingProgress | undefined>()
 
-  const handleFileProcessed = (data: CVData, original: string) => {
+  const handleFileProcessed = (data: CVData, original: string, sourceSpans?: Provenance, fieldConfidence?: FieldConfidence) => {
     setCvData(data)
     setOriginalContent(original)
+    setProvenance(sourceSpans)
+    setConfidence(fieldConfidence)
     setProcessingState('completed')
   }
 
   const handleProcessingStart = () => {
+    setProgress(undefined)
     setProcessingState('processing')
   }
 
@@ -45,6 +52,23 @@ export default function Home() {
     setCvData(updatedData)
   }
 
+  const handleRejectPhoto = async () => {
+    if (!cvData) return
+
+    setCvData({ ...cvData, personalDetails: { ...cvData.personalDetails, photo: undefined } })
+
+    // Drop the stored copy too, so the photo does not come back on reload or export
+    const uploadId = cvData.metadata.uploadId
+    if (uploadId) {
+      try {
+        await apiService.rejectPhoto(uploadId)
+      } catch (error) {
+        console.error('Photo rejection error:', error)
+      }
+    }
+    toast.success('Photo removed')
+  }
+
   const handleDownload = async (format: 'pdf' | 'docx') => {
     if (!cvData) return
 
@@ -129,12 +153,13 @@ export default function Home() {
                     Transform Your CV with AI
                   </h2>
                   <p className="text-lg text-gray-600 mb-8 leading-relaxed">
-                    Upload your CV in PDF, DOCX, or Excel format and let our AI transform it into a 
+                    Upload your CV in PDF, Word, OpenDocument, RTF, text, Excel or image format and let our AI transform it into a 
                     polished, professional document following EHS formatting standards.
                   </p>
                   <FileUpload
                     onFileProcessed={handleFileProcessed}
                     onProcessingStart={handleProcessingStart}
+                    onProgress={setProgress}
                   />
                 </div>
               </div>
@@ -143,7 +168,7 @@ export default function Home() {
         )}
 
         {processingState === 'processing' && (
-          <ProcessingStatus />
+          <ProcessingStatus progress={progress} />
         )}
 
         {processingState === 'completed' && cvData && (
@@ -156,6 +181,8 @@ export default function Home() {
             {showEditor ? (
               <CVEditor
                 cvData={cvData}
+                confidence={confidence}
+                onConfidenceChange={setConfidence}
                 onUpdate={handleCVUpdate}
                 onBack={() => setShowEditor(false)}
               />
@@ -165,7 +192,10 @@ export default function Home() {
                 <CVPreviewCard
                   cvData={cvData}
                   originalContent={originalContent}
+                  provenance={provenance}
+                  confidence={confidence}
                   onDownload={handleDownload}
+                  onRejectPhoto={handleRejectPhoto}
                 />
 
                 {/* Quick Actions */}
@@ -3,13 +3,28 @@ const cors = require('cors');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
 const pdfParse = require('pdf-parse');
 const mammoth = require('mammoth');
 const XLSX = require('xlsx');
+const { createWorker } = require('tesseract.js');
+const WordExtractor = require('word-extractor');
 
 // Import advanced services
 const AIService = require('./services/aiService');
+const providerRegistry = require('../../shared/providers/registry');
+const { getCircuitState } = require('../../shared/providers/resilience');
+const { buildProvenance, splitPageBreaks } = require('../../shared/provenance/provenance');
+const { buildConfidence } = require('../../shared/confidence/confidence');
+// TypeScript modules from shared/, compiled to dist/shared by `npm run build:shared` before start
+const { ContentCache } = require('../../dist/shared/cache/contentCache');
+const { IMAGE_MIME_TYPES, loadImagePages } = require('../../dist/shared/images/imagePages');
+const { extractCandidatePhoto } = require('../../dist/shared/images/photoExtraction');
+const { decodeTextBuffer } = require('../../dist/shared/text/textDecoding');
+const { rtfToText } = require('../../dist/shared/text/rtfText');
+const { extractOdtText } = require('../../dist/shared/text/odtText');
+const { extractCvHeuristically, PLACEHOLDER } = require('../../dist/shared/extraction/heuristicExtractor');
 const TemplateService = require('./services/templateService');
 const AnalyticsService = require('./services/analyticsService');
 const ExportService = require('./services/exportService');
@@ -22,6 +37,14 @@ const PORT = process.env.PORT || 5000;
 const uploads = new Map();
 const cvDrafts = new Map();
 
+// Work done on each file's contents, shared by every upload of the same file: the text extracted,
+// the rule-based draft and the AI-processed result. Bump EXTRACTION_VERSION when a change to the
+// extraction or formatting rules alters their output, so older entries stop matching.
+const EXTRACTION_VERSION = '1';
+const extractedTexts = new ContentCache();
+const ruleDrafts = new ContentCache();
+const aiResults = new ContentCache();
+
 // Initialize advanced services
 const aiService = new AIService();
 const templateService = new TemplateService();
@@ -44,12 +67,35 @@ if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 
-// CV Processing Functions
-async function extractTextFromFile(filePath, mimetype) {
+// Separates pages in extracted PDF text; splitPageBreaks removes it and records where pages start
+const PAGE_BREAK = '\f';
+
+// CV data that did not come from the upload's text, left out of provenance
+const NOT_FROM_TEXT = ['metadata', 'personalDetails.photo', 'personalDetails.bhNumber', 'personalDetails.clientName'];
+
+// pdf-parse's own page rendering, with a page break after each page
+async function renderPdfPage(pageData) {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+
+  let lastY;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text + PAGE_BREAK;
+}
+
+// CV Processing Functions; onPage receives the text read so far after each page that is recognised
+// one at a time, so slow scans can be shown as they are read
+async function extractTextFromFile(filePath, mimetype, password, onPage = () => {}) {
   try {
     if (mimetype === 'application/pdf') {
-      const dataBuffer = fs.readFileSync(filePath);
-      const data = await pdfParse(dataBuffer);
+      // pdf.js only reads a password from a parameter object
+      const data = await pdfParse({ data: new Uint8Array(fs.readFileSync(filePath)), password }, { pagerender: renderPdfPage });
+      if (data.numpages > MAX_CV_PAGES) {
+        throw documentError('PAGE_LIMIT_EXCEEDED');
+      }
       return data.text;
     } else if (mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
       const result = await mammoth.extractRawText({ path: filePath });
@@ -59,13 +105,99 @@ async function extractTextFromFile(filePath, mimetype) {
       const sheetName = workbook.SheetNames[0];
       const worksheet = workbook.Sheets[sheetName];
       return XLSX.utils.sheet_to_txt(worksheet);
+    } else if (mimetype === 'application/msword') {
+      const document = await new WordExtractor().extract(filePath);
+      return [document.getHeaders({ includeFooters: false }), document.getBody()].join('\n\n');
+    } else if (mimetype === 'application/vnd.oasis.opendocument.text') {
+      return (await extractOdtText(fs.readFileSync(filePath))).text;
+    } else if (mimetype === 'application/rtf' || mimetype === 'text/rtf') {
+      // RTF is 7-bit ASCII; non-ASCII characters are escaped inside the markup
+      return rtfToText(fs.readFileSync(filePath, 'latin1'));
+    } else if (mimetype === 'text/plain') {
+      return decodeTextBuffer(fs.readFileSync(filePath)).text;
+    } else if (IMAGE_MIME_TYPES[mimetype]) {
+      // Photographed or scanned CVs: upright pages, as the TypeScript parser prepares them, OCR'd with
+      // automatic deskew and a page break after each page
+      const pages = await loadImagePages(filePath, IMAGE_MIME_TYPES[mimetype], MAX_CV_PAGES);
+      const worker = await createWorker('eng');
+      try {
+        let text = '';
+        for (const [index, page] of pages.entries()) {
+          const { data } = await worker.recognize(page, { rotateAuto: true });
+          text += data.text + PAGE_BREAK;
+          onPage(text, index + 1, pages.length);
+        }
+        return text;
+      } finally {
+        await worker.terminate();
+      }
     } else {
       throw new Error('Unsupported file type');
     }
   } catch (error) {
     console.error('Text extraction error:', error);
-    throw error;
+    throw classifyDocumentError(error);
+  }
+}
+
+// Cache key for work done on an upload's contents. A file opened with a password is never cached:
+// the key leaves out the password, so a later upload without it would otherwise get the decrypted text
+function contentCacheKey(upload) {
+  return upload.hasPassword ? null : `${EXTRACTION_VERSION}:${upload.mimetype}:${upload.contentHash}`;
+}
+
+// An upload's text, extracted once per file contents; `cached` tells whether it was read before
+async function readUploadText(upload, onPage) {
+  const key = contentCacheKey(upload);
+  const cached = key ? extractedTexts.get(key) : undefined;
+  if (cached !== undefined) {
+    return { fileText: cached, cached: true };
+  }
+
+  let fileText;
+  try {
+    fileText = await extractTextFromFile(upload.filepath, upload.mimetype, upload.password, onPage);
+  } finally {
+    // The password is only needed to open the file; a wrong one means uploading again
+    delete upload.password;
+  }
+  if (key) {
+    extractedTexts.set(key, fileText);
+  }
+  return { fileText, cached: false };
+}
+
+// Document problems the uploader can fix, with the same codes as the TypeScript API
+const MAX_CV_PAGES = parseInt(process.env.MAX_CV_PAGES || '20');
+
+const DOCUMENT_ERRORS = {
+  DOCUMENT_ENCRYPTED: { status: 422, message: 'This document is password-protected. Upload it again with its password' },
+  DOCUMENT_PASSWORD_INCORRECT: { status: 422, message: 'The password for this document is incorrect' },
+  DOCUMENT_CORRUPTED: { status: 422, message: 'This document is damaged or incomplete. Export it again and re-upload' },
+  DOCUMENT_EMPTY: { status: 422, message: 'No text could be found in this document' },
+  PAGE_LIMIT_EXCEEDED: { status: 413, message: 'This document has too many pages to be a CV' }
+};
+
+function documentError(code) {
+  return Object.assign(new Error(DOCUMENT_ERRORS[code].message), { code });
+}
+
+// Map parser failures to document error codes; other errors pass through unchanged
+function classifyDocumentError(error) {
+  if (error.code && DOCUMENT_ERRORS[error.code]) return error;
+  const message = error.message || '';
+  if (error.name === 'PasswordException' || /password|encrypt/i.test(message)) {
+    return documentError(/incorrect/i.test(message) ? 'DOCUMENT_PASSWORD_INCORRECT' : 'DOCUMENT_ENCRYPTED');
+  }
+  if (error.name === 'InvalidPDFException' || /invalid pdf|xref|central directory|end of data|corrupt|main document part/i.test(message)) {
+    return documentError('DOCUMENT_CORRUPTED');
   }
+  return error;
+}
+
+function sendDocumentError(res, error) {
+  const { status, message } = DOCUMENT_ERRORS[error.code];
+  res.status(status).json({ success: false, error: message, message, code: error.code });
 }
 
 // Apply EHS formatting rules to extracted CV data
@@ -107,7 +239,7 @@ function applyEHSFormattingRules(extractedText) {
     cvData.personalDetails.phone = phoneMatch[0].trim();
   }
 
-  // Extract name (usually first line or near the top)
+  // Extract name (usually first line or near the top); the extractor's name line wins below
   const nameMatch = extractedText.match(/^([A-Z][A-Z\s]+)/m);
   if (nameMatch) {
     const fullName = nameMatch[1].trim();
@@ -135,106 +267,62 @@ function applyEHSFormattingRules(extractedText) {
     extractedText.toLowerCase().includes(skill.toLowerCase())
   );
 
-  // Extract education (look for degree patterns)
-  const degreePattern = /(B\.E|B\.Tech|Bachelor)[\s\-\w]+(Information Technology|Computer Science|Engineering)/i;
-  const degreeMatch = extractedText.match(degreePattern);
-  if (degreeMatch) {
-    cvData.education.push({
-      degree: degreeMatch[0],
-      institution: 'Prof Ram Meghe Institute of Technology And Research',
-      field: 'Information Technology',
-      startDate: '2020',
-      endDate: '2024',
-      grade: 'CGPA: 8.29'
-    });
-  }
+  // Read the CV's sections, dated entries and lists with the offline extractor's rules
+  // (shared/extraction/heuristicExtractor.js); what it could not find holds a placeholder
+  const { draft } = extractCvHeuristically(extractedText);
+  const found = (value) => (value && value !== PLACEHOLDER ? value : '');
+  const foundItems = (values) => values.filter(found);
 
-  // Extract experience and projects
-  const projectPatterns = [
-    {
-      name: 'EV Charge Smart Route (AI)',
-      tech: ['React', 'CSS', 'PostgreSQL', 'NLP', 'Node.js'],
-      description: 'AI-powered EV charging assistant during Infosys Hackathon; selected in Top 10 out of 40+ teams.'
-    },
-    {
-      name: 'Mock Interview App',
-      tech: ['React', 'Node.js', 'LangChain', 'OpenAI API'],
-      description: 'AI-powered mock interview platform that generates dynamic questions based on uploaded resumes.'
-    },
-    {
-      name: 'Machine Factory Monitoring Dashboard',
-      tech: ['React', 'Node.js', 'MongoDB', 'WebSocket'],
-      description: 'Real-time dashboard for Daikibo Industrials to monitor 9 machines across 4 factories.'
-    }
-  ];
-
-  // Check which projects are mentioned in the CV
-  const foundProjects = projectPatterns.filter(project => 
-    extractedText.toLowerCase().includes(project.name.toLowerCase())
-  );
-
-  // Convert projects to experience entries
-  foundProjects.forEach(project => {
-    cvData.experience.push({
-      company: 'Project: ' + project.name,
-      position: 'Full Stack Developer',
-      startDate: '2024',
-      endDate: '2025',
-      description: [project.description],
-      achievements: [`Technologies used: ${project.tech.join(', ')}`]
-    });
-  });
-
-  // Extract internship
-  if (extractedText.toLowerCase().includes('deloitte')) {
-    cvData.experience.push({
-      company: 'Deloitte Technology Job Simulation',
-      position: 'Virtual Internship',
-      startDate: 'Jun 2025',
-      endDate: 'Jun 2025',
-      description: ['Completed Deloitte virtual internship simulating real-world engineering workflows'],
-      achievements: ['Developed Machine Health Dashboard using React.js, Python, and FastAPI']
-    });
+  if (found(draft.header.name)) {
+    const [firstName, ...lastName] = draft.header.name.split(/\s+/);
+    cvData.personalDetails.firstName = firstName;
+    cvData.personalDetails.lastName = lastName.join(' ');
   }
+  cvData.personalDetails.jobTitle = found(draft.header.title);
+
+  cvData.experience = draft.experience
+    .filter((entry) => found(entry.role) || found(entry.company))
+    .map((entry) => ({
+      company: found(entry.company),
+      position: found(entry.role),
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      description: foundItems(entry.bullets),
+      achievements: []
+    }));
 
-  // Extract hackathon achievement
-  if (extractedText.toLowerCase().includes('infosys') && extractedText.toLowerCase().includes('hackathon')) {
-    cvData.experience.push({
-      company: 'Infosys Global Hackathon 2025',
-      position: 'Top 10 Finalist',
-      startDate: '2025',
-      endDate: '2025',
-      description: ['Participated in first-ever hackathon and was selected in the Top 10 finalist teams (out of 40+ teams)'],
-      achievements: ['Developed "EV Charge Smart" (AI-powered EV charging optimizer) in a 2-day sprint']
-    });
-  }
+  cvData.education = draft.education
+    .filter((entry) => found(entry.degree) || found(entry.institution))
+    .map((entry) => ({
+      institution: found(entry.institution),
+      degree: found(entry.degree),
+      field: '',
+      startDate: entry.startDate,
+      endDate: entry.endDate
+    }));
 
-  // Generate profile based on extracted content
-  if (cvData.keySkills.length > 0) {
-    cvData.profile = `Professional ${cvData.keySkills[0]} Developer with expertise in ${cvData.keySkills.slice(0, 4).join(', ')}. ${foundProjects.length > 0 ? `Successfully delivered ${foundProjects.length} major projects including AI-powered solutions.` : ''} Extracted and formatted from uploaded CV following EHS professional standards.`;
-  } else {
-    cvData.profile = 'Professional Software Developer with strong technical skills and project experience. Extracted and formatted from uploaded CV following EHS professional standards.';
+  const listedSkills = foundItems(draft.skills);
+  cvData.keySkills = listedSkills.concat(
+    cvData.keySkills.filter((skill) => !listedSkills.some((listed) => listed.toLowerCase() === skill.toLowerCase()))
+  );
+  cvData.interests = foundItems(draft.interests);
+
+  // Use the CV's own profile, or summarise the skills found
+  cvData.profile = found(draft.profile);
+  if (!cvData.profile) {
+    cvData.profile = cvData.keySkills.length > 0
+      ? `Professional with expertise in ${cvData.keySkills.slice(0, 4).join(', ')}. Extracted and formatted from uploaded CV following EHS professional standards.`
+      : 'Extracted and formatted from uploaded CV following EHS professional standards.';
   }
 
   // Set default values for missing fields
   if (!cvData.personalDetails.firstName) {
-    cvData.personalDetails.firstName = 'Professional';
-    cvData.personalDetails.lastName = 'Developer';
+    cvData.personalDetails.firstName = 'Unknown';
+    cvData.personalDetails.lastName = 'Candidate';
   }
   
   if (!cvData.personalDetails.jobTitle) {
-    cvData.personalDetails.jobTitle = 'Full Stack Developer';
-  }
-
-  // Add interests based on CV content
-  if (extractedText.toLowerCase().includes('cricket')) {
-    cvData.interests.push('Cricket Team Captain');
-  }
-  if (extractedText.toLowerCase().includes('hackathon')) {
-    cvData.interests.push('Hackathon Participation');
-  }
-  if (extractedText.toLowerCase().includes('ai') || extractedText.toLowerCase().includes('machine learning')) {
-    cvData.interests.push('AI & Machine Learning');
+    cvData.personalDetails.jobTitle = cvData.experience.length > 0 ? cvData.experience[0].position : '';
   }
 
   // Apply EHS formatting standards
@@ -262,30 +350,55 @@ const upload = multer({
   storage: storage,
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
   fileFilter: (req, file, cb) => {
-    // Accept PDF, DOCX, and image files
+    // Accept PDF, Word, OpenDocument, RTF, plain text and image files
     const allowedTypes = [
       'application/pdf',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/msword',
+      'application/vnd.oasis.opendocument.text',
+      'application/rtf',
+      'text/rtf',
+      'text/plain',
       'image/jpeg',
       'image/png',
-      'image/jpg'
+      'image/jpg',
+      'image/tiff',
+      'image/heic',
+      'image/heif'
     ];
+
+    // Browsers without HEIC support send iPhone photos without a type
+    if (file.mimetype === 'application/octet-stream' && /\.hei[cf]$/i.test(file.originalname)) {
+      file.mimetype = 'image/heic';
+    }
     
     if (allowedTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF, DOCX, and images are allowed.'), false);
+      cb(new Error('Invalid file type. Only PDF, DOC, DOCX, ODT, RTF, TXT and images are allowed.'), false);
     }
   }
 });
 
-// Health check endpoint
-app.get('/health', (req, res) => {
+// Health check endpoint. Lists each AI provider with its circuit breaker state;
+// ?check=true also probes the providers before answering.
+app.get('/health', async (req, res) => {
+  const ids = providerRegistry.listProviders();
+  if (req.query.check === 'true') {
+    await providerRegistry.checkProviderHealth(ids);
+  }
+
   res.json({
     status: 'ok',
     message: 'CV Transformer API is running',
     timestamp: new Date().toISOString(),
-    version: '1.0.0'
+    version: '1.0.0',
+    providers: ids.map((id) => ({
+      id,
+      configured: providerRegistry.isConfigured(providerRegistry.getProvider(id)),
+      health: providerRegistry.getProviderHealth(id) || null,
+      circuit: getCircuitState(id)
+    }))
   });
 });
 
@@ -321,8 +434,10 @@ app.get('/api', (req, res) => {
       health: '/health',
       upload: '/api/v1/upload',
       process: '/api/v1/process/:uploadId',
+      'process-stream': '/api/v1/process/:uploadId/stream',
       'ai-process': '/api/v1/ai-process/:uploadId',
       status: '/api/v1/upload/:id/status',
+      photo: '/api/v1/cv/:uploadId/photo',
       templates: '/api/v1/templates',
       'template-preview': '/api/v1/templates/:industry',
       analyze: '/api/v1/analyze/:uploadId',
@@ -344,6 +459,11 @@ app.post('/api/v1/upload', upload.single('file'), (req, res) => {
     }
 
     const uploadId = uuidv4();
+
+    // The same CV is often uploaded more than once; flag repeats by content hash
+    const contentHash = crypto.createHash('sha256').update(fs.readFileSync(req.file.path)).digest('hex');
+    const earlier = Array.from(uploads.values()).find((existing) => existing.contentHash === contentHash);
+
     const uploadInfo = {
       uploadId,
       originalName: req.file.originalname,
@@ -351,6 +471,11 @@ app.post('/api/v1/upload', upload.single('file'), (req, res) => {
       filepath: req.file.path,
       mimetype: req.file.mimetype,
       size: req.file.size,
+      contentHash,
+      duplicateOf: earlier ? earlier.uploadId : undefined,
+      // Optional form field for password-protected PDFs; kept until the file has been read
+      password: req.body.password || undefined,
+      hasPassword: Boolean(req.body.password),
       status: 'uploaded',
       progress: 0,
       createdAt: new Date().toISOString()
@@ -358,13 +483,16 @@ app.post('/api/v1/upload', upload.single('file'), (req, res) => {
 
     uploads.set(uploadId, uploadInfo);
 
-    console.log(`File uploaded: ${req.file.originalname} -> ${uploadId}`);
+    console.log(`File uploaded: ${req.file.originalname} -> ${uploadId}${earlier ? ` (duplicate of ${earlier.uploadId})` : ''}`);
 
     res.json({
       success: true,
       uploadId,
       message: 'File uploaded successfully',
-      filename: req.file.originalname
+      filename: req.file.originalname,
+      contentHash,
+      duplicate: Boolean(earlier),
+      duplicateOf: earlier ? earlier.uploadId : undefined
     });
   } catch (error) {
     console.error('Upload error:', error);
@@ -375,6 +503,166 @@ app.post('/api/v1/upload', upload.single('file'), (req, res) => {
   }
 });
 
+// Documents a candidate photo is looked for in, as the format extractCandidatePhoto expects
+const PHOTO_DOCUMENT_TYPES = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+};
+
+// CVData sections in the order the stream endpoint sends them
+const CV_SECTIONS = ['personalDetails', 'profile', 'experience', 'education', 'keySkills', 'interests'];
+
+// Nothing found yet: blank text, an empty list, or an object of those
+function isEmptySection(value) {
+  if (typeof value === 'string') return !value.trim();
+  if (Array.isArray(value)) return value.length === 0;
+  if (value && typeof value === 'object') return Object.values(value).every(isEmptySection);
+  return true;
+}
+
+// Sends each CVData section to onEvent when it differs from what was last sent. A draft of the pages
+// read so far holds back empty sections, since a page still being read may fill them in
+function createSectionSender(onEvent) {
+  const sent = new Map();
+
+  return (cvData, completed = 1, total = 1) => {
+    CV_SECTIONS.forEach((section) => {
+      const value = cvData[section];
+      const json = JSON.stringify(value);
+      if (sent.get(section) === json || (completed < total && isEmptySection(value))) return;
+
+      sent.set(section, json);
+      onEvent({ type: 'section', section, value, completed, total });
+    });
+  };
+}
+
+// Extract, format and trace an upload, reporting each step to onEvent as it starts
+async function processUpload(req, upload, onEvent = () => {}) {
+  const { uploadId } = upload;
+  const sendSections = createSectionSender(onEvent);
+
+  // Update status to processing
+  upload.status = 'processing';
+  upload.progress = 25;
+  uploads.set(uploadId, upload);
+  onEvent({ type: 'stage', stage: 'parsing', progress: 25, message: 'Parsing file content...' });
+
+  // Extract text content from the uploaded file, unless the same file was read before. Scans are
+  // read page by page, and the rules run on the pages read so far to send what they already hold
+  console.log(`Extracting text from: ${upload.originalName}`);
+  let pageCount = 1;
+  // Reading the text clears the password from the upload; the photo is looked for with it afterwards
+  const { password } = upload;
+  const { fileText, cached: textCached } = await readUploadText(upload, (textSoFar, page, pages) => {
+    pageCount = pages;
+    upload.progress = 25 + Math.round((50 * page) / pages);
+    onEvent({ type: 'stage', stage: 'parsing', progress: upload.progress, message: `Read page ${page} of ${pages}` });
+    if (page < pages) {
+      sendSections(applyEHSFormattingRules(splitPageBreaks(textSoFar, PAGE_BREAK).text), page, pages);
+    }
+  });
+  const { text: extractedText, pageStarts } = splitPageBreaks(fileText, PAGE_BREAK);
+  console.log(`Extracted text length: ${extractedText.length} characters${textCached ? ' (cached)' : ''}`);
+  if (!extractedText.trim()) {
+    throw documentError('DOCUMENT_EMPTY');
+  }
+
+  // Update progress
+  upload.status = 'ai_processing';
+  upload.progress = 75;
+  uploads.set(uploadId, upload);
+  onEvent({ type: 'stage', stage: 'extracting', progress: 75, message: 'Extracting CV sections...' });
+  
+  // Apply EHS formatting rules to the extracted content, or reuse the draft they gave this file before.
+  // Each upload gets its own copy, since its metadata and photo are set on it and edited later
+  console.log('Applying EHS formatting rules...');
+  const key = contentCacheKey(upload);
+  let draft = key ? ruleDrafts.get(key) : undefined;
+  const draftCached = Boolean(draft);
+  if (!draft) {
+    draft = applyEHSFormattingRules(extractedText);
+    if (key) {
+      ruleDrafts.set(key, draft);
+    }
+  }
+  const processedCv = structuredClone(draft);
+  
+  // Set the original filename in metadata
+  processedCv.metadata.originalFileName = upload.originalName;
+  processedCv.metadata.uploadId = uploadId;
+
+  // Every section is ready now; the photo, which takes longer to find, follows in personalDetails
+  sendSections(processedCv, pageCount, pageCount);
+
+  // Keep the candidate's headshot beside the upload unless it was rejected before
+  const photoType = PHOTO_DOCUMENT_TYPES[upload.mimetype];
+  if (photoType && !upload.photoRejected) {
+    const photo = await extractCandidatePhoto(upload.filepath, photoType, password).catch((error) => {
+      console.warn('Photo extraction failed:', error.message);
+      return null;
+    });
+    if (photo) {
+      upload.photoPath = path.join(uploadDir, `${uploadId}-photo.jpg`);
+      fs.writeFileSync(upload.photoPath, photo.data);
+      processedCv.personalDetails.photo = `${req.protocol}://${req.get('host')}/api/v1/cv/${uploadId}/photo`;
+    }
+  }
+
+  sendSections(processedCv, pageCount, pageCount);
+  onEvent({ type: 'stage', stage: 'verifying', progress: 90, message: 'Checking extracted values against the original...' });
+
+  // Link each field to the text it was read from, with its page when the format has pages
+  const provenance = buildProvenance(processedCv, extractedText, {
+    skip: NOT_FROM_TEXT,
+    pageStarts: fileText.includes(PAGE_BREAK) ? pageStarts : undefined
+  });
+
+  // The rules extract what they find as it is written, so confidence rests on how each value was found in the text
+  const confidence = buildConfidence(processedCv, { skip: NOT_FROM_TEXT, provenance });
+
+  // Store the CV draft
+  cvDrafts.set(uploadId, processedCv);
+
+  // Update upload status
+  upload.status = 'completed';
+  upload.progress = 100;
+  uploads.set(uploadId, upload);
+
+  console.log(`CV processed successfully: ${uploadId}`);
+
+  return {
+    success: true,
+    uploadId,
+    cvData: processedCv,
+    originalContent: extractedText,
+    provenance,
+    confidence,
+    cached: { parse: textCached, draft: draftCached },
+    message: "CV processed successfully"
+  };
+}
+
+// Mark an upload failed, and the status and body to respond with
+function processingFailure(uploadId, error) {
+  console.error('Processing error:', error);
+  
+  // Update status to failed
+  const upload = uploads.get(uploadId);
+  if (upload) {
+    upload.status = 'failed';
+    upload.error = error.message;
+    uploads.set(uploadId, upload);
+  }
+
+  if (DOCUMENT_ERRORS[error.code]) {
+    const { status, message } = DOCUMENT_ERRORS[error.code];
+    return { status, body: { success: false, error: message, message, code: error.code } };
+  }
+
+  return { status: 500, body: { success: false, error: error.message || 'Processing failed' } };
+}
+
 // Process CV endpoint
 app.post('/api/v1/process/:uploadId', async (req, res) => {
   try {
@@ -388,66 +676,47 @@ app.post('/api/v1/process/:uploadId', async (req, res) => {
       });
     }
 
-    // Update status to processing
-    upload.status = 'processing';
-    upload.progress = 25;
-    uploads.set(uploadId, upload);
-
-    // Simulate AI processing delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Update progress
-    upload.status = 'ai_processing';
-    upload.progress = 75;
-    uploads.set(uploadId, upload);
-
-    // Simulate more processing
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Extract text content from the uploaded file
-    console.log(`Extracting text from: ${upload.originalName}`);
-    const extractedText = await extractTextFromFile(upload.filepath, upload.mimetype);
-    console.log(`Extracted text length: ${extractedText.length} characters`);
-    
-    // Apply EHS formatting rules to the extracted content
-    console.log('Applying EHS formatting rules...');
-    const processedCv = applyEHSFormattingRules(extractedText);
-    
-    // Set the original filename in metadata
-    processedCv.metadata.originalFileName = upload.originalName;
+    res.json(await processUpload(req, upload));
+  } catch (error) {
+    const { status, body } = processingFailure(req.params.uploadId, error);
+    res.status(status).json(body);
+  }
+});
 
-    // Store the CV draft
-    cvDrafts.set(uploadId, processedCv);
+// Process CV with progress as server-sent events: "stage" as each step starts and each page of a scan
+// is read, "section" for each part of the CV as it is found, then "done" with the body the endpoint
+// above responds with, or "error"
+app.post('/api/v1/process/:uploadId/stream', async (req, res) => {
+  const { uploadId } = req.params;
+  const upload = uploads.get(uploadId);
 
-    // Update upload status
-    upload.status = 'completed';
-    upload.progress = 100;
-    uploads.set(uploadId, upload);
+  if (!upload) {
+    return res.status(404).json({
+      success: false,
+      error: 'Upload not found'
+    });
+  }
 
-    console.log(`CV processed successfully: ${uploadId}`);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
 
-    res.json({
-      success: true,
-      uploadId,
-      cvData: processedCv,
-      message: "CV processed successfully"
-    });
-  } catch (error) {
-    console.error('Processing error:', error);
-    
-    // Update status to failed
-    const upload = uploads.get(req.params.uploadId);
-    if (upload) {
-      upload.status = 'failed';
-      upload.error = error.message;
-      uploads.set(req.params.uploadId, upload);
+  // Processing carries on if the client goes away, so the draft is still stored
+  const send = (event) => {
+    if (!res.writableEnded && !res.destroyed) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
     }
+  };
 
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Processing failed'
-    });
+  try {
+    send({ type: 'done', ...await processUpload(req, upload, send) });
+  } catch (error) {
+    send({ type: 'error', ...processingFailure(uploadId, error).body });
   }
+  res.end();
 });
 
 // Upload status endpoint
@@ -506,6 +775,57 @@ app.get('/api/v1/cv/:uploadId', (req, res) => {
   }
 });
 
+// Candidate photo endpoints
+app.get('/api/v1/cv/:uploadId/photo', (req, res) => {
+  const upload = uploads.get(req.params.uploadId);
+
+  if (!upload || !upload.photoPath || !fs.existsSync(upload.photoPath)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Photo not found'
+    });
+  }
+
+  res.sendFile(upload.photoPath);
+});
+
+app.delete('/api/v1/cv/:uploadId/photo', (req, res) => {
+  try {
+    const { uploadId } = req.params;
+    const upload = uploads.get(uploadId);
+
+    if (!upload) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      });
+    }
+
+    if (upload.photoPath) {
+      fs.rmSync(upload.photoPath, { force: true });
+      delete upload.photoPath;
+    }
+    // Reprocessing must not bring a rejected photo back
+    upload.photoRejected = true;
+
+    const cvDraft = cvDrafts.get(uploadId);
+    if (cvDraft) {
+      delete cvDraft.personalDetails.photo;
+    }
+
+    res.json({
+      success: true,
+      message: 'Photo removed'
+    });
+  } catch (error) {
+    console.error('Photo removal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove photo'
+    });
+  }
+});
+
 // Get all uploads endpoint
 app.get('/api/v1/uploads', (req, res) => {
   try {
@@ -531,6 +851,9 @@ app.get('/api/v1/uploads', (req, res) => {
   }
 });
 
+// Tasks processCVWithAI sends to the AI providers; a change to any of their chains changes the result
+const AI_TASKS = ['extraction', 'skillAnalysis', 'enhancement', 'validation', 'insights'];
+
 // Advanced AI Processing endpoint
 app.post('/api/v1/ai-process/:uploadId', async (req, res) => {
   try {
@@ -545,18 +868,40 @@ app.post('/api/v1/ai-process/:uploadId', async (req, res) => {
       });
     }
 
-    // Extract text from file
-    const extractedText = await extractTextFromFile(upload.filepath, upload.mimetype);
-    
-    // Process with AI
-    const aiResult = await aiService.processCVWithAI(extractedText, industry);
+    // Extract text from file, unless the same file was read before
+    const { fileText, cached: textCached } = await readUploadText(upload);
+    const { text: extractedText, pageStarts } = splitPageBreaks(fileText, PAGE_BREAK);
     
-    if (!aiResult.success) {
-      throw new Error(aiResult.error);
+    // Process with AI, unless this file was already processed for the industry by the same providers
+    const key = contentCacheKey(upload);
+    const aiKey = key && `${industry}:${AI_TASKS.map((task) => providerRegistry.getProviderChain(task).join(',')).join(';')}:${key}`;
+    let aiResult = aiKey ? aiResults.get(aiKey) : undefined;
+    const draftCached = Boolean(aiResult);
+
+    if (!aiResult) {
+      aiResult = await aiService.processCVWithAI(extractedText, industry);
+
+      if (!aiResult.success) {
+        throw new Error(aiResult.error);
+      }
+      if (aiKey) {
+        aiResults.set(aiKey, aiResult);
+      }
     }
 
-    // Store AI-processed CV
-    cvDrafts.set(uploadId, aiResult.cvData);
+    // Store AI-processed CV; a copy, as the stored draft is edited later
+    cvDrafts.set(uploadId, structuredClone(aiResult.cvData));
+
+    // Link each field to the text it was read from, and doubt the values the model said it was unsure of
+    const provenance = buildProvenance(aiResult.cvData, extractedText, {
+      skip: NOT_FROM_TEXT,
+      pageStarts: fileText.includes(PAGE_BREAK) ? pageStarts : undefined
+    });
+    const confidence = buildConfidence(aiResult.cvData, {
+      skip: NOT_FROM_TEXT,
+      provenance,
+      uncertainValues: aiResult.uncertain
+    });
     
     res.json({
       success: true,
@@ -565,10 +910,16 @@ app.post('/api/v1/ai-process/:uploadId', async (req, res) => {
       skillAnalysis: aiResult.skillAnalysis,
       validation: aiResult.validation,
       insights: aiResult.insights,
+      provenance,
+      confidence,
+      cached: { parse: textCached, draft: draftCached },
       message: "CV processed with AI successfully"
     });
   } catch (error) {
     console.error('AI processing error:', error);
+    if (DOCUMENT_ERRORS[error.code]) {
+      return sendDocumentError(res, error);
+    }
     res.status(500).json({
       success: false,
       error: error.message || 'AI processing failed'
@@ -1,31 +1,90 @@
 const OpenAI = require('openai');
 const Anthropic = require('@anthropic-ai/sdk');
 const { GoogleGenerativeAI } = require('@google/generative-ai');
+const registry = require('../../../shared/providers/registry');
+const { callProvider } = require('../../../shared/providers/resilience');
+const { getRedactedCategories, redactPii, restorePii, REDACTION_NOTE } = require('../../../dist/shared/pii/piiRedactor');
 
 class AIService {
-  constructor() {
-    // Initialize different AI clients
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || 'your-openai-key'
+  // Send a prompt to the providers configured for a task, in order, and return the first reply, parsed
+  // from JSON. Providers and models come from the shared registry (shared/providers/providers.json); each
+  // call gets the registry's timeout, retries for 429/5xx and a circuit breaker that skips failing providers.
+  // Personal details a provider may not receive (its allowedPii) are swapped for tokens before the prompt
+  // is sent, and put back in its reply.
+  async complete(task, prompt) {
+    const chain = registry.getProviderChain(task).filter((id) => {
+      const provider = registry.getProvider(id, task);
+      return provider && provider.type !== 'heuristic';
     });
-    
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || 'your-anthropic-key'
-    });
-    
-    this.googleAI = new GoogleGenerativeAI(
-      process.env.GOOGLE_AI_API_KEY || 'your-google-ai-key'
-    );
-    
-    this.models = {
-      contentExtraction: 'gpt-4',
-      skillAnalysis: 'claude-3-sonnet-20240229',
-      formatting: 'gemini-pro',
-      validation: 'gpt-3.5-turbo'
-    };
+    let lastError = null;
+
+    for (const id of chain) {
+      const provider = registry.getProvider(id, task);
+      const redaction = redactPii(prompt, getRedactedCategories(provider));
+      const redactedCount = Object.keys(redaction.tokens).length;
+      if (redactedCount > 0) {
+        console.log(`Redacted ${redactedCount} personal details before sending to ${provider.name}`);
+      }
+      const sent = redactedCount > 0 ? redaction.text + REDACTION_NOTE : redaction.text;
+
+      try {
+        const reply = await callProvider(provider, (signal) => this.completeWith(provider, sent, signal));
+        return restorePii(JSON.parse(reply), redaction.tokens);
+      } catch (error) {
+        console.warn(`${provider.name} failed for ${task}:`, error.message);
+        lastError = error;
+      }
+    }
+
+    throw lastError || new Error(`No AI provider configured for ${task}`);
   }
 
-  // Extract and structure CV content using GPT-4
+  // One request, without retries; the SDKs' own retries are off so callProvider decides
+  async completeWith(provider, prompt, signal) {
+    switch (provider.type) {
+      case 'openai':
+      case 'openai-compatible': {
+        const client = new OpenAI({
+          apiKey: provider.apiKey || 'not-needed',
+          baseURL: provider.baseUrl,
+          maxRetries: 0
+        });
+        const response = await client.chat.completions.create({
+          model: provider.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: provider.temperature,
+          max_tokens: provider.maxTokens,
+          ...(provider.jsonMode ? { response_format: { type: 'json_object' } } : {})
+        }, { signal });
+        return response.choices[0].message.content;
+      }
+
+      case 'anthropic': {
+        const client = new Anthropic({ apiKey: provider.apiKey, maxRetries: 0 });
+        const response = await client.messages.create({
+          model: provider.model,
+          max_tokens: provider.maxTokens || 1000,
+          temperature: provider.temperature,
+          messages: [{ role: 'user', content: prompt }]
+        }, { signal });
+        return response.content[0].text;
+      }
+
+      case 'gemini': {
+        const model = new GoogleGenerativeAI(provider.apiKey).getGenerativeModel({
+          model: provider.model,
+          generationConfig: { temperature: provider.temperature, maxOutputTokens: provider.maxTokens }
+        });
+        const result = await model.generateContent(prompt, { signal });
+        return (await result.response).text();
+      }
+
+      default:
+        throw new Error(`Unsupported provider type: ${provider.type}`);
+    }
+  }
+
+  // Extract and structure CV content
   async extractCVContent(text) {
     try {
       const prompt = `
@@ -73,20 +132,17 @@ class AIService {
               "technologies": ["string"],
               "achievements": ["string"]
             }
-          ]
+          ],
+          "uncertain": ["string"]
         }
         
+        List in "uncertain" every value you are not sure of, copied exactly as you wrote it: a date you
+        had to guess, a title or employer you had to infer, text you could not read clearly.
+        
         CV Text: ${text}
       `;
 
-      const response = await this.openai.chat.completions.create({
-        model: this.models.contentExtraction,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 2000
-      });
-
-      const extractedData = JSON.parse(response.choices[0].message.content);
+      const extractedData = await this.complete('extraction', prompt);
       return { success: true, data: extractedData };
     } catch (error) {
       console.error('Content extraction error:', error);
@@ -94,7 +150,7 @@ class AIService {
     }
   }
 
-  // Analyze skills and provide insights using Claude
+  // Analyze skills and provide insights
   async analyzeSkills(skills, jobTitle) {
     try {
       const prompt = `
@@ -118,13 +174,7 @@ class AIService {
         }
       `;
 
-      const response = await this.anthropic.messages.create({
-        model: this.models.skillAnalysis,
-        max_tokens: 1000,
-        messages: [{ role: 'user', content: prompt }]
-      });
-
-      const analysis = JSON.parse(response.content[0].text);
+      const analysis = await this.complete('skillAnalysis', prompt);
       return { success: true, data: analysis };
     } catch (error) {
       console.error('Skill analysis error:', error);
@@ -132,7 +182,7 @@ class AIService {
     }
   }
 
-  // Enhance and format content using Gemini
+  // Enhance and format content
   async enhanceContent(content, industry) {
     try {
       const prompt = `
@@ -152,11 +202,7 @@ class AIService {
         Return enhanced content in the same JSON structure.
       `;
 
-      const model = this.googleAI.getGenerativeModel({ model: this.models.formatting });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      
-      const enhancedContent = JSON.parse(response.text());
+      const enhancedContent = await this.complete('enhancement', prompt);
       return { success: true, data: enhancedContent };
     } catch (error) {
       console.error('Content enhancement error:', error);
@@ -164,7 +210,7 @@ class AIService {
     }
   }
 
-  // Validate CV quality using GPT-3.5
+  // Validate CV quality
   async validateCV(cvData) {
     try {
       const prompt = `
@@ -188,14 +234,7 @@ class AIService {
         }
       `;
 
-      const response = await this.openai.chat.completions.create({
-        model: this.models.validation,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 1000
-      });
-
-      const validation = JSON.parse(response.choices[0].message.content);
+      const validation = await this.complete('validation', prompt);
       return { success: true, data: validation };
     } catch (error) {
       console.error('CV validation error:', error);
@@ -218,14 +257,7 @@ class AIService {
         Return as JSON with detailed insights.
       `;
 
-      const response = await this.openai.chat.completions.create({
-        model: this.models.contentExtraction,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1500
-      });
-
-      const insights = JSON.parse(response.choices[0].message.content);
+      const insights = await this.complete('insights', prompt);
       return { success: true, data: insights };
     } catch (error) {
       console.error('Industry insights error:', error);
@@ -242,14 +274,17 @@ class AIService {
       const extraction = await this.extractCVContent(text);
       if (!extraction.success) throw new Error(extraction.error);
       
+      // The values the model was unsure of are kept apart from the CV data, to score its confidence
+      const { uncertain, ...extractedData } = extraction.data;
+      
       // Step 2: Analyze skills
       const skillAnalysis = await this.analyzeSkills(
-        extraction.data.keySkills || [], 
-        extraction.data.personalDetails?.jobTitle || 'Software Developer'
+        extractedData.keySkills || [], 
+        extractedData.personalDetails?.jobTitle || 'Software Developer'
       );
       
       // Step 3: Enhance content
-      const enhancedContent = await this.enhanceContent(extraction.data, industry);
+      const enhancedContent = await this.enhanceContent(extractedData, industry);
       if (!enhancedContent.success) throw new Error(enhancedContent.error);
       
       // Step 4: Validate final CV
@@ -264,6 +299,7 @@ class AIService {
       return {
         success: true,
         cvData: enhancedContent.data,
+        uncertain: Array.isArray(uncertain) ? uncertain.filter((value) => typeof value === 'string') : [],
         skillAnalysis: skillAnalysis.success ? skillAnalysis.data : null,
         validation: validation.success ? validation.data : null,
         insights: insights.success ? insights.data : null,
@@ -30,6 +30,8 @@ export interface CvDraft {
   audit: {
     rulesApplied: string[];
     issues: string[];
+    uncertain?: string[];  // Values the model was unsure of
+    repaired?: string[];   // Values schema repair had to fix
   };
 }
 
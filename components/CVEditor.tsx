@@ -7,16 +7,41 @@ import {
   CheckIcon, 
   PlusIcon, 
   TrashIcon,
-  XMarkIcon 
+  XMarkIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
-import { CVData, CVEditorProps, Experience, Education } from '@/types/cv'
+import { CVData, CVEditorProps, Experience, Education, FieldConfidence } from '@/types/cv'
+import { confidenceAt, describeConfidence, isLowConfidence, LOW_CONFIDENCE, withoutConfidence, withoutListItem } from '@/utils/confidence'
 import toast from 'react-hot-toast'
 import HomeButton from './HomeButton'
 
-const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
+const CVEditor: React.FC<CVEditorProps> = ({ cvData, confidence, onUpdate, onConfidenceChange, onBack }) => {
   const [editedData, setEditedData] = useState<CVData>(cvData)
   const [editingField, setEditingField] = useState<string | null>(null)
   const [tempValue, setTempValue] = useState<string>('')
+  const [fieldConfidence, setFieldConfidence] = useState<FieldConfidence>(confidence || {})
+
+  const lowConfidenceCount = Object.values(fieldConfidence).filter(score => score < LOW_CONFIDENCE).length
+
+  const updateConfidence = (next: FieldConfidence) => {
+    setFieldConfidence(next)
+    onConfidenceChange?.(next)
+  }
+
+  // A field the reviewer has edited or saved no longer needs checking
+  const markReviewed = (path: string) => {
+    if (confidenceAt(fieldConfidence, path) !== undefined) {
+      updateConfidence(withoutConfidence(fieldConfidence, path))
+    }
+  }
+
+  // Input styling and tooltip for a low-confidence field
+  const flagInput = (path: string, className = 'input-field') => {
+    const score = confidenceAt(fieldConfidence, path)
+    return score !== undefined && score < LOW_CONFIDENCE
+      ? { className: `${className} border-amber-400 bg-amber-50`, title: describeConfidence(score) }
+      : { className }
+  }
 
   const handleEdit = (field: string, value: string) => {
     setEditingField(field)
@@ -48,6 +73,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
     setEditingField(null)
     setTempValue('')
     onUpdate(newData)
+    markReviewed(field)
     toast.success('Updated successfully')
   }
 
@@ -69,6 +95,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
     
     setEditedData(newData)
     onUpdate(newData)
+    markReviewed(field ? `${section}[${index}].${field}` : `${section}[${index}]`)
   }
 
   const handleArrayAdd = (section: keyof CVData) => {
@@ -107,6 +134,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
     array.splice(index, 1)
     setEditedData(newData)
     onUpdate(newData)
+    updateConfidence(withoutListItem(fieldConfidence, section, index))
     toast.success('Item removed')
   }
 
@@ -122,11 +150,23 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
     
     setEditedData(newData)
     onUpdate(newData)
+    markReviewed(`${section}[${index}].${field}`)
   }
 
   const renderEditableField = (label: string, field: string, value: string, multiline = false) => (
     <div className="mb-4">
-      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+        {isLowConfidence(fieldConfidence, field) && (
+          <span
+            className="ml-2 inline-flex items-center space-x-1 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800"
+            title={describeConfidence(confidenceAt(fieldConfidence, field)!)}
+          >
+            <ExclamationTriangleIcon className="h-3 w-3" />
+            <span>Check</span>
+          </span>
+        )}
+      </label>
       {editingField === field ? (
         <div className="space-y-2">
           {multiline ? (
@@ -199,6 +239,15 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
         <h2 className="text-2xl font-bold text-gray-900">Edit CV</h2>
       </div>
 
+      {lowConfidenceCount > 0 && (
+        <div className="mb-6 flex items-center space-x-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+          <span>
+            {lowConfidenceCount} {lowConfidenceCount === 1 ? 'value needs' : 'values need'} checking against the original CV. Editing or saving a field marks it as checked.
+          </span>
+        </div>
+      )}
+
       <div className="space-y-8">
         {/* Personal Details */}
         <motion.div
@@ -268,28 +317,28 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                     type="text"
                     value={exp.company}
                     onChange={(e) => handleArrayEdit('experience', index, 'company', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`experience[${index}].company`)}
                     placeholder="Company"
                   />
                   <input
                     type="text"
                     value={exp.position}
                     onChange={(e) => handleArrayEdit('experience', index, 'position', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`experience[${index}].position`)}
                     placeholder="Position"
                   />
                   <input
                     type="text"
                     value={exp.startDate}
                     onChange={(e) => handleArrayEdit('experience', index, 'startDate', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`experience[${index}].startDate`)}
                     placeholder="Start Date (e.g., Jan 2020)"
                   />
                   <input
                     type="text"
                     value={exp.endDate}
                     onChange={(e) => handleArrayEdit('experience', index, 'endDate', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`experience[${index}].endDate`)}
                     placeholder="End Date (e.g., Present)"
                   />
                 </div>
@@ -299,7 +348,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                   <textarea
                     value={exp.description[0] || ''}
                     onChange={(e) => handleArrayItemEdit('experience', index, 'description', e.target.value)}
-                    className="input-field min-h-[80px]"
+                    {...flagInput(`experience[${index}].description`, 'input-field min-h-[80px]')}
                     placeholder="Describe your responsibilities"
                   />
                 </div>
@@ -309,7 +358,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                   <textarea
                     value={exp.achievements[0] || ''}
                     onChange={(e) => handleArrayItemEdit('experience', index, 'achievements', e.target.value)}
-                    className="input-field min-h-[80px]"
+                    {...flagInput(`experience[${index}].achievements`, 'input-field min-h-[80px]')}
                     placeholder="List your key achievements"
                   />
                 </div>
@@ -354,42 +403,42 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                     type="text"
                     value={edu.institution}
                     onChange={(e) => handleArrayEdit('education', index, 'institution', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].institution`)}
                     placeholder="Institution"
                   />
                   <input
                     type="text"
                     value={edu.degree}
                     onChange={(e) => handleArrayEdit('education', index, 'degree', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].degree`)}
                     placeholder="Degree"
                   />
                   <input
                     type="text"
                     value={edu.field}
                     onChange={(e) => handleArrayEdit('education', index, 'field', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].field`)}
                     placeholder="Field of Study"
                   />
                   <input
                     type="text"
                     value={edu.grade || ''}
                     onChange={(e) => handleArrayEdit('education', index, 'grade', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].grade`)}
                     placeholder="Grade (optional)"
                   />
                   <input
                     type="text"
                     value={edu.startDate}
                     onChange={(e) => handleArrayEdit('education', index, 'startDate', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].startDate`)}
                     placeholder="Start Date (e.g., Sep 2013)"
                   />
                   <input
                     type="text"
                     value={edu.endDate}
                     onChange={(e) => handleArrayEdit('education', index, 'endDate', e.target.value)}
-                    className="input-field"
+                    {...flagInput(`education[${index}].endDate`)}
                     placeholder="End Date (e.g., Jun 2017)"
                   />
                 </div>
@@ -423,7 +472,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                   type="text"
                   value={skill}
                   onChange={(e) => handleArrayEdit('keySkills', index, '', e.target.value)}
-                  className="input-field flex-1"
+                  {...flagInput(`keySkills[${index}]`, 'input-field flex-1')}
                   placeholder="Enter skill"
                 />
                 <button
@@ -462,7 +511,7 @@ const CVEditor: React.FC<CVEditorProps> = ({ cvData, onUpdate, onBack }) => {
                   type="text"
                   value={interest}
                   onChange={(e) => handleArrayEdit('interests', index, '', e.target.value)}
-                  className="input-field flex-1"
+                  {...flagInput(`interests[${index}]`, 'input-field flex-1')}
                   placeholder="Enter interest"
                 />
                 <button
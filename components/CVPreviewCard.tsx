@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { motion } from 'framer-motion'
 import { 
   DocumentTextIcon, 
@@ -8,20 +8,54 @@ import {
   ArrowDownTrayIcon,
   DocumentArrowDownIcon,
   CheckCircleIcon,
-  SparklesIcon
+  SparklesIcon,
+  XMarkIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
-import { CVData } from '@/types/cv'
+import { CVData, FieldConfidence, Provenance } from '@/types/cv'
+import { confidenceAt, describeConfidence, LOW_CONFIDENCE } from '@/utils/confidence'
 import toast from 'react-hot-toast'
 
 interface CVPreviewCardProps {
   cvData: CVData
   originalContent: string
+  provenance?: Provenance
+  confidence?: FieldConfidence
   onDownload: (format: 'pdf' | 'docx') => void
+  onRejectPhoto?: () => void
 }
 
-const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent, onDownload }) => {
+// The value at a provenance path such as "experience[2].company"
+const valueAtPath = (data: unknown, path: string): string => {
+  const value = path
+    .split(/\.|\[(\d+)\]/)
+    .filter(Boolean)
+    .reduce<any>((current, key) => (current == null ? current : current[key]), data)
+  return typeof value === 'string' ? value : ''
+}
+
+const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent, provenance, confidence, onDownload, onRejectPhoto }) => {
   const [activeTab, setActiveTab] = useState<'formatted' | 'raw'>('formatted')
   const [isDownloading, setIsDownloading] = useState(false)
+  const [hoveredPath, setHoveredPath] = useState<string | null>(null)
+  const highlightRef = useRef<HTMLElement>(null)
+
+  const sourceFields = Object.keys(provenance || {})
+    .map(path => ({ path, value: valueAtPath(cvData, path), span: provenance![path], score: confidenceAt(confidence, path) }))
+    .filter(field => field.value && field.span.end <= originalContent.length)
+  const hoveredSpan = hoveredPath && provenance ? provenance[hoveredPath] : undefined
+  const lowConfidenceCount = Object.values(confidence || {}).filter(score => score < LOW_CONFIDENCE).length
+
+  // Highlights a value the pipeline is unsure of, so review starts there
+  const flag = (path: string, className = 'bg-amber-100 ring-1 ring-amber-300 rounded px-1') => {
+    const score = confidenceAt(confidence, path)
+    return score !== undefined && score < LOW_CONFIDENCE ? { className, title: describeConfidence(score) } : {}
+  }
+
+  // Bring the highlighted source into view in the scrolling text panel
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [hoveredPath])
 
   const handleDownload = async (format: 'pdf' | 'docx') => {
     setIsDownloading(true)
@@ -120,39 +154,60 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
             transition={{ duration: 0.3 }}
             className="space-y-6"
           >
+            {lowConfidenceCount > 0 && (
+              <div className="flex items-center space-x-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                <span>
+                  {lowConfidenceCount} {lowConfidenceCount === 1 ? 'value is' : 'values are'} highlighted as low confidence. Check {lowConfidenceCount === 1 ? 'it' : 'them'} against the original before downloading.
+                </span>
+              </div>
+            )}
+
             {/* CV Header */}
             <div className="text-center border-b border-gray-200 pb-6">
               <div className="flex items-start justify-between max-w-4xl mx-auto">
                 {/* Personal Details - Left Side */}
                 <div className="flex-1 text-left">
                   <h1 className="text-3xl font-bold text-gray-900 mb-2 font-palatino">
-                    {cvData.personalDetails.firstName} {cvData.personalDetails.lastName}
+                    <span {...flag('personalDetails.firstName')}>{cvData.personalDetails.firstName}</span>{' '}
+                    <span {...flag('personalDetails.lastName')}>{cvData.personalDetails.lastName}</span>
                   </h1>
                   <h2 className="text-xl text-primary-600 font-semibold mb-4 font-palatino">
-                    {cvData.personalDetails.jobTitle}
+                    <span {...flag('personalDetails.jobTitle')}>{cvData.personalDetails.jobTitle}</span>
                   </h2>
                   
                   {/* Personal Details Grid */}
                   <div className="grid grid-cols-1 gap-2 text-sm text-gray-600">
-                    <p><span className="font-semibold">Nationality:</span> {cvData.personalDetails.nationality}</p>
-                    <p><span className="font-semibold">Languages:</span> {cvData.personalDetails.languages.join(', ')}</p>
-                    <p><span className="font-semibold">Date of Birth:</span> {cvData.personalDetails.dateOfBirth}</p>
-                    <p><span className="font-semibold">Marital Status:</span> {cvData.personalDetails.maritalStatus}</p>
-                    <p><span className="font-semibold">Email:</span> {cvData.personalDetails.email}</p>
-                    <p><span className="font-semibold">Phone:</span> {cvData.personalDetails.phone}</p>
-                    <p><span className="font-semibold">Address:</span> {cvData.personalDetails.address}</p>
+                    <p><span className="font-semibold">Nationality:</span> <span {...flag('personalDetails.nationality')}>{cvData.personalDetails.nationality}</span></p>
+                    <p><span className="font-semibold">Languages:</span> <span {...flag('personalDetails.languages')}>{cvData.personalDetails.languages.join(', ')}</span></p>
+                    <p><span className="font-semibold">Date of Birth:</span> <span {...flag('personalDetails.dateOfBirth')}>{cvData.personalDetails.dateOfBirth}</span></p>
+                    <p><span className="font-semibold">Marital Status:</span> <span {...flag('personalDetails.maritalStatus')}>{cvData.personalDetails.maritalStatus}</span></p>
+                    <p><span className="font-semibold">Email:</span> <span {...flag('personalDetails.email')}>{cvData.personalDetails.email}</span></p>
+                    <p><span className="font-semibold">Phone:</span> <span {...flag('personalDetails.phone')}>{cvData.personalDetails.phone}</span></p>
+                    <p><span className="font-semibold">Address:</span> <span {...flag('personalDetails.address')}>{cvData.personalDetails.address}</span></p>
                   </div>
                 </div>
 
                 {/* Professional Photo - Right Side */}
                 <div className="ml-8 flex-shrink-0">
-                  <div className="w-32 h-40 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg border-2 border-gray-300 flex items-center justify-center overflow-hidden">
+                  <div className="relative w-32 h-40 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg border-2 border-gray-300 flex items-center justify-center overflow-hidden">
                     {cvData.personalDetails.photo ? (
-                      <img
-                        src={cvData.personalDetails.photo}
-                        alt={`${cvData.personalDetails.firstName} ${cvData.personalDetails.lastName}`}
-                        className="w-full h-full object-cover"
-                      />
+                      <>
+                        <img
+                          src={cvData.personalDetails.photo}
+                          alt={`${cvData.personalDetails.firstName} ${cvData.personalDetails.lastName}`}
+                          className="w-full h-full object-cover"
+                        />
+                        {onRejectPhoto && (
+                          <button
+                            onClick={onRejectPhoto}
+                            className="absolute top-1 right-1 bg-white/90 hover:bg-white text-gray-700 rounded-full p-1 shadow"
+                            title="Not the candidate? Remove this photo"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </>
                     ) : (
                       <div className="text-center text-gray-500">
                         <div className="w-16 h-16 bg-gray-300 rounded-full mx-auto mb-2 flex items-center justify-center">
@@ -177,7 +232,7 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
             <div className="cv-section">
               <h3 className="cv-section-title">Professional Profile</h3>
               <p className="text-gray-700 leading-relaxed text-balance font-palatino">
-                {cvData.profile}
+                <span {...flag('profile')}>{cvData.profile}</span>
               </p>
             </div>
 
@@ -188,19 +243,23 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
                 {cvData.experience.map((exp, index) => (
                   <div key={index} className="border-l-4 border-primary-200 pl-4">
                     <div className="flex justify-between items-start mb-2">
-                      <h4 className="text-lg font-semibold text-gray-900 font-palatino">{exp.position}</h4>
+                      <h4 className="text-lg font-semibold text-gray-900 font-palatino">
+                        <span {...flag(`experience[${index}].position`)}>{exp.position}</span>
+                      </h4>
                       <span className="text-sm text-gray-500 font-medium">
-                        {exp.startDate} - {exp.endDate}
+                        <span {...flag(`experience[${index}].startDate`)}>{exp.startDate}</span> - <span {...flag(`experience[${index}].endDate`)}>{exp.endDate}</span>
                       </span>
                     </div>
-                    <h5 className="text-primary-600 font-medium mb-3 font-palatino">{exp.company}</h5>
+                    <h5 className="text-primary-600 font-medium mb-3 font-palatino">
+                      <span {...flag(`experience[${index}].company`)}>{exp.company}</span>
+                    </h5>
                     
                     <div className="space-y-3">
                       <div>
                         <h6 className="font-semibold text-gray-800 mb-2">Key Responsibilities:</h6>
                         <ul className="list-disc list-inside space-y-1 text-gray-700">
                           {exp.description.map((desc, i) => (
-                            <li key={i} className="text-sm font-palatino">{desc}</li>
+                            <li key={i} className="text-sm font-palatino"><span {...flag(`experience[${index}].description[${i}]`)}>{desc}</span></li>
                           ))}
                         </ul>
                       </div>
@@ -210,7 +269,7 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
                           <h6 className="font-semibold text-gray-800 mb-2">Key Achievements:</h6>
                           <ul className="list-disc list-inside space-y-1 text-gray-700">
                             {exp.achievements.map((achievement, i) => (
-                              <li key={i} className="text-sm font-palatino">{achievement}</li>
+                              <li key={i} className="text-sm font-palatino"><span {...flag(`experience[${index}].achievements[${i}]`)}>{achievement}</span></li>
                             ))}
                           </ul>
                         </div>
@@ -229,16 +288,20 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
                   <div key={index} className="border-l-4 border-green-200 pl-4">
                     <div className="flex justify-between items-start mb-2">
                       <div>
-                        <h4 className="text-lg font-semibold text-gray-900 font-palatino">{edu.degree}</h4>
-                        <h5 className="text-primary-600 font-medium font-palatino">{edu.institution}</h5>
-                        <p className="text-gray-600 font-palatino">{edu.field}</p>
+                        <h4 className="text-lg font-semibold text-gray-900 font-palatino">
+                          <span {...flag(`education[${index}].degree`)}>{edu.degree}</span>
+                        </h4>
+                        <h5 className="text-primary-600 font-medium font-palatino">
+                          <span {...flag(`education[${index}].institution`)}>{edu.institution}</span>
+                        </h5>
+                        <p className="text-gray-600 font-palatino"><span {...flag(`education[${index}].field`)}>{edu.field}</span></p>
                       </div>
                       <span className="text-sm text-gray-500 font-medium">
-                        {edu.startDate} - {edu.endDate}
+                        <span {...flag(`education[${index}].startDate`)}>{edu.startDate}</span> - <span {...flag(`education[${index}].endDate`)}>{edu.endDate}</span>
                       </span>
                     </div>
                     {edu.grade && (
-                      <p className="text-sm text-gray-600 font-medium">Grade: {edu.grade}</p>
+                      <p className="text-sm text-gray-600 font-medium">Grade: <span {...flag(`education[${index}].grade`)}>{edu.grade}</span></p>
                     )}
                   </div>
                 ))}
@@ -253,6 +316,7 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
                   <span
                     key={index}
                     className="px-3 py-1 bg-primary-100 text-primary-700 rounded-full text-sm font-medium font-palatino"
+                    {...flag(`keySkills[${index}]`, 'px-3 py-1 bg-amber-100 text-amber-800 ring-1 ring-amber-300 rounded-full text-sm font-medium font-palatino')}
                   >
                     {skill}
                   </span>
@@ -265,7 +329,7 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
               <h3 className="cv-section-title">Interests</h3>
               <ul className="list-disc list-inside space-y-1 text-gray-700">
                 {cvData.interests.map((interest, index) => (
-                  <li key={index} className="text-sm font-palatino">{interest}</li>
+                  <li key={index} className="text-sm font-palatino"><span {...flag(`interests[${index}]`)}>{interest}</span></li>
                 ))}
               </ul>
             </div>
@@ -289,14 +353,60 @@ const CVPreviewCard: React.FC<CVPreviewCardProps> = ({ cvData, originalContent,
               <h4 className="text-lg font-semibold text-gray-900">Original Content</h4>
             </div>
             
-            <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto border border-gray-200">
-              <pre className="text-sm text-gray-700 whitespace-pre-wrap font-mono leading-relaxed">
-                {originalContent}
-              </pre>
+            <div className={sourceFields.length > 0 ? 'grid grid-cols-1 md:grid-cols-3 gap-4' : ''}>
+              {/* Extracted fields; hovering one highlights where it was read from */}
+              {sourceFields.length > 0 && (
+                <ul className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {sourceFields.map(({ path, value, span, score }) => (
+                    <li
+                      key={path}
+                      onMouseEnter={() => setHoveredPath(path)}
+                      onMouseLeave={() => setHoveredPath(null)}
+                      className={`px-3 py-2 text-sm cursor-default ${hoveredPath === path ? 'bg-yellow-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span className="font-mono truncate">{path}</span>
+                        {span.page && <span className="ml-2 shrink-0">p. {span.page}</span>}
+                        {score !== undefined && score < LOW_CONFIDENCE && (
+                          <span className="ml-2 shrink-0 text-amber-700" title={describeConfidence(score)}>
+                            {Math.round(score * 100)}%
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-gray-800 truncate">{value}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="md:col-span-2 space-y-2">
+                {hoveredSpan && (
+                  <p className="text-xs text-gray-500">
+                    {hoveredSpan.page ? `Page ${hoveredSpan.page}` : 'Source'}
+                    {hoveredSpan.match === 'fuzzy' && ' · approximate match'}
+                  </p>
+                )}
+                <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto border border-gray-200">
+                  <pre className="text-sm text-gray-700 whitespace-pre-wrap font-mono leading-relaxed">
+                    {hoveredSpan ? (
+                      <>
+                        {originalContent.slice(0, hoveredSpan.start)}
+                        <mark ref={highlightRef} className="bg-yellow-200 rounded-sm">
+                          {originalContent.slice(hoveredSpan.start, hoveredSpan.end)}
+                        </mark>
+                        {originalContent.slice(hoveredSpan.end)}
+                      </>
+                    ) : (
+                      originalContent
+                    )}
+                  </pre>
+                </div>
+              </div>
             </div>
             
             <div className="text-center text-sm text-gray-500">
               <p>This is the raw content extracted from your uploaded file</p>
+              {sourceFields.length > 0 && <p className="mt-1">Hover over a field to see where it was read from</p>}
               <p className="mt-1">Use the "Formatted CV" tab to see the AI-enhanced version</p>
             </div>
           </motion.div>
@@ -9,15 +9,19 @@ import {
   DocumentIcon,
   ExclamationTriangleIcon 
 } from '@heroicons/react/24/outline'
-import { CVData, FileUploadProps } from '@/types/cv'
+import { CVData, FieldConfidence, FileUploadProps, Provenance } from '@/types/cv'
 import toast from 'react-hot-toast'
-import apiService from '@/utils/apiService'
+import apiService, { ApiError } from '@/utils/apiService'
+import { applyProcessingEvent, INITIAL_PROGRESS } from '@/utils/processingProgress'
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingStart }) => {
+// Errors the user can resolve by entering the document's password
+const PASSWORD_ERRORS = ['DOCUMENT_ENCRYPTED', 'DOCUMENT_PASSWORD_INCORRECT']
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingStart, onProgress }) => {
   const [isProcessing, setIsProcessing] = useState(false)
   const [dragActive, setDragActive] = useState(false)
 
-  const processFile = async (file: File): Promise<{ data: CVData; original: string }> => {
+  const processFile = async (file: File, password?: string): Promise<{ data: CVData; original: string; provenance?: Provenance; confidence?: FieldConfidence }> => {
     setIsProcessing(true)
     onProcessingStart()
 
@@ -28,16 +32,28 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingSt
         throw new Error('Cannot connect to the backend server. Please ensure the server is running.')
       }
 
-      // Process the CV file using the backend API
-      const result = await apiService.processCV(file)
+      // Process the CV file using the backend API, passing on each step and section as it arrives
+      let progress = INITIAL_PROGRESS
+      onProgress?.(progress)
+      const result = await apiService.processCVStream(file, password, event => {
+        progress = applyProcessingEvent(progress, event)
+        onProgress?.(progress)
+      })
       
       return { 
         data: result.cvData, 
-        original: result.originalContent 
+        original: result.originalContent,
+        provenance: result.provenance,
+        confidence: result.confidence
       }
     } catch (error) {
       console.error('Error processing file:', error)
       
+      // Keep the server's error code so the caller can react to document problems
+      if (error instanceof ApiError) {
+        throw error
+      }
+      
       if (error instanceof Error) {
         throw new Error(`Failed to process file: ${error.message}`)
       }
@@ -57,12 +73,23 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingSt
     const allowedTypes = [
       'application/pdf',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/msword',
+      'application/vnd.oasis.opendocument.text',
+      'application/rtf',
+      'text/rtf',
+      'text/plain',
       'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'image/jpeg',
+      'image/png',
+      'image/tiff',
+      'image/heic',
+      'image/heif'
     ]
 
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Please upload a PDF, DOCX, or Excel file')
+    // Browsers without HEIC support give iPhone photos no type, so go by the extension
+    if (!allowedTypes.includes(file.type) && !/\.hei[cf]$/i.test(file.name)) {
+      toast.error('Please upload a PDF, Word, OpenDocument, RTF, text, Excel or image file')
       return
     }
 
@@ -72,24 +99,48 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingSt
       return
     }
 
-    try {
-      toast.success('Processing your CV...')
-      const result = await processFile(file)
-      onFileProcessed(result.data, result.original)
-      toast.success('CV processed successfully!')
-    } catch (error) {
-      toast.error('Failed to process CV. Please try again.')
-      console.error('Processing error:', error)
+    const submit = async (password?: string): Promise<void> => {
+      try {
+        toast.success('Processing your CV...')
+        const result = await processFile(file, password)
+        onFileProcessed(result.data, result.original, result.provenance, result.confidence)
+        toast.success('CV processed successfully!')
+      } catch (error) {
+        console.error('Processing error:', error)
+
+        // Password-protected PDF: ask for the password and upload again
+        if (error instanceof ApiError && PASSWORD_ERRORS.includes(error.code || '')) {
+          const enteredPassword = window.prompt(`${error.message}\n\nPassword:`)
+          if (enteredPassword) {
+            return submit(enteredPassword)
+          }
+        }
+
+        // Encrypted, damaged, empty or overlong documents come with a message the user can act on
+        toast.error(error instanceof ApiError && error.code ? error.message : 'Failed to process CV. Please try again.')
+      }
     }
-  }, [onFileProcessed])
+
+    await submit()
+  }, [onFileProcessed, onProgress])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/msword': ['.doc'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/rtf': ['.rtf'],
+      'text/rtf': ['.rtf'],
+      'text/plain': ['.txt'],
       'application/vnd.ms-excel': ['.xls'],
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/png': ['.png'],
+      'image/tiff': ['.tif', '.tiff'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
     },
     multiple: false,
     disabled: isProcessing
@@ -113,7 +164,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcessed, onProcessingSt
   }
 
   const getAcceptedFormats = () => {
-    return 'PDF, DOCX, XLS, XLSX (Max 10MB)'
+    return 'PDF, DOC, DOCX, ODT, RTF, TXT, XLS, XLSX, JPG, PNG, TIFF (Max 10MB)'
   }
 
   return (
@@ -8,36 +8,123 @@ import {
   CheckCircleIcon 
 } from '@heroicons/react/24/outline'
 import HomeButton from './HomeButton'
+import { CVSection, ProcessingStage, ProcessingStatusProps } from '@/types/cv'
+
+// The step each processing stage belongs to
+const STAGE_STEP: Record<ProcessingStage, number> = {
+  uploading: 0,
+  parsing: 0,
+  extracting: 1,
+  verifying: 2
+}
+
+const SECTION_TITLES: Record<CVSection, string> = {
+  personalDetails: 'Personal Details',
+  profile: 'Profile',
+  experience: 'Experience',
+  education: 'Education',
+  keySkills: 'Key Skills',
+  interests: 'Interests'
+}
+
+// Stands in for a section that has not arrived yet
+const SectionSkeleton = () => (
+  <div className="space-y-2 animate-pulse">
+    <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+    <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+  </div>
+)
+
+const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ progress }) => {
+  // Without progress from the server, show extraction under way
+  const currentStep = progress ? STAGE_STEP[progress.stage] : 1
+  const chunks = progress?.chunks
+  const sections = progress?.sections || {}
+
+  const stepStatus = (index: number) =>
+    index < currentStep ? 'completed' : index === currentStep ? 'active' : 'pending'
+
+  const renderSection = (section: CVSection) => {
+    const details = sections.personalDetails
+    switch (section) {
+      case 'personalDetails':
+        return details && (
+          <p className="text-gray-900">
+            <span className="font-semibold">{[details.firstName, details.lastName].filter(Boolean).join(' ')}</span>
+            {details.jobTitle && <span className="text-gray-600"> · {details.jobTitle}</span>}
+          </p>
+        )
+      case 'profile':
+        return sections.profile !== undefined && (
+          <p className="text-gray-700">
+            {sections.profile.length > 300 ? `${sections.profile.slice(0, 300)}…` : sections.profile}
+          </p>
+        )
+      case 'experience':
+        return sections.experience && (
+          <ul className="space-y-1 text-gray-700">
+            {sections.experience.map((job, index) => (
+              <li key={index}>
+                <span className="font-medium">{job.position}</span>{job.company && `, ${job.company}`}
+                <span className="text-gray-500"> {[job.startDate, job.endDate].filter(Boolean).join(' - ')}</span>
+              </li>
+            ))}
+          </ul>
+        )
+      case 'education':
+        return sections.education && (
+          <ul className="space-y-1 text-gray-700">
+            {sections.education.map((course, index) => (
+              <li key={index}>
+                <span className="font-medium">{course.degree}</span>{course.institution && `, ${course.institution}`}
+              </li>
+            ))}
+          </ul>
+        )
+      case 'keySkills':
+      case 'interests': {
+        const items = sections[section]
+        return items && (
+          <div className="flex flex-wrap gap-2">
+            {items.map((item, index) => (
+              <span key={index} className="px-2 py-1 bg-primary-50 text-primary-700 rounded text-xs">{item}</span>
+            ))}
+          </div>
+        )
+      }
+    }
+  }
 
-const ProcessingStatus: React.FC = () => {
   const processingSteps = [
     {
       id: 1,
       title: 'Analyzing Document',
       description: 'Extracting text and structure from your CV',
       icon: DocumentTextIcon,
-      status: 'completed'
+      status: stepStatus(0)
     },
     {
       id: 2,
       title: 'AI Processing',
-      description: 'Applying intelligent formatting and enhancement',
+      description: chunks && chunks.total > 1
+        ? `Extracted ${chunks.completed} of ${chunks.total} parts of your CV`
+        : 'Applying intelligent formatting and enhancement',
       icon: CpuChipIcon,
-      status: 'active'
+      status: stepStatus(1)
     },
     {
       id: 3,
       title: 'Formatting',
       description: 'Applying EHS professional standards',
       icon: DocumentMagnifyingGlassIcon,
-      status: 'pending'
+      status: stepStatus(2)
     },
     {
       id: 4,
       title: 'Finalizing',
       description: 'Preparing your transformed CV',
       icon: CheckCircleIcon,
-      status: 'pending'
+      status: stepStatus(3)
     }
   ]
 
@@ -145,15 +232,41 @@ const ProcessingStatus: React.FC = () => {
           <motion.div
             className="bg-gradient-to-r from-primary-500 to-indigo-500 h-full rounded-full"
             initial={{ width: '0%' }}
-            animate={{ width: '60%' }}
-            transition={{ duration: 2, delay: 1 }}
+            animate={{ width: `${progress ? progress.progress : 60}%` }}
+            transition={progress ? { duration: 0.5 } : { duration: 2, delay: 1 }}
           />
         </div>
         <div className="text-center mt-4">
-          <span className="text-sm text-gray-600">Processing in progress...</span>
+          <span className="text-sm text-gray-600">{progress?.message || 'Processing in progress...'}</span>
         </div>
       </motion.div>
 
+      {/* The CV so far, filled in as the server sends each section */}
+      {progress && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mt-12 p-6 bg-white rounded-xl border border-gray-200"
+        >
+          <h4 className="font-semibold text-gray-900 mb-4">Your CV so far</h4>
+          <div className="space-y-4 text-sm">
+            {(Object.keys(SECTION_TITLES) as CVSection[]).map(section => (
+              <div key={section}>
+                <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{SECTION_TITLES[section]}</h5>
+                {sections[section] !== undefined ? (
+                  <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 0.3 }}>
+                    {renderSection(section)}
+                  </motion.div>
+                ) : (
+                  <SectionSkeleton />
+                )}
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* AI insights */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -12,7 +12,9 @@ module.exports = {
   setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
   collectCoverageFrom: [
     'src/**/*.ts',
+    'shared/**/*.ts',
     '!src/**/*.d.ts',
+    '!shared/**/*.d.ts',
     '!src/**/__tests__/**',
   ],
   coverageDirectory: 'coverage',
@@ -0,0 +1,42 @@
+// In-memory cache for work done on a file's contents, shared by src/services and apps/api so the
+// same CV uploaded again is neither re-read nor sent to the AI providers again. Callers key entries
+// by the file's SHA-256 and whatever else changes the output.
+
+// Entries kept per cache before the least recently used are evicted
+const MAX_CACHE_ENTRIES = parseInt(process.env.CONTENT_CACHE_SIZE || '500');
+
+/**
+ * In-memory cache that evicts the least recently used entry once full.
+ * Map iteration follows insertion order, so re-inserting on read keeps the oldest entry first.
+ */
+export class ContentCache<T> {
+  private readonly entries = new Map<string, T>();
+
+  constructor(private readonly maxEntries = MAX_CACHE_ENTRIES) {}
+
+  get(key: string): T | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
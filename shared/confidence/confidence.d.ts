@@ -0,0 +1,30 @@
+// Types for confidence.js
+
+import { Provenance, ProvenanceField } from '../provenance/provenance';
+
+// Scores from 0 to 1 by JSON path, e.g. "experience[2].company"
+export type FieldConfidence = Record<string, number>;
+
+export interface ConfidenceSignals {
+  grounding?: Record<string, number>;
+  provenance?: Provenance;
+  uncertain?: string[];
+  flagged?: string[];
+  repaired?: string[];
+  placeholder?: string;
+}
+
+export interface ConfidenceOptions extends ConfidenceSignals {
+  skip?: string[];
+  issues?: string[];
+  uncertainValues?: string[];
+  repairedValues?: string[];
+}
+
+export const LOW_CONFIDENCE: number;
+
+export function buildConfidence(data: unknown, options?: ConfidenceOptions): FieldConfidence;
+export function scoreConfidence(fields: ProvenanceField[], signals?: ConfidenceSignals): FieldConfidence;
+export function findFlaggedPaths(issues: string[] | undefined, fields: ProvenanceField[]): string[];
+export function findValuePaths(values: string[] | undefined, fields: ProvenanceField[]): string[];
+export function lowConfidencePaths(confidence: FieldConfidence, threshold?: number): string[];
@@ -0,0 +1,151 @@
+// How far each value in an extracted CV can be trusted, from 0 to 1, shared by src/ai and apps/api
+// so reviewers can spend their time on the values that need it. Scores are keyed by JSON path like
+// provenance, e.g. "experience[2].company".
+//
+// A value starts from how well the source text supports it: its grounding score when one was worked
+// out, else how its provenance was found. It then loses confidence for each kind of doubt raised
+// about it: by the model, which lists the values it was unsure of and the issues it found in its own
+// audit, or by the repair stage that had to fix its draft.
+
+const { flattenFields } = require('../provenance/provenance');
+
+// Values scoring below this are flagged for review
+const LOW_CONFIDENCE = 0.6;
+
+// Support for a value without a grounding score, by how its provenance was found
+const SOURCE_SUPPORT = { exact: 1, fuzzy: 0.75, none: 0.4 };
+
+// What a value keeps of its score when the model said it was unsure of it, raised an issue about it,
+// or its draft had to be repaired there
+const UNCERTAIN_FACTOR = 0.5;
+const FLAGGED_FACTOR = 0.6;
+const REPAIRED_FACTOR = 0.7;
+
+// Shorter values are too common to tell which one an issue is about
+const MIN_QUOTED_LENGTH = 4;
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a path is the given one or lies under it, e.g. "experience[1].bullets[0]" under "experience[1]"
+ */
+function isUnder(path, prefix) {
+  return path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`);
+}
+
+/**
+ * A field's path and the entries it belongs to, down to the top-level list item:
+ * "experience[1].bullets[0]", "experience[1].bullets", "experience[1]". A top-level
+ * name on its own is too common a word in issues to count as naming the field
+ */
+function scopesOf(path) {
+  const scopes = [];
+  let scope = path;
+  while (/[.[]/.test(scope)) {
+    scopes.push(scope);
+    scope = scope.replace(/(?:\.[^.[\]]+|\[\d+\])$/, '');
+  }
+  return scopes;
+}
+
+/**
+ * Paths of the fields an issue names, by path ("Providers disagree on header.title") or by
+ * quoting the value ("Could not confirm 'Acme Ltd' as the employer")
+ * @param issues - Issues reported by the model or the pipeline that produced the data
+ */
+function findFlaggedPaths(issues, fields) {
+  if (!issues || issues.length === 0) return [];
+
+  const lowered = issues.map(issue => issue.toLowerCase());
+  return fields
+    .filter(field => {
+      const named = scopesOf(field.path).some(scope => {
+        const pattern = new RegExp(`(?:^|[^\\w.\\]])${escapeRegExp(scope)}(?![\\w[]|\\.\\w)`);
+        return issues.some(issue => pattern.test(issue));
+      });
+      const value = field.value.trim().toLowerCase();
+      return named || (value.length >= MIN_QUOTED_LENGTH && lowered.some(issue => issue.includes(value)));
+    })
+    .map(field => field.path);
+}
+
+/**
+ * Paths of the fields holding one of the values, such as those the model said it was unsure of
+ * or schema repair had to fix. Values are compared rather than paths, as entries move when chunks
+ * are merged and the draft is normalised; a value written in several places is doubted in all of them
+ * @param values - Values as the audit quotes them, e.g. audit.uncertain
+ */
+function findValuePaths(values, fields) {
+  if (!values || values.length === 0) return [];
+
+  const doubted = new Set(values.map(value => value.trim().toLowerCase()).filter(Boolean));
+  return fields
+    .filter(field => doubted.has(field.value.trim().toLowerCase()))
+    .map(field => field.path);
+}
+
+/**
+ * Score each field
+ * @param signals.grounding - Grounding score by path, for the values that were checked
+ * @param signals.provenance - Where each value was found in the source text
+ * @param signals.uncertain - Paths of the values the model was unsure of
+ * @param signals.flagged - Paths an issue was raised about; everything under them is affected
+ * @param signals.repaired - Paths the repair stage had to fix; everything under them is affected
+ * @param signals.placeholder - The value standing for "not in the CV", which scores 0
+ */
+function scoreConfidence(fields, signals = {}) {
+  const { grounding = {}, provenance = {}, uncertain = [], flagged = [], repaired = [], placeholder } = signals;
+  const confidence = {};
+
+  for (const { path, value } of fields) {
+    if (placeholder !== undefined && value === placeholder) {
+      confidence[path] = 0;
+      continue;
+    }
+
+    let score = path in grounding
+      ? grounding[path]
+      : SOURCE_SUPPORT[provenance[path] ? provenance[path].match : 'none'];
+    if (uncertain.includes(path)) score *= UNCERTAIN_FACTOR;
+    if (flagged.some(prefix => isUnder(path, prefix))) score *= FLAGGED_FACTOR;
+    if (repaired.some(prefix => isUnder(path, prefix))) score *= REPAIRED_FACTOR;
+
+    confidence[path] = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+  }
+  return confidence;
+}
+
+/**
+ * Score every string in an extracted CV
+ * @param options.skip - Paths to leave out, as for buildProvenance
+ * @param options.issues - Issues reported with the data; fields they name are flagged
+ * @param options.uncertainValues - Values the model was unsure of; fields holding them are doubted
+ * @param options.repairedValues - Values schema repair had to fix; fields holding them are doubted
+ */
+function buildConfidence(data, options = {}) {
+  const fields = flattenFields(data, options.skip);
+  const uncertain = (options.uncertain || []).concat(findValuePaths(options.uncertainValues, fields));
+  const flagged = (options.flagged || []).concat(findFlaggedPaths(options.issues, fields));
+  const repaired = (options.repaired || []).concat(findValuePaths(options.repairedValues, fields));
+  return scoreConfidence(fields, { ...options, uncertain, flagged, repaired });
+}
+
+/**
+ * Paths scoring below the threshold, lowest first
+ */
+function lowConfidencePaths(confidence, threshold = LOW_CONFIDENCE) {
+  return Object.keys(confidence)
+    .filter(path => confidence[path] < threshold)
+    .sort((a, b) => confidence[a] - confidence[b]);
+}
+
+module.exports = {
+  LOW_CONFIDENCE,
+  buildConfidence,
+  scoreConfidence,
+  findFlaggedPaths,
+  findValuePaths,
+  lowConfidencePaths,
+};
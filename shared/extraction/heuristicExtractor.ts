@@ -0,0 +1,491 @@
+import { CvDraft } from '../schemas/cv.schema'
+import { segmentSections, CvSection, CvSectionType } from './sectionSegmenter'
+
+// Rule-based CV extraction that needs no API key or network access, shared by src/ai and apps/api.
+// It is the last provider in the fallback chain: the draft it produces is schema-valid,
+// but fields it cannot find are filled with placeholders and listed in the audit.
+
+export const HEURISTIC_PROVIDER = 'heuristic'
+
+// Marks drafts built by this extractor in audit.rulesApplied
+export const HEURISTIC_RULE = 'Offline heuristic extraction (no AI provider)'
+
+// Heuristic drafts never claim more confidence than this, however many fields were found
+export const HEURISTIC_MAX_CONFIDENCE = 0.5
+
+// Stands in for fields the extractor could not find
+export const PLACEHOLDER = 'Not specified'
+
+export interface HeuristicExtraction {
+  draft: CvDraft
+  confidence: number   // 0 to HEURISTIC_MAX_CONFIDENCE, by the share of fields found in the text
+  missing: string[]    // Fields filled with placeholders
+}
+
+// Month names and abbreviations (en, de, fr, es, nl) to month index
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, januar: 0, janvier: 0, enero: 0, januari: 0, janv: 0,
+  feb: 1, february: 1, februar: 1, fevrier: 1, 'février': 1, febrero: 1, februari: 1, fev: 1, 'fév': 1,
+  mar: 2, march: 2, 'märz': 2, maerz: 2, mars: 2, marzo: 2, maart: 2, 'mär': 2, mrz: 2,
+  apr: 3, april: 3, avril: 3, abril: 3, avr: 3,
+  may: 4, mai: 4, mayo: 4, mei: 4,
+  jun: 5, june: 5, juni: 5, juin: 5, junio: 5,
+  jul: 6, july: 6, juli: 6, juillet: 6, julio: 6, juil: 6,
+  aug: 7, august: 7, 'août': 7, aout: 7, agosto: 7, augustus: 7,
+  sep: 8, sept: 8, september: 8, septembre: 8, septiembre: 8,
+  oct: 9, october: 9, oktober: 9, okt: 9, octobre: 9, octubre: 9,
+  nov: 10, november: 10, novembre: 10, noviembre: 10,
+  dec: 11, december: 11, dezember: 11, dez: 11, 'décembre': 11, decembre: 11, diciembre: 11, dic: 11,
+}
+
+const MONTH_ABBREVIATIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Longest names first so "september" is not matched as "sep"
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|')
+const DATE_PATTERN = `(?:(?:${MONTH_PATTERN})\\.?\\s+(?:19|20)\\d{2}|\\d{1,2}[/.](?:19|20)\\d{2}|(?:19|20)\\d{2})`
+const PRESENT_PATTERN = 'present|current|now|today|date|heute|aktuell|jetzt|actuel|aujourd\'hui|presente|actualidad|actual|heden|nu'
+
+// "Jan 2020 - Present", "03/2017 – 06/2019", "2015 to 2019", "seit 2021"
+const DATE_RANGE = new RegExp(
+  `(${DATE_PATTERN})\\s*(?:-|–|—|to|until|till|bis|au|à|a|tot)\\s*(${DATE_PATTERN}|${PRESENT_PATTERN})\\b`,
+  'i'
+)
+const OPEN_DATE_RANGE = new RegExp(`(?:since|seit|depuis|desde|sinds)\\s+(${DATE_PATTERN})`, 'i')
+
+// Words that make a phrase a job title
+const ROLE_WORDS = /\b(?:engineer|developer|programmer|manager|director|head|lead|leader|chief|officer|president|vp|cto|ceo|cfo|coo|analyst|consultant|advisor|adviser|architect|designer|scientist|researcher|specialist|coordinator|administrator|assistant|associate|executive|partner|owner|founder|intern|trainee|apprentice|supervisor|technician|accountant|auditor|controller|teacher|lecturer|professor|nurse|physician|doctor|lawyer|solicitor|counsel|recruiter|representative|agent|sales|marketing|editor|writer|buyer|planner|operator|clerk|secretary|receptionist|surveyor|inspector|mechanic|electrician|chef|entwickler|ingenieur|leiter|berater|geschaftsfuhrer|geschäftsführer|referent|sachbearbeiter|ingénieur|chef de|responsable|directeur|gerente|jefe|ingeniero|desarrollador|medewerker)\b/i
+
+// Words that make a phrase an employer
+const COMPANY_WORDS = /\b(?:ltd|limited|inc|llc|llp|plc|gmbh|ag|kg|sa|sas|sarl|bv|nv|srl|spa|corp|corporation|company|co|group|holdings|partners|consulting|solutions|technologies|systems|services|bank|agency|foundation|council|ministry|hospital|nhs|university)\b\.?/i
+
+// "Acme, Inc." is one name, not an employer and a location
+const LEGAL_SUFFIX = /^(?:ltd|limited|inc|llc|llp|plc|gmbh|ag|sa|corp)\.?$/i
+
+const DEGREE_WORDS = /\b(?:bsc|ba|bs|beng|b\.?e|b\.?tech|b\.?com|bba|llb|msc|ma|ms|meng|m\.?tech|mba|mphil|llm|phd|dphil|md|bachelor|master|masters|doctorate|doctor|diploma|degree|certificate|a-levels?|gcses?|baccalaureate|abitur|licence|licenciatura|diplom|hnd|hnc|associate)\b/i
+
+const INSTITUTION_WORDS = /\b(?:university|universit[äa]t|universit[ée]|universidad|universiteit|college|school|institute|institut|instituto|academy|akademie|hochschule|fachhochschule|polytechnic|[ée]cole|lyc[ée]e|gymnasium|conservatoire|conservatory)\b/i
+
+// Skills recognised anywhere in the text when the CV has no skills section, or to add to it
+const SKILL_DICTIONARY = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C#', 'C++', 'Ruby', 'PHP', 'Swift', 'Kotlin', 'Scala', 'Rust', 'Golang',
+  'SQL', 'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch', 'GraphQL', 'REST',
+  'HTML', 'CSS', 'React', 'Angular', 'Vue.js', 'Next.js', 'Node.js', 'Express', 'Django', 'Flask', 'Spring', '.NET',
+  'AWS', 'Azure', 'Google Cloud', 'Docker', 'Kubernetes', 'Terraform', 'Linux', 'Git', 'CI/CD', 'Jenkins',
+  'Machine Learning', 'Data Analysis', 'Power BI', 'Tableau', 'Excel', 'SAP', 'Salesforce', 'HubSpot', 'Jira',
+  'Agile', 'Scrum', 'Prince2', 'PMP', 'Six Sigma', 'Lean',
+  'Project Management', 'Stakeholder Management', 'Team Leadership', 'Budgeting', 'Financial Modelling',
+  'Forecasting', 'Negotiation', 'Business Development', 'Account Management', 'Recruitment', 'Change Management',
+  'Risk Management', 'Compliance', 'Procurement', 'Supply Chain', 'Digital Marketing', 'SEO', 'Copywriting',
+  'Photoshop', 'Figma', 'AutoCAD',
+]
+
+const SKILL_PATTERNS = SKILL_DICTIONARY.map(skill => ({
+  skill,
+  // Word boundaries that also respect symbols such as "C++" and ".NET"
+  pattern: new RegExp(`(?:^|[^A-Za-z0-9+#.])${escapeRegExp(skill)}(?![A-Za-z0-9+#])`, 'i'),
+}))
+
+// Labelled personal details: "Nationality: British", "Date of birth\t12/03/1985"
+const DETAIL_LABELS: Record<'nationality' | 'dob' | 'maritalStatus' | 'languages', RegExp> = {
+  nationality: /^(?:nationality|citizenship|staatsangeh[öo]rigkeit|nationalit[ée]|nacionalidad|nationaliteit)\s*[:\t-]\s*(.+)$/i,
+  dob: /^(?:date of birth|d\.?o\.?b\.?|born|birth date|geburtsdatum|geboren|date de naissance|n[ée]e? le|fecha de nacimiento|geboortedatum)\s*[:\t-]\s*(.+)$/i,
+  maritalStatus: /^(?:marital status|familienstand|[ée]tat civil|situation familiale|estado civil|burgerlijke staat)\s*[:\t-]\s*(.+)$/i,
+  languages: /^(?:languages?|sprachen|langues|idiomas|talen)\s*[:\t-]\s*(.+)$/i,
+}
+
+const CONTACT_LINE = /@|https?:\/\/|www\.|linkedin|github|\+?\d[\d\s()./-]{7,}\d/i
+
+/**
+ * Build a schema-valid CvDraft from CV text without calling an AI provider.
+ * Finds sections by heading, entries by date ranges, roles and employers by
+ * title and company vocabulary, and skills from the skills section and a dictionary.
+ * @param rawText - Text produced by parseFile
+ * @param sections - Sections from segmentSections, when already computed
+ * @returns HeuristicExtraction - The draft, its confidence and the fields it could not find
+ */
+export function extractCvHeuristically(rawText: string, sections?: CvSection[]): HeuristicExtraction {
+  const allSections = sections || segmentSections(rawText)
+  const missing: string[] = []
+  const issues: string[] = []
+
+  const bodyOf = (type: CvSectionType) => allSections
+    .filter(section => section.type === type)
+    // Section text starts with its heading line
+    .map(section => section.heading === null ? section.text : section.text.split('\n').slice(1).join('\n'))
+    .join('\n')
+
+  const lines = rawText.split('\n').map(line => line.trim()).filter(Boolean)
+  const headerLines = bodyOf('header').split('\n').map(line => line.trim()).filter(Boolean)
+
+  // Experience and education entries start at a date range
+  const experience = parseEntries(bodyOf('experience')).map(entry => {
+    const { role, company } = splitRoleAndCompany(entry.heading)
+    return { role, company, startDate: entry.startDate, endDate: entry.endDate, bullets: entry.bullets }
+  })
+  const education = parseEntries(bodyOf('education')).map(entry => {
+    const { degree, institution } = splitDegreeAndInstitution(entry.heading)
+    return { degree, institution, startDate: entry.startDate, endDate: entry.endDate, details: entry.bullets }
+  })
+
+  // Header: the first name-like line, then the first line that is neither contact details nor a label
+  const nameIndex = headerLines.findIndex(isNameLine)
+  const name = nameIndex >= 0 ? toNameCase(headerLines[nameIndex]) : ''
+  const title = headerLines
+    .slice(nameIndex + 1)
+    .find(line => line.length <= 80 && !CONTACT_LINE.test(line) && !/:/.test(line) && /[A-Za-z]/.test(line)) ||
+    experience.find(entry => entry.role)?.role ||
+    ''
+
+  const details = findLabelledDetails(lines)
+  const languages = unique([
+    ...splitItems(bodyOf('languages')),
+    ...(details.languages ? splitItems(details.languages) : []),
+  ])
+
+  const profile = joinParagraph(bodyOf('profile')) ||
+    headerLines.filter(line => line.split(/\s+/).length >= 20).sort((a, b) => b.length - a.length)[0] ||
+    ''
+
+  const sectionSkills = splitItems(bodyOf('skills'))
+  const skills = unique([
+    ...sectionSkills,
+    ...SKILL_PATTERNS.filter(({ pattern }) => pattern.test(rawText)).map(({ skill }) => skill),
+  ])
+
+  const interests = splitItems(bodyOf('interests'))
+
+  // Every required field gets a value; placeholders are listed so reviewers know what to fill in
+  const orPlaceholder = (value: string, field: string) => {
+    if (value) return value
+    missing.push(field)
+    return PLACEHOLDER
+  }
+  const listOrPlaceholder = (values: string[], field: string) => {
+    if (values.length > 0) return values
+    missing.push(field)
+    return [PLACEHOLDER]
+  }
+
+  const draft: CvDraft = {
+    header: {
+      name: orPlaceholder(name, 'header.name'),
+      title: orPlaceholder(title, 'header.title'),
+    },
+    personalDetails: {
+      nationality: orPlaceholder(details.nationality || '', 'personalDetails.nationality'),
+      languages: listOrPlaceholder(languages, 'personalDetails.languages'),
+      dob: orPlaceholder(details.dob || '', 'personalDetails.dob'),
+      maritalStatus: orPlaceholder(details.maritalStatus || '', 'personalDetails.maritalStatus'),
+    },
+    profile: orPlaceholder(profile, 'profile'),
+    experience: experience.length > 0
+      ? experience.map((entry, index) => ({
+          role: orPlaceholder(entry.role, `experience[${index}].role`),
+          company: orPlaceholder(entry.company, `experience[${index}].company`),
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          bullets: listOrPlaceholder(entry.bullets, `experience[${index}].bullets`),
+        }))
+      : [{ role: PLACEHOLDER, company: PLACEHOLDER, startDate: PLACEHOLDER, endDate: PLACEHOLDER, bullets: listOrPlaceholder([], 'experience') }],
+    education: education.length > 0
+      ? education.map((entry, index) => ({
+          degree: orPlaceholder(entry.degree, `education[${index}].degree`),
+          institution: orPlaceholder(entry.institution, `education[${index}].institution`),
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          details: entry.details.length > 0 ? entry.details : [entry.degree || PLACEHOLDER],
+        }))
+      : [{ degree: PLACEHOLDER, institution: PLACEHOLDER, startDate: PLACEHOLDER, endDate: PLACEHOLDER, details: listOrPlaceholder([], 'education') }],
+    skills: listOrPlaceholder(skills, 'skills'),
+    interests: listOrPlaceholder(interests, 'interests'),
+    audit: {
+      rulesApplied: [HEURISTIC_RULE, 'DATE FORMAT: Dates converted to "Mon YYYY"'],
+      issues,
+    },
+  }
+
+  // Share of the draft's fields that came from the text, scaled down to the heuristic ceiling
+  const found = [
+    name, title, details.nationality, details.dob, details.maritalStatus, profile,
+    languages.length, experience.length, education.length, skills.length, interests.length,
+  ]
+  const confidence = Math.round(HEURISTIC_MAX_CONFIDENCE * found.filter(Boolean).length / found.length * 100) / 100
+
+  issues.push(`Extracted without an AI provider (confidence ${confidence}); review every field`)
+  if (missing.length > 0) {
+    issues.push(`Not found in the CV: ${missing.join(', ')}`)
+  }
+
+  return { draft, confidence, missing }
+}
+
+/**
+ * True for drafts produced by the heuristic extractor rather than an AI provider
+ */
+export function isHeuristicDraft(draft: CvDraft): boolean {
+  return draft.audit.rulesApplied.includes(HEURISTIC_RULE)
+}
+
+export interface DatedEntry {
+  heading: string     // Lines above the date range plus the rest of its line
+  startDate: string
+  endDate: string
+  bullets: string[]
+}
+
+/**
+ * Split a section into entries, each anchored on a line holding a date range.
+ * Up to two lines directly above the date line are taken as the entry heading;
+ * everything below it, up to the next heading, is its body.
+ */
+export function parseEntries(text: string): DatedEntry[] {
+  const lines = text.split('\n').map(line => line.trim())
+  const anchors = lines
+    .map((line, index) => ({ index, range: findDateRange(line) }))
+    .filter(({ range }) => range !== null)
+
+  const entries: DatedEntry[] = []
+  let previousEnd = 0
+
+  anchors.forEach(({ index, range }, position) => {
+    // Heading lines sit right above the date line, with no blank line, bullet or wrapped sentence in between
+    let headingStart = index
+    while (
+      headingStart > previousEnd &&
+      index - headingStart < 2 &&
+      isHeadingLine(lines[headingStart - 1])
+    ) {
+      headingStart--
+    }
+
+    // The previous entry's body ends where this entry's heading starts
+    if (entries.length > 0) {
+      entries[entries.length - 1].bullets = toBullets(lines.slice(previousEnd, headingStart))
+    }
+
+    const rest = lines[index].replace(range!.match, ' ').replace(/[()[\]]/g, ' ')
+    entries.push({
+      heading: [...lines.slice(headingStart, index), rest].map(cleanHeadingPart).filter(Boolean).join('\n'),
+      startDate: range!.startDate,
+      endDate: range!.endDate,
+      bullets: [],
+    })
+
+    previousEnd = index + 1
+    if (position === anchors.length - 1) {
+      entries[entries.length - 1].bullets = toBullets(lines.slice(previousEnd))
+    }
+  })
+
+  return entries
+}
+
+/**
+ * Find a date range in a line and normalise both ends to "Mon YYYY", "YYYY" or "Present"
+ */
+export function findDateRange(line: string): { match: string; startDate: string; endDate: string } | null {
+  const range = DATE_RANGE.exec(line)
+  if (range) {
+    return { match: range[0], startDate: formatDate(range[1]), endDate: formatDate(range[2]) }
+  }
+
+  const open = OPEN_DATE_RANGE.exec(line)
+  if (open) {
+    return { match: open[0], startDate: formatDate(open[1]), endDate: 'Present' }
+  }
+
+  return null
+}
+
+/**
+ * Every date in a text, normalised like findDateRange: "Mon YYYY" or "YYYY"
+ */
+export function findDates(text: string): string[] {
+  const pattern = new RegExp(`\\b${DATE_PATTERN}(?!\\d)`, 'gi')
+  return (text.match(pattern) || []).map(formatDate)
+}
+
+/**
+ * Sort value of a date: months since year 0 for "Mon YYYY" (a bare year counts as its
+ * January), Infinity for "Present", null when it is not a date. Dates in other formats
+ * findDateRange understands are normalised first, so no engine-specific Date parsing is involved
+ */
+export function dateSortValue(value: string): number | null {
+  const date = formatDate(value)
+  if (date === 'Present') return Infinity
+
+  const monthYear = /^([A-Z][a-z]{2}) ((?:19|20)\d{2})$/.exec(date)
+  if (monthYear) return parseInt(monthYear[2]) * 12 + MONTH_ABBREVIATIONS.indexOf(monthYear[1])
+
+  return /^(?:19|20)\d{2}$/.test(date) ? parseInt(date) * 12 : null
+}
+
+// Whether a text says a role or course is ongoing ("present", "heute", "actualidad")
+export function mentionsPresent(text: string): boolean {
+  return new RegExp(`\\b(?:${PRESENT_PATTERN})\\b`, 'i').test(text)
+}
+
+function formatDate(value: string): string {
+  const text = value.trim().toLowerCase()
+
+  if (new RegExp(`^(?:${PRESENT_PATTERN})$`, 'i').test(text)) {
+    return 'Present'
+  }
+
+  const numeric = /^(\d{1,2})[/.](\d{4})$/.exec(text)
+  if (numeric) {
+    const month = parseInt(numeric[1]) - 1
+    return month >= 0 && month < 12 ? `${MONTH_ABBREVIATIONS[month]} ${numeric[2]}` : numeric[2]
+  }
+
+  const named = /^([^\s\d.]+)\.?\s+(\d{4})$/.exec(text)
+  if (named && MONTHS[named[1]] !== undefined) {
+    return `${MONTH_ABBREVIATIONS[MONTHS[named[1]]]} ${named[2]}`
+  }
+
+  return text
+}
+
+/**
+ * Tell the role from the employer in an entry heading such as
+ * "Senior Engineer at Acme Ltd", "Acme Ltd | Senior Engineer" or two separate lines
+ */
+export function splitRoleAndCompany(heading: string): { role: string; company: string } {
+  const parts = splitHeading(heading, /\s+(?:at|@|bei|chez|en)\s+/i)
+
+  const roleIndex = parts.findIndex(part => ROLE_WORDS.test(part) && !COMPANY_WORDS.test(part))
+  const companyIndex = parts.findIndex((part, index) => index !== roleIndex && COMPANY_WORDS.test(part))
+
+  const role = roleIndex >= 0 ? parts[roleIndex] : parts.find((_, index) => index !== companyIndex) || ''
+  const company = companyIndex >= 0 ? parts[companyIndex] : parts.find(part => part !== role) || ''
+
+  return { role, company }
+}
+
+/**
+ * Tell the degree from the institution in an education heading
+ */
+export function splitDegreeAndInstitution(heading: string): { degree: string; institution: string } {
+  const parts = splitHeading(heading, /\s+(?:at|from|an der|at the)\s+/i)
+
+  const institutionIndex = parts.findIndex(part => INSTITUTION_WORDS.test(part))
+  const degreeIndex = parts.findIndex((part, index) => index !== institutionIndex && DEGREE_WORDS.test(part))
+
+  const degree = degreeIndex >= 0 ? parts[degreeIndex] : parts.find((_, index) => index !== institutionIndex) || ''
+  const institution = institutionIndex >= 0 ? parts[institutionIndex] : parts.find(part => part !== degree) || ''
+
+  return { degree, institution }
+}
+
+function isHeadingLine(line: string): boolean {
+  return Boolean(line) && !line.startsWith('•') && !/^[a-z]/.test(line) && !/[.;]$/.test(line)
+}
+
+function splitHeading(heading: string, joiner: RegExp): string[] {
+  return heading
+    .split('\n')
+    .flatMap(line => line.split(joiner))
+    // Separators between fields; a comma only splits when both sides are long enough to be fields
+    .flatMap(part => part.split(/\s+[|•·–—-]\s+|\t/))
+    .flatMap(part => /^[^,]{4,},\s+[^,]{4,}$/.test(part) && !LEGAL_SUFFIX.test(part.split(/,\s+/)[1]) ? part.split(/,\s+/) : [part])
+    .map(cleanHeadingPart)
+    .filter(Boolean)
+}
+
+function cleanHeadingPart(part: string): string {
+  return part.replace(/^[\s|,;:•·–—-]+|[\s|,;:•·–—-]+$/g, '').replace(/\s{2,}/g, ' ')
+}
+
+/**
+ * Turn entry body lines into bullet points, joining lines that continue the previous one
+ */
+function toBullets(lines: string[]): string[] {
+  const bullets: string[] = []
+  let continues = false
+
+  for (const line of lines) {
+    if (!line) {
+      continues = false
+      continue
+    }
+    const isBullet = line.startsWith('•')
+    const text = line.replace(/^•\s*/, '')
+
+    if (!isBullet && continues && /^[a-z(]/.test(text)) {
+      bullets[bullets.length - 1] += ` ${text}`
+    } else {
+      bullets.push(text)
+    }
+    continues = true
+  }
+
+  return bullets.filter(Boolean)
+}
+
+function findLabelledDetails(lines: string[]): Partial<Record<keyof typeof DETAIL_LABELS, string>> {
+  const details: Partial<Record<keyof typeof DETAIL_LABELS, string>> = {}
+
+  for (const line of lines) {
+    for (const key of Object.keys(DETAIL_LABELS) as (keyof typeof DETAIL_LABELS)[]) {
+      const match = DETAIL_LABELS[key].exec(line.replace(/^•\s*/, ''))
+      if (match && !details[key]) {
+        details[key] = match[1].trim()
+      }
+    }
+  }
+
+  return details
+}
+
+/**
+ * Split a list section into items on lines, bullets and separators, dropping category labels
+ */
+export function splitItems(text: string): string[] {
+  return unique(
+    text
+      .split('\n')
+      .map(line => line.replace(/^•\s*/, '').replace(/^[^:,]{1,30}:\s+(?=\S)/, ''))
+      .flatMap(line => line.split(/\s*[,;|•·\t]\s*|\s+[–—-]\s+(?=[A-Z])/))
+      .map(item => item.trim().replace(/[.;,]$/, ''))
+      .filter(item => item.length > 1 && item.length <= 60)
+  )
+}
+
+function joinParagraph(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^•\s*/, '').trim())
+    .filter(Boolean)
+    .join(' ')
+}
+
+function isNameLine(line: string): boolean {
+  const words = line.split(/\s+/)
+  return words.length >= 2 &&
+    words.length <= 4 &&
+    line.length <= 50 &&
+    !CONTACT_LINE.test(line) &&
+    !/[\d:|,@]/.test(line) &&
+    !ROLE_WORDS.test(line) &&
+    words.every(word => /^[A-ZÀ-ÖØ-Þ]/.test(word))
+}
+
+// "JANE DOE" becomes "Jane Doe"; mixed-case names are kept as written
+function toNameCase(name: string): string {
+  if (name !== name.toUpperCase()) return name
+  return name.toLowerCase().replace(/(^|[\s'-])([a-zà-öø-þ])/g, (_, separator, letter) => separator + letter.toUpperCase())
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>()
+  return values.filter(value => {
+    const key = value.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
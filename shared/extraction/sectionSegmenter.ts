@@ -0,0 +1,179 @@
+// Splits CV text into typed sections by their headings, shared by src/services and apps/api.
+// Everything before the first heading is the 'header'.
+
+// Section types recognised in a CV. Everything before the first heading is the 'header'.
+export type CvSectionType =
+  | 'header'
+  | 'profile'
+  | 'personalDetails'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'languages'
+  | 'certifications'
+  | 'interests'
+  | 'references';
+
+export interface CvSection {
+  type: CvSectionType;
+  heading: string | null;  // Heading line as it appears in the text, null for the header
+  start: number;           // Offset of the first character of the section in rawText
+  end: number;             // Offset just past the last character of the section
+  text: string;            // rawText.slice(start, end)
+}
+
+// Known section headings, lowercased and without diacritics (en, de, fr, es, nl)
+const SECTION_HEADINGS: Record<Exclude<CvSectionType, 'header'>, string[]> = {
+  profile: [
+    'profile', 'professional profile', 'personal profile', 'summary', 'professional summary',
+    'career summary', 'executive summary', 'about me', 'objective', 'career objective',
+    'profil', 'kurzprofil', 'zusammenfassung', 'uber mich',
+    'a propos', 'perfil', 'perfil profesional', 'resumen', 'profiel', 'over mij',
+  ],
+  personalDetails: [
+    'personal details', 'personal information', 'personal data', 'contact', 'contact details',
+    'persoenliche daten', 'personliche daten', 'personliche angaben', 'kontakt',
+    'informations personnelles', 'etat civil', 'datos personales', 'persoonlijke gegevens',
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'employment', 'employment history',
+    'work history', 'career history', 'professional background', 'career',
+    'berufserfahrung', 'berufliche erfahrung', 'beruflicher werdegang', 'werdegang',
+    'experience professionnelle', 'experiences professionnelles', 'parcours professionnel',
+    'experiencia', 'experiencia profesional', 'experiencia laboral', 'werkervaring', 'ervaring',
+  ],
+  education: [
+    'education', 'academic background', 'qualifications', 'education and training',
+    'education & training', 'academic qualifications',
+    'ausbildung', 'bildung', 'bildungsweg', 'schulbildung', 'studium',
+    'formation', 'formation academique', 'formacion', 'formacion academica', 'educacion',
+    'opleiding', 'opleidingen',
+  ],
+  skills: [
+    'skills', 'key skills', 'core skills', 'technical skills', 'core competencies', 'competencies',
+    'expertise', 'areas of expertise', 'it skills',
+    'kenntnisse', 'fahigkeiten', 'kompetenzen', 'edv-kenntnisse', 'edv kenntnisse',
+    'competences', 'competences techniques', 'habilidades', 'competencias', 'vaardigheden',
+  ],
+  languages: [
+    'languages', 'language skills', 'sprachen', 'sprachkenntnisse',
+    'langues', 'idiomas', 'talen', 'talenkennis',
+  ],
+  certifications: [
+    'certifications', 'certificates', 'licenses', 'licences', 'courses', 'training',
+    'zertifikate', 'zertifizierungen', 'weiterbildung', 'fortbildungen',
+    'certificats', 'certificaciones', 'certificaten',
+  ],
+  interests: [
+    'interests', 'hobbies', 'hobbies and interests', 'hobbies & interests', 'personal interests',
+    'interessen', 'hobbys', 'freizeit', "centres d'interet", 'loisirs',
+    'intereses', 'aficiones', 'interesses', 'hobby',
+  ],
+  references: [
+    'references', 'referees', 'referenzen', 'references professionnelles', 'referencias', 'referenties',
+  ],
+};
+
+const HEADING_LOOKUP = new Map<string, CvSectionType>(
+  Object.entries(SECTION_HEADINGS).flatMap(([type, headings]) =>
+    headings.map(heading => [heading, type as CvSectionType] as const)
+  )
+);
+
+// Headings are short; anything longer is a sentence that happens to mention a keyword
+const MAX_HEADING_LENGTH = 50;
+
+/**
+ * Split raw CV text into typed sections by finding known headings.
+ * Deterministic and language-aware: headings are matched line by line against
+ * English, German, French, Spanish and Dutch vocabularies, so "Berufserfahrung"
+ * and "WORK EXPERIENCE:" both start an 'experience' section. Offsets refer to the
+ * text passed in, so callers can map any section back to the parsed document.
+ * @param rawText - Text produced by parseFile
+ * @returns CvSection[] - Sections in document order, covering the text without gaps
+ */
+export function segmentSections(rawText: string): CvSection[] {
+  const sections: CvSection[] = [];
+  let current: Omit<CvSection, 'end' | 'text'> = { type: 'header', heading: null, start: 0 };
+
+  let offset = 0;
+  for (const line of rawText.split('\n')) {
+    const type = matchHeading(line);
+    if (type) {
+      pushSection(sections, rawText, current, offset);
+      current = { type, heading: line.trim(), start: offset };
+    }
+    offset += line.length + 1;
+  }
+  pushSection(sections, rawText, current, rawText.length);
+
+  return sections;
+}
+
+/**
+ * Group consecutive sections so that no group exceeds maxLength characters,
+ * without ever cutting a section in two. A section longer than maxLength on
+ * its own forms a group by itself and is left for the caller to split further.
+ * @param sections - Sections from segmentSections
+ * @param maxLength - Maximum combined text length of a group
+ * @returns CvSection[][] - Groups of sections in document order
+ */
+export function groupSections(sections: CvSection[], maxLength: number): CvSection[][] {
+  const groups: CvSection[][] = [];
+  let group: CvSection[] = [];
+  let groupLength = 0;
+
+  for (const section of sections) {
+    if (group.length > 0 && groupLength + section.text.length > maxLength) {
+      groups.push(group);
+      group = [];
+      groupLength = 0;
+    }
+    group.push(section);
+    groupLength += section.text.length;
+  }
+  if (group.length > 0) {
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Identify the section type a line introduces, or null if it is not a heading
+ */
+export function matchHeading(line: string): CvSectionType | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) {
+    return null;
+  }
+
+  const normalised = trimmed
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2019`]/g, "'")
+    .toLowerCase()
+    .replace(/^#+\s*/, '')              // Markdown headings from layout mode
+    .replace(/^[\d.)\s]+(?=[a-z])/, '') // Numbered headings such as "2. Education"
+    .replace(/\s*[:\uff1a]$/, '')
+    .replace(/\s+/g, ' ');
+
+  // Letter-spaced headings such as "E X P E R I E N C E"
+  const collapsed = /^(\S )+\S$/.test(normalised) ? normalised.replace(/ /g, '') : normalised;
+
+  return HEADING_LOOKUP.get(collapsed) ?? null;
+}
+
+function pushSection(
+  sections: CvSection[],
+  rawText: string,
+  section: Omit<CvSection, 'end' | 'text'>,
+  end: number
+): void {
+  const text = rawText.slice(section.start, end);
+  // Drop an empty preamble when the document opens with a heading
+  if (section.type === 'header' && !text.trim()) {
+    return;
+  }
+  sections.push({ ...section, end, text });
+}
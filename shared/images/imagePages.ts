@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+
+// Prepares photographed and scanned CVs for OCR, shared by src/services and apps/api: each page is
+// turned upright from its EXIF orientation and flattened onto white, multi-page TIFFs are split into
+// pages and HEIC photos from phones are decoded first.
+
+// Image formats accepted as CV uploads
+export type ImageFileType = 'jpeg' | 'png' | 'tiff' | 'heic';
+
+// Image uploads by MIME type, as the format loadImagePages expects
+export const IMAGE_MIME_TYPES: Record<string, ImageFileType> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/tiff': 'tiff',
+  'image/heic': 'heic',
+  'image/heif': 'heic',
+};
+
+/**
+ * Load an image upload as a list of upright PNG pages ready for OCR.
+ * Multi-page TIFFs yield one buffer per page; EXIF orientation from phone
+ * cameras is applied so the text is the right way up before Tesseract sees it.
+ * @param filePath - Path to the image file
+ * @param fileType - Image format as detected by parseFile
+ * @param maxPages - Optional limit on the number of TIFF pages to load
+ * @returns Promise<Buffer[]> - PNG buffers in page order
+ */
+export async function loadImagePages(
+  filePath: string,
+  fileType: ImageFileType,
+  maxPages?: number
+): Promise<Buffer[]> {
+  console.log(`[loadImagePages] Preparing ${fileType} image for OCR: ${path.basename(filePath)}`);
+
+  const input = await fs.readFile(filePath);
+
+  if (fileType === 'heic') {
+    // libvips ships without an HEVC decoder, so HEIC is decoded in WebAssembly first
+    const decoded = await heicConvert({ buffer: input, format: 'PNG' });
+    return [await normalisePage(Buffer.from(decoded))];
+  }
+
+  if (fileType === 'tiff') {
+    const { pages = 1 } = await sharp(input).metadata();
+    const pageCount = maxPages ? Math.min(maxPages, pages) : pages;
+
+    const images: Buffer[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      images.push(await normalisePage(input, page));
+    }
+    return images;
+  }
+
+  return [await normalisePage(input)];
+}
+
+/**
+ * Apply EXIF rotation, drop alpha onto white and re-encode a single page as PNG
+ */
+async function normalisePage(input: Buffer, page?: number): Promise<Buffer> {
+  return sharp(input, page === undefined ? {} : { page })
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,288 @@
+import path from 'path';
+import sharp from 'sharp';
+import mammoth from 'mammoth';
+import { loadPdfjs, loadPdfDocument } from '../pdf/pdfRenderer';
+
+// Finds the candidate's headshot among the images embedded in a PDF or DOCX CV, shared by
+// src/services and apps/api. Each image is scored on how much it looks like a passport-style
+// photo: its shape and size, and where it sits on the first pages.
+
+// An image embedded in an uploaded document
+export interface EmbeddedImage {
+  data: Buffer;      // Encoded image (PNG for PDF images, original format for DOCX)
+  width: number;     // Pixel size
+  height: number;
+  page: number;      // 1-based page number (DOCX images report page 1)
+  position: number;  // How far through the document the image appears, 0-1
+  // Where the image is drawn, as fractions of the page size with a top-left origin (PDF only)
+  box?: { x: number; y: number; width: number; height: number };
+}
+
+export interface CandidatePhoto {
+  data: Buffer;      // JPEG, EXIF rotation applied
+  width: number;
+  height: number;
+  page: number;
+  score: number;     // Headshot likelihood, 0-1
+}
+
+// Images scoring below this are more likely logos, icons or decoration than a headshot
+export const MIN_HEADSHOT_SCORE = 0.3;
+
+// Only the first pages of a CV carry the candidate photo
+const PHOTO_PAGE_LIMIT = 2;
+
+// Largest side of the stored photo; EHS prints it at 4.7cm, so 600px is ~300 DPI
+const MAX_PHOTO_SIZE = 600;
+
+/**
+ * Find the most likely candidate headshot among the images embedded in a PDF or DOCX.
+ * @param filePath - Path to the document
+ * @param fileType - 'pdf' or 'docx'
+ * @param password - User password for encrypted PDFs
+ * @returns Promise<CandidatePhoto | null> - The photo as JPEG, or null when no image looks like a headshot
+ */
+export async function extractCandidatePhoto(
+  filePath: string,
+  fileType: 'pdf' | 'docx',
+  password?: string
+): Promise<CandidatePhoto | null> {
+  const images = fileType === 'pdf'
+    ? await extractPdfImages(filePath, PHOTO_PAGE_LIMIT, password)
+    : await extractDocxImages(filePath);
+
+  const best = selectHeadshot(images);
+
+  console.log(`[extractCandidatePhoto] ${images.length} embedded images in ${path.basename(filePath)}, ` +
+    (best ? `headshot on page ${best.image.page} (score ${best.score.toFixed(2)})` : 'no headshot found'));
+
+  if (!best) {
+    return null;
+  }
+
+  const { data, info } = await sharp(best.image.data)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .resize(MAX_PHOTO_SIZE, MAX_PHOTO_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 90 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height, page: best.image.page, score: best.score };
+}
+
+/**
+ * Pick the image most likely to be the candidate's headshot
+ */
+export function selectHeadshot(images: EmbeddedImage[]): { image: EmbeddedImage; score: number } | null {
+  let best: { image: EmbeddedImage; score: number } | null = null;
+
+  for (const image of images) {
+    const score = scoreHeadshot(image);
+    if (score >= MIN_HEADSHOT_SCORE && (!best || score > best.score)) {
+      best = { image, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score how much an image looks like a headshot, from 0 (certainly not) to 1.
+ * Passport-style photos are portrait or square, large enough to show a face,
+ * and placed near the top of the first page, usually to one side of the name.
+ */
+export function scoreHeadshot(image: EmbeddedImage): number {
+  const { width, height, page, box, position } = image;
+
+  // Icons, bullets and rule lines
+  if (Math.min(width, height) < 64) return 0;
+  if (page > PHOTO_PAGE_LIMIT) return 0;
+
+  // Face crops run from slightly landscape to a tall 3:5 portrait
+  const aspect = height / width;
+  if (aspect < 0.7 || aspect > 1.8) return 0;
+  const aspectScore = aspect >= 1.0 && aspect <= 1.5 ? 1 : aspect >= 0.85 ? 0.8 : 0.5;
+
+  const pageScore = page === 1 ? 1 : 0.5;
+
+  if (!box) {
+    // Without page geometry, rely on reading order: headshots come with the header
+    const positionScore = position <= 0.15 ? 1 : position <= 0.35 ? 0.5 : 0.1;
+    return aspectScore * pageScore * positionScore;
+  }
+
+  // Full-page scans, backgrounds and banners on one side; thumbnails on the other
+  if (box.width * box.height > 0.25 || box.width < 0.05) return 0;
+  const sizeScore = box.width >= 0.1 && box.width <= 0.35 ? 1 : 0.6;
+
+  const centreY = box.y + box.height / 2;
+  const verticalScore = centreY <= 0.35 ? 1 : centreY <= 0.6 ? 0.5 : 0.15;
+
+  const centreX = box.x + box.width / 2;
+  const horizontalScore = centreX <= 0.35 || centreX >= 0.65 ? 1 : 0.8;
+
+  return aspectScore * pageScore * sizeScore * verticalScore * horizontalScore;
+}
+
+/**
+ * Collect the raster images drawn on the first pages of a PDF, with the box each is drawn in
+ */
+export async function extractPdfImages(
+  filePath: string,
+  maxPages = PHOTO_PAGE_LIMIT,
+  password?: string
+): Promise<EmbeddedImage[]> {
+  const pdfjs = await loadPdfjs();
+  const { OPS, Util } = pdfjs;
+  const document = await loadPdfDocument(filePath, password);
+
+  try {
+    const pageCount = Math.min(maxPages, document.numPages);
+    const images: EmbeddedImage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const operatorList = await page.getOperatorList();
+
+      let transform = [1, 0, 0, 1, 0, 0];
+      const stack: number[][] = [];
+
+      for (let i = 0; i < operatorList.fnArray.length; i++) {
+        const fn = operatorList.fnArray[i];
+        const args = operatorList.argsArray[i];
+
+        if (fn === OPS.save) {
+          stack.push(transform);
+        } else if (fn === OPS.restore) {
+          transform = stack.pop() || transform;
+        } else if (fn === OPS.transform) {
+          transform = Util.transform(transform, args);
+        } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+          const imageData = fn === OPS.paintInlineImageXObject
+            ? args[0]
+            : await getImageObject(args[0], page);
+          const data = await encodeImageData(imageData);
+          if (!data) continue;
+
+          // Images are painted into the unit square of the current transform
+          const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => {
+            const [pageX, pageY] = Util.applyTransform([x, y], transform);
+            return viewport.convertToViewportPoint(pageX, pageY);
+          });
+          const xs = corners.map(point => point[0]);
+          const ys = corners.map(point => point[1]);
+
+          images.push({
+            data,
+            width: imageData.width,
+            height: imageData.height,
+            page: pageNumber,
+            position: (pageNumber - 1 + Math.min(...ys) / viewport.height) / document.numPages,
+            box: {
+              x: Math.min(...xs) / viewport.width,
+              y: Math.min(...ys) / viewport.height,
+              width: (Math.max(...xs) - Math.min(...xs)) / viewport.width,
+              height: (Math.max(...ys) - Math.min(...ys)) / viewport.height,
+            },
+          });
+        }
+      }
+
+      page.cleanup();
+    }
+
+    return images;
+  } finally {
+    await document.destroy();
+  }
+}
+
+interface PdfImageData {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8ClampedArray | Uint8Array;
+}
+
+/**
+ * Wait for pdf.js to decode an image XObject; shared images live in commonObjs
+ */
+function getImageObject(objectId: string, page: any): Promise<PdfImageData> {
+  const objects = objectId.startsWith('g_') ? page.commonObjs : page.objs;
+  return new Promise(resolve => objects.get(objectId, resolve));
+}
+
+/**
+ * Encode decoded pdf.js pixels as PNG. Kind 1 is 1-bit greyscale, 2 is RGB, 3 is RGBA.
+ */
+async function encodeImageData(image: PdfImageData | null): Promise<Buffer | null> {
+  if (!image || !image.data || !image.width || !image.height) {
+    return null;
+  }
+
+  const { width, height, kind, data } = image;
+
+  if (kind === 1) {
+    // Monochrome images are never photos, but decode them so scoring sees every image
+    const rowBytes = (width + 7) >> 3;
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  }
+
+  const channels = kind === 2 ? 3 : 4;
+  if (data.length < width * height * channels) {
+    return null;
+  }
+  return sharp(Buffer.from(data.buffer, data.byteOffset, width * height * channels), {
+    raw: { width, height, channels },
+  }).png().toBuffer();
+}
+
+/**
+ * Collect the images embedded in a DOCX in reading order
+ */
+export async function extractDocxImages(filePath: string): Promise<EmbeddedImage[]> {
+  const embedded: Buffer[] = [];
+
+  // Tag each image with a placeholder so its offset in the HTML gives its place in the document
+  const result = await mammoth.convertToHtml(
+    { path: filePath },
+    {
+      convertImage: mammoth.images.imgElement(async image => {
+        embedded.push(await image.read());
+        return { src: `embedded-image-${embedded.length - 1}` };
+      }),
+    }
+  );
+
+  const html = result.value;
+  const images: EmbeddedImage[] = [];
+
+  for (let index = 0; index < embedded.length; index++) {
+    try {
+      const { width, height } = await sharp(embedded[index]).metadata();
+      if (!width || !height) continue;
+
+      const offset = html.indexOf(`"embedded-image-${index}"`);
+      images.push({
+        data: embedded[index],
+        width,
+        height,
+        page: 1,
+        position: offset >= 0 && html.length > 0 ? offset / html.length : 1,
+      });
+    } catch {
+      // Vector formats such as EMF and WMF are not photos
+      continue;
+    }
+  }
+
+  return images;
+}
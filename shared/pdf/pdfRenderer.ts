@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createCanvas, DOMMatrix, ImageData, Path2D } from '@napi-rs/canvas';
+
+// pdf.js in Node, shared by src/services and apps/api: opening documents and rasterising pages.
+
+type PdfjsModule = typeof import('pdfjs-dist/legacy/build/pdf.js');
+type PdfDocument = Awaited<ReturnType<PdfjsModule['getDocument']>['promise']>;
+
+export interface RenderOptions {
+  scale?: number;
+  maxPages?: number;
+  password?: string;
+}
+
+// Rendering at 2x (~144 DPI) is the lowest scale Tesseract reads body text reliably at
+const DEFAULT_RENDER_SCALE = 2;
+
+let pdfjsModule: PdfjsModule | null = null;
+
+/**
+ * Load pdf.js lazily, after installing the canvas globals it expects in Node
+ */
+export async function loadPdfjs(): Promise<PdfjsModule> {
+  if (pdfjsModule) return pdfjsModule;
+
+  const globals = globalThis as Record<string, unknown>;
+  globals.DOMMatrix = globals.DOMMatrix || DOMMatrix;
+  globals.ImageData = globals.ImageData || ImageData;
+  globals.Path2D = globals.Path2D || Path2D;
+
+  pdfjsModule = await import('pdfjs-dist/legacy/build/pdf.js');
+  return pdfjsModule;
+}
+
+/**
+ * Open a PDF document with pdf.js
+ * @param password - User password for encrypted PDFs
+ */
+export async function loadPdfDocument(filePath: string, password?: string): Promise<PdfDocument> {
+  const pdfjs = await loadPdfjs();
+  const data = new Uint8Array(await fs.readFile(filePath));
+
+  return pdfjs.getDocument({
+    data,
+    password,
+    disableFontFace: true,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+}
+
+/**
+ * Rasterise PDF pages to PNG buffers, one per page, in page order
+ */
+export async function renderPdfPages(filePath: string, options: RenderOptions = {}): Promise<Buffer[]> {
+  const scale = options.scale || DEFAULT_RENDER_SCALE;
+  const document = await loadPdfDocument(filePath, options.password);
+
+  try {
+    const pageCount = options.maxPages
+      ? Math.min(options.maxPages, document.numPages)
+      : document.numPages;
+
+    console.log(`[renderPdfPages] Rendering ${pageCount} pages of ${path.basename(filePath)} at scale ${scale}`);
+
+    const images: Buffer[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+
+      // Scanned pages often have transparent backgrounds, which Tesseract reads as black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      images.push(canvas.toBuffer('image/png'));
+      page.cleanup();
+    }
+
+    return images;
+  } finally {
+    await document.destroy();
+  }
+}
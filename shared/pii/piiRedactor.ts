@@ -0,0 +1,134 @@
+import { ProviderConfig } from '../providers/registry'
+
+// Reversible redaction of personal details before CV text is sent to an LLM, shared by src/ai and
+// apps/api. Contact details and identifiers are swapped for tokens such as [EMAIL_1], the same value
+// always getting the same token, and the tokens in the provider's reply are swapped back.
+// Names are left alone: the draft needs them, and they are rarely enough on their own.
+
+export type PiiCategory = 'email' | 'phone' | 'address' | 'dob' | 'url' | 'id'
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'address', 'dob', 'url', 'id']
+
+export interface Redaction {
+  text: string
+  tokens: Record<string, string>   // Token to the value it replaced
+}
+
+interface PiiRule {
+  category: PiiCategory
+  pattern: RegExp
+  labelled?: boolean                 // Pattern has two groups: the label, kept, and the value, redacted
+  accept?: (value: string) => boolean
+}
+
+const TOKEN_NAMES: Record<PiiCategory, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  dob: 'DOB',
+  url: 'URL',
+  id: 'ID',
+}
+
+const TOKEN_PATTERN = /\[(?:EMAIL|PHONE|ADDRESS|DOB|URL|ID)_\d+\]/g
+
+// Follows redacted text in a prompt, so the model keeps the tokens where the details belong
+export const REDACTION_NOTE = `
+
+Values in square brackets such as [EMAIL_1] or [DOB_1] stand in for personal details removed from the CV. Copy them into the output unchanged, in the fields where those details belong.`
+
+// Where a value written on a contact line ends, including at a token already placed
+const VALUE = '[^\\n|•·;\\[]+'
+
+const DATE = '(?:\\d{1,2}(?:st|nd|rd|th)?[\\s./-]+(?:\\d{1,2}|[A-Za-z]{3,9})[\\s./-]+\\d{2,4}|[A-Za-z]{3,9}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{4}-\\d{2}-\\d{2})'
+
+const STREET_TYPES = 'Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Dr|Close|Way|Court|Ct|Place|Pl|Boulevard|Blvd|Crescent|Terrace|Gardens|Square'
+
+// Applied in order, so labelled values go before the patterns that could match inside them
+const RULES: PiiRule[] = [
+  { category: 'dob', pattern: new RegExp(`(\\b(?:date\\s+of\\s+birth|d\\.?o\\.?b\\.?|born(?:\\s+on)?)\\s*[:\\-]?\\s*)(${DATE})`, 'gi'), labelled: true },
+  { category: 'id', pattern: /(\b(?:[Pp]assport|[Nn]ational\s+[Ii]nsurance|NI|ID|[Ss]ocial\s+[Ss]ecurity|SSN)(?:\s+(?:[Nn]o\.?|[Nn]umber|#))?\s*[:#]?\s*)([A-Z0-9][A-Z0-9 -]{4,14}[A-Z0-9])\b/g, labelled: true, accept: value => /\d/.test(value) },
+  { category: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { category: 'url', pattern: /(?:\bhttps?:\/\/|\bwww\.|\b(?:linkedin|github)\.com\/)[^\s|•·;,]+/gi },
+  { category: 'address', pattern: new RegExp(`(\\b(?:home\\s+)?address\\s*[:\\-]\\s*)(${VALUE})`, 'gi'), labelled: true },
+  { category: 'address', pattern: new RegExp(`\\b\\d{1,5}[A-Za-z]?,?\\s+(?:[A-Z][A-Za-z'-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?${VALUE.replace('+', '*')}`, 'g') },
+  // UK postcodes on their own, e.g. "London SW1A 1AA"
+  { category: 'address', pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s\d[A-Z]{2}\b/g },
+  // National Insurance and US social security numbers without a label
+  { category: 'id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b|\b\d{3}-\d{2}-\d{4}\b/g },
+  // Nine to fifteen digits with single separators; date ranges such as "2012 - 2015" have more between their digits
+  { category: 'phone', pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)[\s.-]?)?\d(?:[\s.-]?\d){7,14}/g, accept: value => {
+    const digits = value.replace(/\D/g, '').length
+    return digits >= 9 && digits <= 15
+  } },
+]
+
+/**
+ * Personal details a provider may not receive: those missing from its allowedPii
+ * setting. Without the setting, remote providers receive none and local ones all
+ */
+export function getRedactedCategories(provider: Pick<ProviderConfig, 'remote' | 'allowedPii'>): PiiCategory[] {
+  const allowed = provider.allowedPii ?? (provider.remote === false ? PII_CATEGORIES : [])
+  return PII_CATEGORIES.filter(category => !allowed.includes(category))
+}
+
+/**
+ * Replace the personal details of the given kinds with tokens
+ * @returns The redacted text and the value behind each token, for restorePii
+ */
+export function redactPii(text: string, categories: PiiCategory[]): Redaction {
+  const tokens: Record<string, string> = {}
+  const tokenOf = new Map<string, string>()
+  const counts: Partial<Record<PiiCategory, number>> = {}
+
+  const tokenFor = (category: PiiCategory, value: string) => {
+    // A phone number written with and without its country code is one number
+    const key = `${category}:${category === 'phone' ? value.replace(/\D/g, '').slice(-9) : value.toLowerCase()}`
+    let token = tokenOf.get(key)
+    if (!token) {
+      counts[category] = (counts[category] || 0) + 1
+      token = `[${TOKEN_NAMES[category]}_${counts[category]}]`
+      tokenOf.set(key, token)
+      tokens[token] = value
+    }
+    return token
+  }
+
+  let redacted = text
+  for (const rule of RULES) {
+    if (!categories.includes(rule.category)) continue
+
+    redacted = redacted.replace(rule.pattern, (match: string, label?: string, labelledValue?: string) => {
+      const prefix = rule.labelled ? label as string : ''
+      const raw = rule.labelled ? labelledValue as string : match
+      // Trailing spaces and punctuation stay in the text
+      const value = raw.replace(/[\s,.]+$/, '')
+      const rest = raw.slice(value.length)
+
+      if (!value || (rule.accept && !rule.accept(value))) {
+        return match
+      }
+      return `${prefix}${tokenFor(rule.category, value)}${rest}`
+    })
+  }
+
+  return { text: redacted, tokens }
+}
+
+/**
+ * Put the redacted values back wherever their tokens appear in a provider's output
+ */
+export function restorePii<T>(value: T, tokens: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(TOKEN_PATTERN, token => tokens[token] ?? token) as unknown as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restorePii(item, tokens)) as unknown as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restorePii(item, tokens)])
+    ) as T
+  }
+  return value
+}
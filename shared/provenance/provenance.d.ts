@@ -0,0 +1,29 @@
+// Types for provenance.js
+
+export type ProvenanceMatch = 'exact' | 'fuzzy';
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+  page?: number;
+  match: ProvenanceMatch;
+}
+
+// Spans by JSON path, e.g. "experience[2].company"
+export type Provenance = Record<string, SourceSpan>;
+
+export interface ProvenanceField {
+  path: string;
+  value: string;
+}
+
+export interface ProvenanceOptions {
+  pageStarts?: number[];
+  skip?: string[];
+}
+
+export function buildProvenance(data: unknown, text: string, options?: ProvenanceOptions): Provenance;
+export function locateFields(text: string, fields: ProvenanceField[], options?: Pick<ProvenanceOptions, 'pageStarts'>): Provenance;
+export function flattenFields(data: unknown, skip?: string[]): ProvenanceField[];
+export function pageAt(offset: number, pageStarts: number[]): number;
+export function splitPageBreaks(text: string, pageBreak?: string): { text: string; pageStarts: number[] };
@@ -0,0 +1,273 @@
+// Links the values in an extracted CV to the stretch of source text they came from, shared by
+// src/ai and apps/api. Paths are JSON paths such as "experience[2].company"; spans are character
+// offsets into the text the values were extracted from, with the page they start on when known.
+//
+// Dates are looked for in whatever format the text writes them; other values verbatim (ignoring
+// case, spacing and punctuation), then as a cluster of their words when the model reworded them. Fields of the same list entry
+// are taken from near each other, so a company named in two entries links to the right one.
+
+// Letters and digits; everything else may differ between a value and its source
+const WORD_CHARS = 'A-Za-z0-9À-ɏ';
+const WORD = new RegExp(`[${WORD_CHARS}]+`, 'g');
+const WORD_CHAR = new RegExp(`[${WORD_CHARS}]`);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Mar 2017", "March, 2017", "03/2017", "3.2017", "2017-03"
+const TEXT_DATE = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s*((?:19|20)\d{2})\b|\b(0?[1-9]|1[0-2])\s*[/.-]\s*((?:19|20)\d{2})\b|\b((?:19|20)\d{2})-(0[1-9]|1[0-2])\b/gi;
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+const PRESENT = /\b(?:present|current|now|today|to date|ongoing)\b/gi;
+const VALUE_DATE = /^(?:([A-Za-z]{3,})\.?\s+)?((?:19|20)\d{2})$/;
+
+// Words that say nothing about where a reworded value came from
+const STOPWORDS = new Set(['and', 'the', 'for', 'with', 'from', 'into', 'over', 'our', 'was', 'were', 'has', 'have', 'that', 'this']);
+
+// A reworded value's words must fall within this many characters of each other
+const MIN_CLUSTER_SPAN = 80;
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function allMatches(pattern, text) {
+  const matches = [];
+  pattern.lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    matches.push(match);
+    if (match[0] === '') pattern.lastIndex++;
+  }
+  return matches;
+}
+
+function span(start, end, match) {
+  return { start, end, match };
+}
+
+/**
+ * Every place the value appears as a whole, allowing any case, spacing and punctuation between its words
+ */
+function findVerbatim(text, value) {
+  const words = value.match(WORD);
+  if (!words) return [];
+
+  const pattern = new RegExp(`${words.map(escapeRegExp).join(`[^${WORD_CHARS}]+`)}(?![${WORD_CHARS}])`, 'gi');
+  return allMatches(pattern, text)
+    .filter(match => match.index === 0 || !WORD_CHAR.test(text[match.index - 1]))
+    .map(match => span(match.index, match.index + match[0].length, 'exact'));
+}
+
+/**
+ * Places a normalised date ("Mar 2017", "2017" or "Present") is written, in whatever format the
+ * text uses. A month and year found only by its year is a fuzzy match.
+ */
+function findDate(text, value) {
+  if (/^(?:present|current|now)$/i.test(value)) {
+    return allMatches(PRESENT, text).map(match => span(match.index, match.index + match[0].length, 'exact'));
+  }
+
+  const parsed = VALUE_DATE.exec(value);
+  if (!parsed) return null;
+
+  const year = parsed[2];
+  const month = parsed[1] ? MONTHS.indexOf(parsed[1].slice(0, 3).toLowerCase()) + 1 : 0;
+  if (parsed[1] && !month) return null;
+
+  const years = allMatches(YEAR, text).filter(match => match[0] === year);
+  if (!month) {
+    return years.map(match => span(match.index, match.index + 4, 'exact'));
+  }
+
+  const exact = allMatches(TEXT_DATE, text)
+    .filter(match => {
+      const textMonth = match[1] ? MONTHS.indexOf(match[1].toLowerCase()) + 1 : Number(match[3] || match[6]);
+      return textMonth === month && (match[2] || match[4] || match[5]) === year;
+    })
+    .map(match => span(match.index, match.index + match[0].length, 'exact'));
+
+  return exact.length > 0 ? exact : years.map(match => span(match.index, match.index + 4, 'fuzzy'));
+}
+
+/**
+ * Stretches of text holding most of a reworded value's words close together. Only the
+ * stretches with the most of its words are returned.
+ */
+function findWords(text, value) {
+  const words = Array.from(new Set((value.toLowerCase().match(WORD) || [])
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))));
+  if (words.length === 0) return [];
+
+  const occurrences = [];
+  words.forEach((word, index) => {
+    const pattern = new RegExp(`(?:^|[^${WORD_CHARS}])(${escapeRegExp(word)})(?![${WORD_CHARS}])`, 'gi');
+    for (const match of allMatches(pattern, text)) {
+      const start = match.index + match[0].length - match[1].length;
+      occurrences.push({ word: index, start, end: start + word.length });
+    }
+  });
+  occurrences.sort((a, b) => a.start - b.start);
+
+  const reach = Math.max(value.length * 2, MIN_CLUSTER_SPAN);
+  const needed = Math.ceil(words.length / 2);
+  let best = needed;
+  let clusters = [];
+
+  occurrences.forEach((first, index) => {
+    const found = new Set();
+    let end = first.end;
+    for (let next = index; next < occurrences.length && occurrences[next].start - first.start <= reach; next++) {
+      if (found.has(occurrences[next].word)) continue;
+      found.add(occurrences[next].word);
+      end = Math.max(end, occurrences[next].end);
+    }
+    if (found.size > best) {
+      best = found.size;
+      clusters = [];
+    }
+    if (found.size === best) {
+      clusters.push(span(first.start, end, 'fuzzy'));
+    }
+  });
+
+  return clusters;
+}
+
+function findValue(text, value) {
+  const trimmed = value.trim();
+  const date = findDate(text, trimmed);
+  if (date) return date;
+
+  const verbatim = findVerbatim(text, trimmed);
+  return verbatim.length > 0 ? verbatim : findWords(text, trimmed);
+}
+
+function closestTo(spans, position) {
+  return spans.reduce((best, candidate) =>
+    Math.abs(candidate.start - position) < Math.abs(best.start - position) ? candidate : best);
+}
+
+// The list entry a path belongs to: "experience[2]" for "experience[2].bullets[0]"
+function entryOf(path) {
+  const entry = /^(.*?\[\d+\])\./.exec(path);
+  return entry ? entry[1] : null;
+}
+
+/**
+ * Where an entry's fields cluster: the middle of the fields found verbatim in only one place,
+ * or failing those, the repeat of its most distinctive field its other fields are closest to
+ */
+function anchorOf(fields) {
+  const exact = fields.filter(field => field.spans.length > 0 && field.spans[0].match === 'exact');
+  const certain = exact.filter(field => field.spans.length === 1);
+  if (certain.length > 0) {
+    return certain.reduce((sum, field) => sum + field.spans[0].start, 0) / certain.length;
+  }
+
+  const distinctive = exact.sort((a, b) => a.spans.length - b.spans.length)[0];
+  if (!distinctive) return null;
+
+  const others = fields.filter(field => field !== distinctive && field.spans.length > 0);
+  const spread = candidate => others.reduce((sum, field) =>
+    sum + Math.abs(closestTo(field.spans, candidate.start).start - candidate.start), 0);
+
+  return distinctive.spans.reduce((best, candidate) => (spread(candidate) < spread(best) ? candidate : best)).start;
+}
+
+/**
+ * The page an offset falls on, counting from 1
+ * @param pageStarts - Offset at which each page begins
+ */
+function pageAt(offset, pageStarts) {
+  let page = 1;
+  pageStarts.forEach((start, index) => {
+    if (start <= offset) page = index + 1;
+  });
+  return page;
+}
+
+/**
+ * Find each value in the text
+ * @param fields - Paths and the string values at them
+ * @param options.pageStarts - Offset at which each page begins, to give each span its page
+ * @returns Spans by path; values that could not be found are left out
+ */
+function locateFields(text, fields, options = {}) {
+  const located = fields.map(field => ({ ...field, spans: findValue(text, field.value) }));
+
+  const entries = new Map();
+  located.forEach(field => {
+    const entry = entryOf(field.path);
+    if (entry) entries.set(entry, (entries.get(entry) || []).concat(field));
+  });
+
+  const anchors = new Map();
+  entries.forEach((entryFields, entry) => anchors.set(entry, anchorOf(entryFields)));
+
+  const provenance = {};
+  for (const field of located) {
+    if (field.spans.length === 0) continue;
+
+    const anchor = anchors.get(entryOf(field.path));
+    const chosen = anchor === null || anchor === undefined ? field.spans[0] : closestTo(field.spans, anchor);
+    provenance[field.path] = options.pageStarts && options.pageStarts.length > 0
+      ? { ...chosen, page: pageAt(chosen.start, options.pageStarts) }
+      : chosen;
+  }
+  return provenance;
+}
+
+/**
+ * Every non-empty string in an extracted CV with its path
+ * @param skip - Paths to leave out, with everything under them
+ */
+function flattenFields(data, skip = []) {
+  const fields = [];
+  const visit = (value, path) => {
+    if (skip.some(skipped => path === skipped || path.startsWith(`${skipped}.`) || path.startsWith(`${skipped}[`))) return;
+
+    if (typeof value === 'string') {
+      if (value.trim().length >= 2) fields.push({ path, value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`));
+    } else if (value && typeof value === 'object') {
+      Object.keys(value).forEach(key => visit(value[key], path ? `${path}.${key}` : key));
+    }
+  };
+  visit(data, '');
+  return fields;
+}
+
+/**
+ * Link every string in an extracted CV to where it came from in the text
+ */
+function buildProvenance(data, text, options = {}) {
+  return locateFields(text, flattenFields(data, options.skip), options);
+}
+
+/**
+ * Remove page break characters, returning the offset at which each page begins. Extractors
+ * that end every page with a break leave no page after the last one.
+ */
+function splitPageBreaks(text, pageBreak = '\f') {
+  const pages = text.split(pageBreak);
+  if (pages.length > 1 && !pages[pages.length - 1].trim()) {
+    const last = pages.pop();
+    pages[pages.length - 1] += last;
+  }
+
+  const pageStarts = [];
+  let offset = 0;
+  pages.forEach(page => {
+    pageStarts.push(offset);
+    offset += page.length;
+  });
+  return { text: pages.join(''), pageStarts };
+}
+
+module.exports = {
+  buildProvenance,
+  locateFields,
+  flattenFields,
+  pageAt,
+  splitPageBreaks,
+};
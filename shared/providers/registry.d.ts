@@ -0,0 +1,48 @@
+// Types for registry.js, which stays plain JavaScript so apps/api can require it without a build step
+
+export type ProviderType = 'openai' | 'openai-compatible' | 'anthropic' | 'gemini' | 'heuristic';
+
+export type ProviderTask = 'extraction' | 'skillAnalysis' | 'enhancement' | 'validation' | 'insights';
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  type: ProviderType;
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  contextWindow?: number;  // Tokens the model accepts, prompt and reply included; limits the chunk size
+  baseUrl?: string;        // OpenAI-compatible endpoint for self-hosted models
+  apiKey?: string;
+  jsonMode?: boolean;      // Ask the server to constrain the reply to a JSON object
+  timeoutMs?: number;      // Abandon a request after this long (default 60s)
+  maxRetries?: number;     // Further attempts after a 429 or 5xx answer (default 2)
+  remote: boolean;         // False for providers that keep CV text on our own hardware
+  allowedPii?: string[];   // Personal details sent unredacted: email, phone, address, dob, url, id (default: all if local, none if remote)
+}
+
+export interface ProviderHealth {
+  id: string;
+  configured: boolean;
+  healthy: boolean;
+  latencyMs?: number;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;   // USD per million prompt tokens
+  outputPerMillion: number;  // USD per million completion tokens
+}
+
+export const TASKS: ProviderTask[];
+
+export function getConfigPath(): string;
+export function getProvider(id: string, task?: ProviderTask): ProviderConfig | null;
+export function getModelPricing(model: string): ModelPricing | null;
+export function listProviders(): string[];
+export function isConfigured(provider: ProviderConfig | null): boolean;
+export function isLocalOnly(): boolean;
+export function getProviderChain(task: ProviderTask): string[];
+export function checkProviderHealth(ids?: string[], options?: { timeoutMs?: number }): Promise<ProviderHealth[]>;
+export function getProviderHealth(id: string): ProviderHealth | undefined;
@@ -0,0 +1,248 @@
+// AI provider registry shared by the TypeScript pipeline (src/ai) and the Express API (apps/api).
+// Providers and the chain each task tries are read from a JSON file, so models can be
+// changed, and providers added, removed or reordered, by editing configuration only.
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, 'providers.json');
+
+const TASKS = ['extraction', 'skillAnalysis', 'enhancement', 'validation', 'insights'];
+
+const NUMBER_FIELDS = ['temperature', 'maxTokens', 'contextWindow', 'timeoutMs', 'maxRetries'];
+const BOOLEAN_FIELDS = ['jsonMode', 'remote'];
+const LIST_FIELDS = ['allowedPii'];
+
+// Where each vendor lists its models; a cheap authenticated request that proves the key works
+const HEALTH_ENDPOINTS = {
+  openai: () => 'https://api.openai.com/v1/models',
+  'openai-compatible': (provider) => `${provider.baseUrl.replace(/\/+$/, '')}/models`,
+  anthropic: () => 'https://api.anthropic.com/v1/models',
+  gemini: (provider) => `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(provider.apiKey)}`
+};
+
+const DEFAULT_HEALTH_TIMEOUT_MS = 5000;
+
+let cached = null;
+const healthResults = new Map();
+
+// Path of the active configuration file; AI_PROVIDERS_CONFIG replaces the bundled default
+function getConfigPath() {
+  return process.env.AI_PROVIDERS_CONFIG
+    ? path.resolve(process.env.AI_PROVIDERS_CONFIG)
+    : DEFAULT_CONFIG_PATH;
+}
+
+// Read the configuration file, again only when it has changed since the last read
+function loadConfig() {
+  const configPath = getConfigPath();
+  const modified = fs.statSync(configPath).mtimeMs;
+
+  if (!cached || cached.path !== configPath || cached.modified !== modified) {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (!config || typeof config.providers !== 'object') {
+      throw new Error(`Invalid provider configuration in ${configPath}: "providers" must be an object`);
+    }
+    cached = { path: configPath, modified, config };
+    console.log(`[providerRegistry] Loaded ${Object.keys(config.providers).length} providers from ${configPath}`);
+  }
+
+  return cached.config;
+}
+
+// Replace ${VAR}, ${VAR|FALLBACK_VAR} and ${VAR:-default} with environment values
+function interpolate(value) {
+  if (typeof value !== 'string') return value;
+
+  return value.replace(/\$\{([A-Za-z0-9_|]+)(?::-([^}]*))?\}/g, (_, names, fallback) => {
+    const found = names.split('|').map((name) => process.env[name]).find((env) => env);
+    return found || fallback || '';
+  });
+}
+
+function resolveFields(settings) {
+  const resolved = {};
+
+  for (const [key, raw] of Object.entries(settings)) {
+    // Lists may be written as arrays or, to come from the environment, comma-separated strings
+    if (LIST_FIELDS.includes(key)) {
+      const items = Array.isArray(raw) ? raw.map(interpolate) : interpolate(raw);
+      if (items === '') continue;
+      resolved[key] = (Array.isArray(items) ? items : String(items).split(','))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+      continue;
+    }
+
+    const value = interpolate(raw);
+    if (value === '' || value === undefined) continue;
+
+    if (NUMBER_FIELDS.includes(key)) {
+      const number = Number(value);
+      if (!Number.isNaN(number)) resolved[key] = number;
+    } else if (BOOLEAN_FIELDS.includes(key)) {
+      resolved[key] = value === true || value === 'true';
+    } else {
+      resolved[key] = value;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Settings for a provider, with environment values filled in and, when a task
+ * is given, that task's overrides applied. Returns null for unknown providers.
+ */
+function getProvider(id, task) {
+  const config = loadConfig();
+  const base = config.providers[id];
+  if (!base) return null;
+
+  const overrides = (task && config.tasks && config.tasks[task] && config.tasks[task].overrides) || {};
+
+  return {
+    id,
+    name: id,
+    remote: true,
+    ...resolveFields(base),
+    ...resolveFields(overrides[id] || {})
+  };
+}
+
+/**
+ * Price of a model in USD per million prompt (input) and completion (output) tokens,
+ * from the "pricing" table of the configuration. Returns null for models not listed.
+ */
+function getModelPricing(model) {
+  const pricing = loadConfig().pricing || {};
+  const price = pricing[model];
+  if (!price) return null;
+
+  return {
+    inputPerMillion: Number(interpolate(price.inputPerMillion)) || 0,
+    outputPerMillion: Number(interpolate(price.outputPerMillion)) || 0
+  };
+}
+
+// Provider ids in configuration order
+function listProviders() {
+  return Object.keys(loadConfig().providers);
+}
+
+// Whether a provider has what it needs to be called: a key for cloud vendors, a URL for self-hosted servers
+function isConfigured(provider) {
+  if (!provider) return false;
+  if (provider.type === 'heuristic') return true;
+  if (provider.type === 'openai-compatible') return Boolean(provider.baseUrl);
+  return Boolean(provider.apiKey);
+}
+
+/**
+ * Whether CV text must stay on our hardware: the configuration's "localOnly" setting, which the
+ * bundled providers.json takes from AI_LOCAL_ONLY. Off unless set.
+ */
+function isLocalOnly() {
+  const value = interpolate(loadConfig().localOnly);
+  return value === true || value === 'true';
+}
+
+/**
+ * Providers a task tries, in order. AI_PROVIDERS_<TASK> (e.g. AI_PROVIDERS_EXTRACTION=local,heuristic)
+ * replaces the configured chain as given. Otherwise unconfigured providers are skipped, and with
+ * localOnly set remote providers are dropped too.
+ */
+function getProviderChain(task) {
+  const envName = `AI_PROVIDERS_${task.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+  if (process.env[envName]) {
+    return process.env[envName].split(',').map((id) => id.trim()).filter(Boolean);
+  }
+
+  const config = loadConfig();
+  const taskConfig = (config.tasks && config.tasks[task]) || {};
+  const ids = taskConfig.providers || listProviders();
+
+  const configured = ids.filter((id) => isConfigured(getProvider(id, task)));
+
+  return isLocalOnly()
+    ? configured.filter((id) => getProvider(id, task).remote === false)
+    : configured;
+}
+
+/**
+ * Probe providers with a cheap authenticated request and remember the result.
+ * @param {string[]} [ids] - Providers to check; all configured ones by default
+ * @param {{ timeoutMs?: number }} [options]
+ * @returns {Promise<Array<{ id: string, configured: boolean, healthy: boolean, latencyMs?: number, error?: string, checkedAt: string }>>}
+ */
+async function checkProviderHealth(ids = listProviders(), options = {}) {
+  const timeoutMs = options.timeoutMs || DEFAULT_HEALTH_TIMEOUT_MS;
+
+  return Promise.all(ids.map(async (id) => {
+    const provider = getProvider(id);
+    const checkedAt = new Date().toISOString();
+    let result;
+
+    if (!provider) {
+      result = { id, configured: false, healthy: false, error: 'Unknown provider', checkedAt };
+    } else if (!isConfigured(provider)) {
+      const missing = provider.type === 'openai-compatible' ? 'Base URL' : 'API key';
+      result = { id, configured: false, healthy: false, error: `${missing} not configured`, checkedAt };
+    } else if (!HEALTH_ENDPOINTS[provider.type]) {
+      // Runs in-process, nothing to reach
+      result = { id, configured: true, healthy: true, latencyMs: 0, checkedAt };
+    } else {
+      result = { id, configured: true, ...(await probe(provider, timeoutMs)), checkedAt };
+    }
+
+    healthResults.set(id, result);
+    return result;
+  }));
+}
+
+async function probe(provider, timeoutMs) {
+  const headers = {};
+  if (provider.type === 'anthropic') {
+    headers['x-api-key'] = provider.apiKey;
+    headers['anthropic-version'] = '2023-06-01';
+  } else if (provider.type !== 'gemini' && provider.apiKey) {
+    headers.Authorization = `Bearer ${provider.apiKey}`;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(HEALTH_ENDPOINTS[provider.type](provider), { headers, signal: controller.signal });
+    const latencyMs = Date.now() - started;
+    return response.ok
+      ? { healthy: true, latencyMs }
+      : { healthy: false, latencyMs, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return {
+      healthy: false,
+      latencyMs: Date.now() - started,
+      error: error.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : error.message
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Result of the last health check for a provider, if it has been checked
+function getProviderHealth(id) {
+  return healthResults.get(id);
+}
+
+module.exports = {
+  TASKS,
+  getConfigPath,
+  getProvider,
+  getModelPricing,
+  listProviders,
+  isConfigured,
+  isLocalOnly,
+  getProviderChain,
+  checkProviderHealth,
+  getProviderHealth
+};
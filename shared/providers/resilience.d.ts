@@ -0,0 +1,34 @@
+// Types for resilience.js
+import { ProviderConfig } from './registry';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number;
+  lastError?: string;
+  retryAt?: string;
+}
+
+export class ProviderTimeoutError extends Error {
+  provider: string;
+  timeoutMs: number;
+  constructor(provider: string, timeoutMs: number);
+}
+
+export class CircuitOpenError extends Error {
+  provider: string;
+  retryAt: number;
+  constructor(provider: string, retryAt: number);
+}
+
+export function callProvider<T>(
+  provider: Pick<ProviderConfig, 'id' | 'timeoutMs' | 'maxRetries'>,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options?: { baseDelayMs?: number; maxDelayMs?: number }
+): Promise<T>;
+export function isRetryable(error: unknown): boolean;
+export function isCircuitOpen(id: string, now?: number): boolean;
+export function getCircuitState(id: string): CircuitStatus;
+export function getRetryDelay(error: unknown, attempt: number, baseDelayMs?: number, maxDelayMs?: number): number;
+export function resetCircuits(): void;
@@ -0,0 +1,201 @@
+// Timeouts, retries and circuit breaking for calls to AI providers, shared by src/ai and apps/api.
+// A call is retried with jittered exponential backoff only when the provider answers 429 or 5xx.
+// Providers that keep failing are skipped until a cooldown has passed, then tried again with one call.
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+const FAILURE_THRESHOLD = Number(process.env.AI_BREAKER_FAILURE_THRESHOLD) || 3;
+const COOLDOWN_MS = Number(process.env.AI_BREAKER_COOLDOWN_MS) || 30000;
+
+// Node and undici codes for connections that were refused, dropped or never resolved
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+class ProviderTimeoutError extends Error {
+  constructor(provider, timeoutMs) {
+    super(`${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+    this.provider = provider;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+class CircuitOpenError extends Error {
+  constructor(provider, retryAt) {
+    super(`${provider} is temporarily skipped after repeated failures (circuit open until ${new Date(retryAt).toISOString()})`);
+    this.name = 'CircuitOpenError';
+    this.provider = provider;
+    this.retryAt = retryAt;
+  }
+}
+
+const circuits = new Map();
+
+function getCircuit(id) {
+  if (!circuits.has(id)) {
+    circuits.set(id, { state: 'closed', failures: 0, openedAt: null, trialInFlight: false, lastError: null });
+  }
+  return circuits.get(id);
+}
+
+// HTTP status of a failed call, whichever SDK raised it
+function getStatus(error) {
+  if (!error) return undefined;
+  const status = error.status || error.statusCode || (error.response && error.response.status);
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Rate limits and server errors are worth another attempt; bad requests, bad keys and bad output are not
+function isRetryable(error) {
+  const status = getStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+// Whether a failure says the provider itself is unwell, as opposed to the model returning unusable output
+function isProviderFault(error) {
+  if (error instanceof ProviderTimeoutError) return true;
+  const status = getStatus(error);
+  if (status !== undefined) return status === 401 || status === 403 || isRetryable(error);
+  const code = error && (error.code || (error.cause && error.cause.code));
+  return NETWORK_ERROR_CODES.includes(code);
+}
+
+// Delay before retry number `attempt` (0-based): full jitter over an exponential ceiling, or Retry-After when given
+function getRetryDelay(error, attempt, baseDelayMs = BASE_DELAY_MS, maxDelayMs = MAX_DELAY_MS) {
+  const headers = error && error.headers;
+  const retryAfter = headers && (typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after']);
+  const seconds = Number(retryAfter);
+  if (retryAfter && !Number.isNaN(seconds)) {
+    return Math.min(maxDelayMs, seconds * 1000);
+  }
+  return Math.floor(Math.random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt)));
+}
+
+/**
+ * Whether calls to a provider are currently being skipped. An open circuit lets one trial
+ * call through once the cooldown has passed; until that call settles the others still skip.
+ */
+function isCircuitOpen(id, now = Date.now()) {
+  const circuit = getCircuit(id);
+  if (circuit.state === 'closed') return false;
+  if (circuit.state === 'open' && now - circuit.openedAt >= COOLDOWN_MS) {
+    circuit.state = 'half-open';
+  }
+  return circuit.state === 'open' || circuit.trialInFlight;
+}
+
+function recordSuccess(id) {
+  const circuit = getCircuit(id);
+  circuit.state = 'closed';
+  circuit.failures = 0;
+  circuit.openedAt = null;
+}
+
+function recordFailure(id, error) {
+  const circuit = getCircuit(id);
+  circuit.failures += 1;
+  circuit.lastError = error.message;
+
+  if (circuit.state === 'half-open' || circuit.failures >= FAILURE_THRESHOLD) {
+    if (circuit.state !== 'open') {
+      console.warn(`[resilience] Circuit opened for ${id} after ${circuit.failures} failures: ${error.message}`);
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+function withTimeout(id, fn, timeoutMs) {
+  const controller = new AbortController();
+  let timer;
+
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderTimeoutError(id, timeoutMs));
+    }, timeoutMs);
+  });
+
+  return Promise.race([Promise.resolve().then(() => fn(controller.signal)), timeout])
+    .finally(() => clearTimeout(timer));
+}
+
+/**
+ * Call a provider with a timeout, retries for 429/5xx answers and circuit breaking.
+ * @param {{ id: string, timeoutMs?: number, maxRetries?: number }} provider - Registry settings for the provider
+ * @param {(signal: AbortSignal) => Promise<any>} fn - Makes one request; should stop when the signal aborts
+ * @param {{ baseDelayMs?: number, maxDelayMs?: number }} [options]
+ * @throws {CircuitOpenError} When the provider is being skipped
+ */
+async function callProvider(provider, fn, options = {}) {
+  const id = provider.id;
+  const timeoutMs = provider.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const maxRetries = provider.maxRetries !== undefined ? provider.maxRetries : DEFAULT_MAX_RETRIES;
+
+  if (isCircuitOpen(id)) {
+    throw new CircuitOpenError(id, getCircuit(id).openedAt + COOLDOWN_MS);
+  }
+
+  const circuit = getCircuit(id);
+  const isTrial = circuit.state === 'half-open';
+  if (isTrial) circuit.trialInFlight = true;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await withTimeout(id, fn, timeoutMs);
+        recordSuccess(id);
+        return result;
+      } catch (error) {
+        if (attempt < maxRetries && isRetryable(error)) {
+          const delay = getRetryDelay(error, attempt, options.baseDelayMs, options.maxDelayMs);
+          console.warn(`[resilience] ${id} answered ${getStatus(error)}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+
+        if (isProviderFault(error)) {
+          recordFailure(id, error);
+        } else {
+          // The provider answered; the output was the problem
+          recordSuccess(id);
+        }
+        throw error;
+      }
+    }
+  } finally {
+    if (isTrial) circuit.trialInFlight = false;
+  }
+}
+
+/**
+ * Breaker state for a provider, as reported by the health endpoint.
+ * @returns {{ state: 'closed' | 'open' | 'half-open', failures: number, lastError?: string, retryAt?: string }}
+ */
+function getCircuitState(id) {
+  isCircuitOpen(id);
+  const circuit = getCircuit(id);
+  return {
+    state: circuit.state,
+    failures: circuit.failures,
+    ...(circuit.lastError ? { lastError: circuit.lastError } : {}),
+    ...(circuit.state === 'open' ? { retryAt: new Date(circuit.openedAt + COOLDOWN_MS).toISOString() } : {})
+  };
+}
+
+// Close every circuit; for tests and for operators after fixing a provider
+function resetCircuits() {
+  circuits.clear();
+}
+
+module.exports = {
+  ProviderTimeoutError,
+  CircuitOpenError,
+  callProvider,
+  isRetryable,
+  isCircuitOpen,
+  getCircuitState,
+  getRetryDelay,
+  resetCircuits
+};
@@ -37,6 +37,16 @@ const EducationItemSchema = z.object({
 const AuditSchema = z.object({
   rulesApplied: z.array(z.string().min(1, 'Rule cannot be empty')),
   issues: z.array(z.string().min(1, 'Issue cannot be empty')),
+  // Values the model was unsure of, quoted as it wrote them; they score lower in confidence
+  uncertain: z.array(z.string()).optional(),
+  // Values schema repair had to fix, recorded by the pipeline; they score lower in confidence too
+  repaired: z.array(z.string()).optional(),
+});
+
+// What produced a draft: set by the pipeline, never asked of the model
+const GeneratedBySchema = z.object({
+  prompt: z.string().optional(),   // Prompt id and version, e.g. "ehs@1"; absent for the offline heuristic
+  models: z.array(z.string()),     // "provider:model" of each provider whose reply is in the draft
 });
 
 // Main CV Draft schema
@@ -49,6 +59,9 @@ export const CvDraftSchema = z.object({
   skills: z.array(z.string().min(1, 'Skill cannot be empty')).min(1, 'At least one skill is required'),
   interests: z.array(z.string().min(1, 'Interest cannot be empty')).min(1, 'At least one interest is required'),
   audit: AuditSchema,
+  generatedBy: GeneratedBySchema.optional(),
+  // Confidence from 0 to 1 in each value by JSON path, e.g. "experience[2].company"; set by the pipeline
+  confidence: z.record(z.number().min(0).max(1)).optional(),
 });
 
 // TypeScript type derived from the schema
@@ -93,6 +106,7 @@ export {
   ExperienceItemSchema,
   EducationItemSchema,
   AuditSchema,
+  GeneratedBySchema,
 };
 
 
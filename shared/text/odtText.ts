@@ -0,0 +1,134 @@
+import JSZip from 'jszip';
+
+// Plain text from OpenDocument Text (.odt) files, shared by src/services and apps/api, with the
+// entity decoding the DOCX reader uses too.
+
+// XML's predefined entities, plus the non-breaking space mammoth writes into DOCX HTML
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+/**
+ * Extract plain text from an OpenDocument Text (.odt) file.
+ * The text lives in content.xml inside the zip; images are stored under Pictures/.
+ * @param buffer - Raw .odt file contents
+ * @returns Promise<{ text: string; hasImages: boolean }>
+ */
+export async function extractOdtText(buffer: Buffer): Promise<{ text: string; hasImages: boolean }> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const content = zip.file('content.xml');
+  if (!content) {
+    throw new Error('content.xml not found, not an OpenDocument text file');
+  }
+
+  const text = odtXmlToText(await content.async('string'));
+  const hasImages = Object.keys(zip.files).some(name => name.startsWith('Pictures/') && !zip.files[name].dir);
+
+  return { text, hasImages };
+}
+
+/**
+ * Convert ODF content.xml to text: paragraphs and headings become lines,
+ * list items get a bullet, table cells are separated by tabs and rows by newlines.
+ * Office metadata outside <office:body> is ignored.
+ */
+export function odtXmlToText(xml: string): string {
+  const bodyStart = xml.indexOf('<office:body');
+  const body = bodyStart >= 0 ? xml.slice(bodyStart) : xml;
+
+  let output = '';
+  let listDepth = 0;
+  let listItemOpen = false;
+  let paragraphDepth = 0;
+
+  for (const token of body.match(/<[^>]+>|[^<]+/g) || []) {
+    if (!token.startsWith('<')) {
+      // Whitespace outside paragraphs is insignificant; inside, runs collapse to one space
+      if (paragraphDepth > 0) {
+        output += decodeEntities(token.replace(/\s+/g, ' '));
+      }
+      continue;
+    }
+
+    const tag = /^<(\/?)([\w:.-]+)([^>]*?)(\/?)>$/.exec(token);
+    if (!tag) continue;
+
+    const [, closing, name, attributes, selfClosing] = tag;
+
+    if (closing) {
+      switch (name) {
+        case 'text:p':
+        case 'text:h':
+          paragraphDepth--;
+          output += '\n';
+          break;
+        case 'table:table-cell':
+          output = output.replace(/\n$/, '') + '\t';
+          break;
+        case 'table:table-row':
+          output = output.replace(/\t$/, '') + '\n';
+          break;
+        case 'text:list':
+          listDepth--;
+          break;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'text:list':
+        if (!selfClosing) listDepth++;
+        break;
+      case 'text:list-item':
+        listItemOpen = true;
+        break;
+      case 'text:p':
+      case 'text:h':
+        if (listItemOpen && listDepth > 0) {
+          output += `${'  '.repeat(listDepth - 1)}• `;
+          listItemOpen = false;
+        }
+        if (selfClosing) {
+          output += '\n';
+        } else {
+          paragraphDepth++;
+        }
+        break;
+      case 'text:s': {
+        const count = /text:c="(\d+)"/.exec(attributes);
+        output += ' '.repeat(count ? parseInt(count[1], 10) : 1);
+        break;
+      }
+      case 'text:tab':
+        output += '\t';
+        break;
+      case 'text:line-break':
+        output += '\n';
+        break;
+    }
+  }
+
+  return output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decode named and numeric character references in XML or HTML text
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
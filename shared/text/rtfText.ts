@@ -0,0 +1,196 @@
+import { decodeWindows1252 } from './textDecoding';
+
+// Plain text from RTF documents, shared by src/services and apps/api.
+
+// Destinations whose content is never visible text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'fldinst', 'filetbl', 'revtbl', 'nonshppict',
+]);
+
+// Control words that stand for a character
+const CONTROL_CHARACTERS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  row: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  tab: '\t',
+  cell: '\t',
+  bullet: '•',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // Fallback characters that follow each \uN (set by \ucN)
+}
+
+/**
+ * Extract plain text from an RTF document.
+ * Handles groups, ignorable destinations, \uN Unicode escapes with their
+ * fallback characters, and \'hh bytes in the document's ANSI code page.
+ * Paragraph and line breaks become newlines and table cells become tabs.
+ * @param rtf - RTF source as read from disk (ASCII)
+ * @returns string - Visible document text
+ */
+export function rtfToText(rtf: string): string {
+  if (!rtf.startsWith('{\\rtf')) {
+    throw new Error('Not an RTF document');
+  }
+
+  let codePage = 1252;
+  let output = '';
+  let pendingBytes: number[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let fallbackToSkip = 0;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      output += decodeAnsi(pendingBytes, codePage);
+      pendingBytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    if (state.skip) return;
+    flushBytes();
+    output += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      fallbackToSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      fallbackToSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else {
+        emit(char);
+      }
+      i++;
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = rtf[i + 1];
+
+    if (next === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      i += 4;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!state.skip && !isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      continue;
+    }
+
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+
+    if (next === '*') {
+      // Ignorable destination (\*\keyword): readers that don't know it skip the group
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+
+    if (next === '_') {
+      emit('-');
+      i += 2;
+      continue;
+    }
+
+    if (next === '\r' || next === '\n') {
+      // Escaped line ending is an old-style \par
+      emit('\n');
+      i += 2;
+      continue;
+    }
+
+    const match = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i, i + 48));
+    if (!match) {
+      // Other control symbols (\-, \|, \:) have no visible text
+      i += 2;
+      continue;
+    }
+    i += match[0].length;
+
+    const word = match[1];
+    const param = match[2] === undefined ? undefined : parseInt(match[2], 10);
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'ansicpg' && param !== undefined) {
+      codePage = param;
+    } else if (word === 'uc' && param !== undefined) {
+      state.unicodeSkip = param;
+    } else if (word === 'u' && param !== undefined) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      fallbackToSkip = state.unicodeSkip;
+    } else if (CONTROL_CHARACTERS[word] !== undefined) {
+      emit(CONTROL_CHARACTERS[word]);
+    }
+  }
+  flushBytes();
+
+  return output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decode \'hh bytes with the document code page, falling back to Windows-1252
+ */
+function decodeAnsi(bytes: number[], codePage: number): string {
+  const data = new Uint8Array(bytes);
+  if (codePage !== 1252) {
+    try {
+      return new TextDecoder(`windows-${codePage}`).decode(data);
+    } catch {
+      // Unknown code page label
+    }
+  }
+  return decodeWindows1252(data);
+}
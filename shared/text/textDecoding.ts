@@ -0,0 +1,92 @@
+// Decoding of plain-text uploads whose encoding is unknown, shared by src/services and apps/api.
+
+// Encodings recognised in plain-text uploads
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+}
+
+/**
+ * Decode a plain-text upload whose encoding is unknown.
+ * A byte order mark wins; otherwise UTF-16 is recognised by its pattern of zero
+ * bytes, valid UTF-8 is taken as UTF-8, and anything else is read as Latin-1
+ * (Windows-1252, which is what "ANSI" text files from Windows really are).
+ * @param buffer - Raw file contents
+ * @returns DecodedText - Decoded text without BOM and the detected encoding
+ */
+export function decodeTextBuffer(buffer: Buffer): DecodedText {
+  const encoding = detectEncoding(buffer);
+
+  if (encoding === 'windows-1252') {
+    return { text: decodeWindows1252(buffer), encoding };
+  }
+
+  // TextDecoder drops a byte order mark matching the encoding
+  return { text: new TextDecoder(encoding).decode(buffer), encoding };
+}
+
+// Windows-1252 characters in the 0x80-0x9F range, where ISO-8859-1 has control codes
+const WINDOWS_1252_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž',
+  0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—',
+  0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+/**
+ * Decode Windows-1252 bytes. Node's TextDecoder treats this label as ISO-8859-1
+ * and loses the smart quotes, dashes and bullets Word writes in 0x80-0x9F.
+ */
+export function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += WINDOWS_1252_HIGH[bytes[i]] ?? String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+/**
+ * Detect the encoding of a text buffer
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  if (hasBom(buffer, [0xef, 0xbb, 0xbf])) return 'utf-8';
+  if (hasBom(buffer, [0xff, 0xfe])) return 'utf-16le';
+  if (hasBom(buffer, [0xfe, 0xff])) return 'utf-16be';
+
+  const utf16 = detectUtf16WithoutBom(buffer);
+  if (utf16) return utf16;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+function hasBom(buffer: Buffer, bom: number[]): boolean {
+  return buffer.length >= bom.length && bom.every((byte, index) => buffer[index] === byte);
+}
+
+/**
+ * Text in a Latin script stored as UTF-16 has a zero in every other byte;
+ * which half is zero gives away the byte order
+ */
+function detectUtf16WithoutBom(buffer: Buffer): TextEncoding | null {
+  const sample = buffer.subarray(0, 4096);
+  if (sample.length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
@@ -1,4 +1,90 @@
-import { getAvailableProviders, getProviderConfig } from '../aiProcessor';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getAvailableProviders, getProviderConfig, formatCvWithLangChain, parseAndNormalize } from '../aiProcessor';
+import { DEFAULT_FIXTURE_DIR } from '../fixtureModel';
+import { UsageLedger } from '../usage';
+import { DraftEvent, DRAFT_SECTIONS } from '../draftEvents';
+import { CvDraftSchema } from '../../../shared/schemas/cv.schema';
+
+// CVs with replies recorded in fixtures/llm. To re-record after changing the prompt, point the
+// providers in REPLAY_REGISTRY at real endpoints and run with LLM_FIXTURE_MODE=record
+const CV_TEXT = [
+  'Jane Doe',
+  'principle engineer',
+  '',
+  'Profile',
+  'I am a principle engineer who builds payment systems.',
+  '',
+  'Experience',
+  'Principle Engineer at Acme Ltd',
+  'Jan 2020 - Present',
+  '• I am responsible for the payments platform',
+  '',
+  'Education',
+  'BSc Computer Science, University of Leeds, 2012 - 2015',
+  '',
+  'Skills',
+  'Go, Kubernetes',
+].join('\n');
+
+// The first provider's reply to this one is not JSON
+const FALLBACK_CV_TEXT = CV_TEXT.replace('Jane Doe', 'John Roe');
+
+const LONG_CV_TEXT = [
+  'Dr Jane Doe',
+  'Associate Professor of Computer Science',
+  '',
+  'Profile',
+  'Computer scientist working on distributed systems, with fifteen years of research and teaching at leading universities.',
+  '',
+  'Experience',
+  'Associate Professor, University of Oxford',
+  'Sep 2018 - Present',
+  '• Lead a research group of eight doctoral students working on fault-tolerant distributed databases',
+  '• Teach the graduate course in distributed computing to around sixty students each year',
+  '• Secured two million pounds of research council funding for work on consensus protocols',
+  '• Serve on the programme committees of the main systems conferences',
+  'Lecturer, University of Oxford',
+  'Oct 2014 - Aug 2018',
+  '• Taught undergraduate algorithms and data structures, rated the best course in the department',
+  '• Supervised twenty master\'s theses on storage systems and networking',
+  '• Convened the first-year programming course and rewrote its practical exercises in Python',
+  '• Built the department\'s teaching cluster with industry support from two cloud providers',
+  'Research Fellow, Imperial College London',
+  'Jan 2013 - Sep 2014',
+  '• Published twelve papers on replication and consistency in geo-distributed storage',
+  '• Released an open-source benchmark used by several database vendors',
+  '',
+  'Education',
+  'PhD Computer Science, ETH Zurich, 2008 - 2012',
+  '',
+  'Skills',
+  'Python, Distributed Systems, Teaching',
+].join('\n');
+
+const STUB_DRAFT = {
+  header: { name: 'Jane Doe', title: 'Principal Engineer' },
+  personalDetails: { nationality: 'British', languages: ['English'], dob: '1 Jan 1990', maritalStatus: 'Single' },
+  profile: 'Engineer who builds payment systems.',
+  experience: [{ role: 'Principal Engineer', company: 'Acme Ltd', startDate: 'Jan 2020', endDate: 'Present', bullets: ['Payments platform'] }],
+  education: [{ degree: 'BSc Computer Science', institution: 'University of Leeds', startDate: '2012', endDate: '2015', details: ['Graduated'] }],
+  skills: ['Go'],
+  interests: ['Cycling'],
+  audit: { rulesApplied: [], issues: [] },
+};
+
+const REPLAY_REGISTRY = {
+  providers: {
+    openai: { name: 'OpenAI', type: 'openai', remote: true, apiKey: 'replay', model: 'gpt-4o-mini', temperature: 0, maxTokens: 4000, maxRetries: 0 },
+    anthropic: { name: 'Anthropic', type: 'anthropic', remote: true, apiKey: 'replay', model: 'claude-3-haiku-20240307', temperature: 0, maxTokens: 4000, maxRetries: 0 },
+    // A small context window, so long CVs are chunked
+    local: { name: 'Local LLM', type: 'openai-compatible', remote: false, baseUrl: 'http://127.0.0.1:1/v1', model: 'llama3.1:8b', temperature: 0, maxTokens: 400, contextWindow: 2500, maxRetries: 0 },
+  },
+  tasks: { extraction: { providers: ['openai', 'anthropic'] } },
+};
 
 describe('AI Processor', () => {
   describe('Provider Configuration', () => {
@@ -66,4 +152,355 @@ describe('AI Processor', () => {
       process.env = tempEnv;
     });
   });
+
+  describe('End to end with recorded replies', () => {
+    const originalEnv = { ...process.env };
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+      fs.writeFileSync(path.join(dir, 'providers.json'), JSON.stringify(REPLAY_REGISTRY));
+      process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+      process.env.LLM_FIXTURE_MODE = 'replay';
+      process.env.LLM_FIXTURE_DIR = DEFAULT_FIXTURE_DIR;
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should format a CV from the recorded reply', async () => {
+      const usage = new UsageLedger();
+
+      const draft = await formatCvWithLangChain(CV_TEXT, { usage });
+
+      expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+      expect(draft.header.name).toBe('Jane Doe');
+      expect(draft.experience[0]).toMatchObject({ company: 'Acme Ltd', startDate: 'Jan 2020', endDate: 'Present' });
+      expect(usage.calls).toHaveLength(1);
+      expect(usage.calls[0]).toMatchObject({ provider: 'openai' });
+      expect(usage.calls[0].failed).toBeUndefined();
+      expect(usage.calls[0].promptTokens).toBeGreaterThan(0);
+      expect(draft.generatedBy).toEqual({ prompt: 'ehs@2', models: ['openai:gpt-4o-mini'] });
+      // The model was unsure whether "principle engineer" meant Principal
+      expect(draft.audit.uncertain).toEqual(['Principal Engineer']);
+    });
+
+    it('should fall back to the next provider when a reply is unusable', async () => {
+      const usage = new UsageLedger();
+
+      const draft = await formatCvWithLangChain(FALLBACK_CV_TEXT, { usage });
+
+      expect(draft.header.name).toBe('John Roe');
+      expect(draft.generatedBy?.models).toEqual(['anthropic:claude-3-haiku-20240307']);
+      expect(usage.calls.map(call => [call.provider, Boolean(call.failed)])).toEqual([['openai', true], ['anthropic', false]]);
+    });
+
+    it('should chunk a long CV and merge the drafts', async () => {
+      const usage = new UsageLedger();
+
+      const draft = await formatCvWithLangChain(LONG_CV_TEXT, { providers: ['local'], usage });
+
+      expect(usage.calls.length).toBeGreaterThan(1);
+      expect(draft.header).toEqual({ name: 'Dr Jane Doe', title: 'Associate Professor of Computer Science' });
+      expect(draft.experience.map(entry => entry.role)).toEqual(['Associate Professor', 'Lecturer', 'Research Fellow']);
+      // The Imperial role is split across two chunks; its halves are merged and the placeholder entries dropped
+      expect(draft.experience[2]).toMatchObject({ startDate: 'Jan 2013', endDate: 'Sep 2014' });
+      expect(draft.experience[2].bullets).toHaveLength(2);
+      expect(draft.education).toHaveLength(1);
+      expect(draft.generatedBy).toEqual({ prompt: 'ehs@2', models: ['local:llama3.1:8b'] });
+      expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+    });
+
+    it('should send each section of a draft extracted in one call as the reply comes in', async () => {
+      const events: DraftEvent[] = [];
+
+      const draft = await formatCvWithLangChain(CV_TEXT, { onEvent: event => events.push(event) });
+
+      const sections = events.filter((event): event is Extract<DraftEvent, { type: 'section' }> => event.type === 'section');
+      expect(sections).toHaveLength(events.length);
+      expect(sections.map(event => event.section).sort()).toEqual([...DRAFT_SECTIONS].sort());
+      expect(events[0]).toEqual({ type: 'section', section: 'header', value: draft.header, completed: 0, total: 1 });
+      // Sections holding only placeholders wait for the finished draft
+      expect(sections.find(event => event.section === 'personalDetails')).toMatchObject({ completed: 1 });
+    });
+
+    it('should send sections of a long CV as its chunks are extracted', async () => {
+      const events: DraftEvent[] = [];
+
+      const draft = await formatCvWithLangChain(LONG_CV_TEXT, { providers: ['local'], onEvent: event => events.push(event) });
+
+      const [first, ...rest] = events;
+      expect(first.type).toBe('chunks');
+      const sections = rest.filter((event): event is Extract<DraftEvent, { type: 'section' }> => event.type === 'section');
+      expect(sections).toHaveLength(rest.length);
+      // Sections arrive before the last chunk is done, and the last of each is the finished draft's
+      expect(sections[0].completed).toBeLessThan(sections[0].total);
+      for (const section of DRAFT_SECTIONS) {
+        const sent = sections.filter(event => event.section === section);
+        expect(sent[sent.length - 1].value).toEqual(draft[section]);
+      }
+    });
+
+    it('should normalise the recorded draft', async () => {
+      const draft = await parseAndNormalize(CV_TEXT);
+
+      expect(draft.header.title).toBe('Principle Engineer');
+      expect(draft.profile).toContain('Principal engineer who builds payment systems.');
+      expect(draft.profile).not.toContain('I am');
+      expect(draft.experience[0].bullets).toEqual(['Responsible for the payments platform']);
+    });
+
+    it('should fail without calling out when no reply was recorded', async () => {
+      await expect(formatCvWithLangChain('A CV nobody recorded a reply for'))
+        .rejects.toThrow('No recorded reply from anthropic');
+    });
+
+    describe('record mode', () => {
+      let server: http.Server;
+      let recordDir: string;
+
+      beforeAll(async () => {
+        // Stands in for the real provider while recording
+        server = http.createServer((req, res) => {
+          req.resume();
+          req.on('end', () => {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({
+              id: 'chatcmpl-1',
+              object: 'chat.completion',
+              created: 0,
+              model: 'stub-model',
+              choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(STUB_DRAFT) }, finish_reason: 'stop' }],
+              usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+            }));
+          });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        recordDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorded-'));
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+        fs.writeFileSync(path.join(recordDir, 'providers.json'), JSON.stringify({
+          providers: { stub: { name: 'Stub', type: 'openai-compatible', remote: false, baseUrl, model: 'stub-model', temperature: 0, maxRetries: 0 } },
+          tasks: { extraction: { providers: ['stub'] } },
+        }));
+        process.env.AI_PROVIDERS_CONFIG = path.join(recordDir, 'providers.json');
+        process.env.LLM_FIXTURE_DIR = recordDir;
+      });
+
+      afterAll(async () => {
+        process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+        process.env.LLM_FIXTURE_DIR = DEFAULT_FIXTURE_DIR;
+        process.env.LLM_FIXTURE_MODE = 'replay';
+        fs.rmSync(recordDir, { recursive: true, force: true });
+      });
+
+      it('should save replies that replay offline', async () => {
+        process.env.LLM_FIXTURE_MODE = 'record';
+        const recorded = await formatCvWithLangChain(CV_TEXT);
+
+        const files = fs.readdirSync(path.join(recordDir, 'stub'));
+        expect(files).toHaveLength(1);
+        const fixture = JSON.parse(fs.readFileSync(path.join(recordDir, 'stub', files[0]), 'utf8'));
+        expect(fixture).toMatchObject({ provider: 'stub', model: 'stub-model', reply: { usage: { input_tokens: 10, output_tokens: 20 } } });
+        expect(fixture.messages[0].content).toContain(CV_TEXT);
+
+        // With the provider gone, the recording answers
+        await new Promise(resolve => server.close(resolve));
+        process.env.LLM_FIXTURE_MODE = 'replay';
+        expect(await formatCvWithLangChain(CV_TEXT)).toEqual(recorded);
+      });
+    });
+  });
+
+  describe('Redaction', () => {
+    const originalEnv = { ...process.env };
+    const requests: string[] = [];
+    let server: http.Server;
+    let dir: string;
+
+    beforeAll(async () => {
+      // A remote provider that copies the date of birth token into its draft, as asked
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          requests.push(body);
+          const draft = { ...STUB_DRAFT, personalDetails: { ...STUB_DRAFT.personalDetails, dob: '[DOB_1]' } };
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: 'stub-model',
+            choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(draft) }, finish_reason: 'stop' }],
+          }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redaction-'));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      fs.writeFileSync(path.join(dir, 'providers.json'), JSON.stringify({
+        providers: { cloud: { name: 'Cloud', type: 'openai-compatible', remote: true, allowedPii: ['url'], baseUrl, model: 'stub-model', temperature: 0, maxRetries: 0 } },
+        tasks: { extraction: { providers: ['cloud'] } },
+      }));
+      process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+      delete process.env.LLM_FIXTURE_MODE;
+    });
+
+    afterAll(async () => {
+      process.env = originalEnv;
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should send remote providers only what their policy allows and restore the rest', async () => {
+      const cv = CV_TEXT.replace('principle engineer\n', 'principle engineer\njane@example.com | 07700 900123 | github.com/janedoe\nDOB: 1 Jan 1990\n');
+
+      const draft = await formatCvWithLangChain(cv);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).not.toContain('jane@example.com');
+      expect(requests[0]).not.toContain('07700 900123');
+      expect(requests[0]).not.toContain('1 Jan 1990');
+      expect(requests[0]).toContain('github.com/janedoe');
+      expect(draft.personalDetails.dob).toBe('1 Jan 1990');
+    });
+  });
+
+  describe('Schema repair', () => {
+    const originalEnv = { ...process.env };
+    const requests: any[] = [];
+    let server: http.Server;
+    let dir: string;
+
+    beforeAll(async () => {
+      // A provider whose first draft has no profile, and whose second has one after being told
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          requests.push(JSON.parse(body));
+          const draft = requests.length === 1 ? { ...STUB_DRAFT, profile: undefined, interests: [] } : STUB_DRAFT;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            id: `chatcmpl-${requests.length}`,
+            object: 'chat.completion',
+            created: 0,
+            model: 'stub-model',
+            choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(draft) }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+          }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repair-'));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      fs.writeFileSync(path.join(dir, 'providers.json'), JSON.stringify({
+        providers: { stub: { name: 'Stub', type: 'openai-compatible', remote: false, baseUrl, model: 'stub-model', temperature: 0, maxRetries: 0 } },
+        tasks: { extraction: { providers: ['stub'] } },
+      }));
+      process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+      delete process.env.LLM_FIXTURE_MODE;
+    });
+
+    afterAll(async () => {
+      process.env = originalEnv;
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should send the schema errors back to the model and audit the round', async () => {
+      const usage = new UsageLedger();
+
+      const draft = await formatCvWithLangChain(CV_TEXT, { usage });
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1].messages.map((message: any) => message.role)).toEqual(['user', 'assistant', 'user']);
+      expect(requests[1].messages[2].content).toContain('- profile: Required');
+      expect(draft.profile).toBe(STUB_DRAFT.profile);
+      expect(draft.audit.rulesApplied).toContainEqual(expect.stringMatching(/^Schema repair: round 1 sent \d+ error\(s\) back to the model \(.*profile: Required/));
+      // Recorded by value, so confidence still finds the profile once chunks are merged
+      expect(draft.audit.repaired).toContain(STUB_DRAFT.profile);
+      expect(usage.calls.map(call => Boolean(call.failed))).toEqual([true, false]);
+    });
+  });
+
+  describe('Streaming', () => {
+    const originalEnv = { ...process.env };
+    const events: DraftEvent[] = [];
+    let headerReceived: () => void;
+    let headerBeforeEnd = false;
+    let server: http.Server;
+    let dir: string;
+
+    beforeAll(async () => {
+      // A provider that streams the first sections of its draft, then waits for the client to show them
+      server = http.createServer((req, res) => {
+        req.resume();
+        req.on('end', async () => {
+          const reply = JSON.stringify(STUB_DRAFT, null, 2);
+          const cut = reply.indexOf('"experience"');
+          const chunk = (delta: object, extra: object = {}) => `data: ${JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion.chunk',
+            created: 0,
+            model: 'stub-model',
+            choices: [{ index: 0, delta, finish_reason: null }],
+            ...extra,
+          })}\n\n`;
+
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.write(chunk({ role: 'assistant', content: reply.slice(0, cut) }));
+          headerBeforeEnd = await Promise.race([
+            new Promise<boolean>(resolve => (headerReceived = () => resolve(true))),
+            new Promise<boolean>(resolve => setTimeout(() => resolve(false), 2000)),
+          ]);
+          res.write(chunk({ content: reply.slice(cut) }));
+          res.write(chunk({}, { choices: [], usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 } }));
+          res.end('data: [DONE]\n\n');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'streaming-'));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      fs.writeFileSync(path.join(dir, 'providers.json'), JSON.stringify({
+        providers: { stub: { name: 'Stub', type: 'openai-compatible', remote: false, baseUrl, model: 'stub-model', temperature: 0, maxRetries: 0 } },
+        tasks: { extraction: { providers: ['stub'] } },
+      }));
+      process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+      delete process.env.LLM_FIXTURE_MODE;
+    });
+
+    afterAll(async () => {
+      process.env = originalEnv;
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should send sections while the model is still writing the rest', async () => {
+      const usage = new UsageLedger();
+
+      const draft = await formatCvWithLangChain(CV_TEXT, {
+        usage,
+        onEvent: event => {
+          events.push(event);
+          if (event.type === 'section' && event.section === 'header') headerReceived();
+        },
+      });
+
+      expect(headerBeforeEnd).toBe(true);
+      expect(events.slice(0, 3).map(event => event.type === 'section' && [event.section, event.completed])).toEqual([
+        ['header', 0],
+        ['personalDetails', 0],
+        ['profile', 0],
+      ]);
+      expect(draft).toMatchObject({ header: STUB_DRAFT.header, experience: STUB_DRAFT.experience });
+      expect(usage.calls[0]).toMatchObject({ provider: 'stub', promptTokens: 10, completionTokens: 20 });
+    });
+  });
 });
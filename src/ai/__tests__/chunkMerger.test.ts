@@ -0,0 +1,165 @@
+import { mergeChunkResults } from '../chunkMerger';
+import { dateSortValue, PLACEHOLDER } from '../heuristicExtractor';
+import { CvDraft, CvDraftSchema } from '../../../shared/schemas/cv.schema';
+
+const EMPTY_PERSONAL_DETAILS = { nationality: PLACEHOLDER, languages: [PLACEHOLDER], dob: PLACEHOLDER, maritalStatus: PLACEHOLDER };
+
+// A long academic CV extracted in three chunks. Each chunk repeats the job or course it starts
+// or ends in the middle of, with part of its bullets and sometimes reworded or less precise
+const CHUNKS: CvDraft[] = [
+  {
+    header: { name: 'Dr Jane Doe', title: PLACEHOLDER },
+    personalDetails: { nationality: 'British', languages: ['English'], dob: PLACEHOLDER, maritalStatus: PLACEHOLDER },
+    profile: PLACEHOLDER,
+    experience: [
+      {
+        role: 'Associate Professor',
+        company: 'University of Oxford',
+        startDate: 'Sep 2018',
+        endDate: 'Present',
+        bullets: ['Lead a research group of eight', 'Teach graduate courses in'],
+      },
+    ],
+    education: [{ degree: 'PhD Computer Science', institution: 'ETH Zurich', startDate: '2008', endDate: '2012', details: ['Thesis on distributed systems'] }],
+    skills: ['Python', 'Distributed Systems'],
+    interests: ['Rowing'],
+    audit: { rulesApplied: ['DATE FORMAT'], issues: [] },
+  },
+  {
+    header: { name: 'Jane Doe', title: 'Associate Professor of Computer Science' },
+    personalDetails: { ...EMPTY_PERSONAL_DETAILS, languages: ['English', 'German'] },
+    profile: 'Computer scientist working on distributed systems, with fifteen years of research and teaching.',
+    experience: [
+      {
+        role: 'Associate Prof.',
+        company: 'Oxford University',
+        startDate: '2018',
+        endDate: 'Present',
+        bullets: ['Teach graduate courses in distributed computing', 'Secured £2m in grant funding'],
+      },
+      {
+        role: 'Lecturer',
+        company: 'University of Oxford',
+        startDate: 'Oct 2014',
+        endDate: 'Aug 2018',
+        bullets: ['Taught undergraduate algorithms'],
+      },
+    ],
+    education: [{ degree: 'PhD in Computer Science', institution: 'ETH Zürich', startDate: 'Sep 2008', endDate: 'Jun 2012', details: ['Advisor: Prof. Müller'] }],
+    skills: ['python', 'Java', 'JavaScript'],
+    interests: ['rowing', 'Chess'],
+    audit: { rulesApplied: ['DATE FORMAT'], issues: ['Date of birth not found'] },
+  },
+  {
+    header: { name: 'Jane Doe', title: PLACEHOLDER },
+    personalDetails: EMPTY_PERSONAL_DETAILS,
+    profile: 'Computer scientist.',
+    experience: [
+      {
+        role: 'Research Fellow',
+        company: 'Imperial College London',
+        startDate: 'Jan 2013',
+        endDate: 'Sep 2014',
+        bullets: ['Published twelve papers'],
+      },
+    ],
+    education: [{ degree: 'MSc Computer Science', institution: 'ETH Zurich', startDate: 'Sep 2006', endDate: 'Jul 2008', details: [PLACEHOLDER] }],
+    skills: [PLACEHOLDER],
+    interests: [PLACEHOLDER],
+    audit: { rulesApplied: ['DATE FORMAT'], issues: ['Date of birth not found'] },
+  },
+];
+
+describe('Chunk Merging', () => {
+  const merged = mergeChunkResults(CHUNKS);
+
+  it('should merge the same job found in two chunks and union its bullets', () => {
+    expect(merged.experience).toHaveLength(3);
+    expect(merged.experience[0]).toEqual({
+      role: 'Associate Professor',
+      company: 'University of Oxford',
+      startDate: 'Sep 2018',
+      endDate: 'Present',
+      bullets: ['Lead a research group of eight', 'Teach graduate courses in distributed computing', 'Secured £2m in grant funding'],
+    });
+  });
+
+  it('should keep different roles at the same employer apart', () => {
+    expect(merged.experience.map(entry => entry.role)).toEqual(['Associate Professor', 'Lecturer', 'Research Fellow']);
+  });
+
+  it('should merge education the same way', () => {
+    expect(merged.education).toHaveLength(2);
+    expect(merged.education[0]).toMatchObject({
+      degree: 'PhD in Computer Science',
+      startDate: 'Sep 2008',
+      endDate: 'Jun 2012',
+      details: ['Thesis on distributed systems', 'Advisor: Prof. Müller'],
+    });
+    expect(merged.education[1].details).toEqual([PLACEHOLDER]);
+  });
+
+  it('should sort entries newest first', () => {
+    const shuffled = mergeChunkResults([CHUNKS[2], CHUNKS[1]]);
+
+    expect(shuffled.experience.map(entry => entry.startDate)).toEqual(['2018', 'Oct 2014', 'Jan 2013']);
+    expect(shuffled.education.map(entry => entry.startDate)).toEqual(['Sep 2008', 'Sep 2006']);
+  });
+
+  it('should take the most complete header and profile', () => {
+    expect(merged.header).toEqual({ name: 'Jane Doe', title: 'Associate Professor of Computer Science' });
+    expect(merged.profile).toBe(CHUNKS[1].profile);
+  });
+
+  it('should take each personal detail from the chunk that found it', () => {
+    expect(merged.personalDetails).toEqual({
+      nationality: 'British',
+      languages: ['English', 'German'],
+      dob: PLACEHOLDER,
+      maritalStatus: PLACEHOLDER,
+    });
+  });
+
+  it('should union skills and interests ignoring case and placeholders', () => {
+    expect(merged.skills).toEqual(['Python', 'Distributed Systems', 'Java', 'JavaScript']);
+    expect(merged.interests).toEqual(['Rowing', 'Chess']);
+    expect(merged.audit.issues).toEqual(['Date of birth not found']);
+    expect(CvDraftSchema.safeParse(merged).success).toBe(true);
+  });
+
+  it('should keep every value a chunk was unsure of or had repaired', () => {
+    const unsure = mergeChunkResults([
+      { ...CHUNKS[1], audit: { ...CHUNKS[1].audit, uncertain: ['Lecturer'], repaired: ['Jan 2013'] } },
+      { ...CHUNKS[2], audit: { ...CHUNKS[2].audit, uncertain: ['Lecturer', 'Jan 2013'] } },
+    ]);
+
+    expect(unsure.audit.uncertain).toEqual(['Lecturer', 'Jan 2013']);
+    expect(unsure.audit.repaired).toEqual(['Jan 2013']);
+    expect(merged.audit).not.toHaveProperty('uncertain');
+    expect(merged.audit).not.toHaveProperty('repaired');
+  });
+
+  it('should drop the placeholder entries of chunks that had none', () => {
+    const empty = { role: PLACEHOLDER, company: PLACEHOLDER, startDate: PLACEHOLDER, endDate: PLACEHOLDER, bullets: [PLACEHOLDER] };
+    const withEmpty = mergeChunkResults([{ ...CHUNKS[2], experience: [empty] }, CHUNKS[1]]);
+
+    expect(withEmpty.experience.map(entry => entry.role)).toEqual(['Associate Prof.', 'Lecturer']);
+    expect(mergeChunkResults([{ ...CHUNKS[2], experience: [empty] }, { ...CHUNKS[1], experience: [empty] }]).experience).toEqual([empty]);
+  });
+
+  it('should return a single chunk as it is', () => {
+    expect(mergeChunkResults([CHUNKS[0]])).toBe(CHUNKS[0]);
+    expect(() => mergeChunkResults([])).toThrow('No chunks were processed successfully');
+  });
+
+  describe('dateSortValue', () => {
+    it('should order normalised dates without parsing them with Date', () => {
+      expect(dateSortValue('Jan 2020')).toBe(2020 * 12);
+      expect(dateSortValue('Dec 2019')).toBe(2019 * 12 + 11);
+      expect(dateSortValue('2019')).toBe(2019 * 12);
+      expect(dateSortValue('03/2017')).toBe(dateSortValue('Mar 2017'));
+      expect(dateSortValue('Present')).toBe(Infinity);
+      expect(dateSortValue(PLACEHOLDER)).toBeNull();
+    });
+  });
+});
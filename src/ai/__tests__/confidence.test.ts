@@ -0,0 +1,190 @@
+import { scoreDraftConfidence } from '../confidence';
+import { verifyGrounding } from '../groundingVerifier';
+import { traceDraftToSource } from '../provenance';
+import { PLACEHOLDER } from '../heuristicExtractor';
+import { findFlaggedPaths, findValuePaths, lowConfidencePaths, scoreConfidence } from '../../../shared/confidence/confidence';
+import { CvDraft } from '../../../shared/schemas/cv.schema';
+
+const RAW_TEXT = [
+  'Jane Doe',
+  'Head of Engineering',
+  '',
+  'Experience',
+  'Head of Engineering, Acme Ltd',
+  'Jan 2018 - Present',
+  '• Grew the platform team from four to twenty engineers',
+  'Software Engineer, Globex',
+  'Mar 2012 - Dec 2017',
+  '• Built the billing service',
+  '',
+  'Education',
+  'BSc Computer Science, University of Leeds, 2008 - 2011',
+  '',
+  'Skills',
+  'Go, Kubernetes',
+].join('\n');
+
+const DRAFT: CvDraft = {
+  header: { name: 'Jane Doe', title: 'Head of Engineering' },
+  personalDetails: { nationality: PLACEHOLDER, languages: ['English'], dob: PLACEHOLDER, maritalStatus: PLACEHOLDER },
+  profile: 'Engineering leader who grows platform teams.',
+  experience: [
+    { role: 'Head of Engineering', company: 'Acme Ltd', startDate: 'Jan 2018', endDate: 'Present', bullets: ['Grew the platform team from four to twenty engineers'] },
+    { role: 'Senior Software Engineer', company: 'Globex', startDate: 'Mar 2012', endDate: 'Dec 2017', bullets: ['Built the billing service'] },
+  ],
+  education: [{ degree: 'BSc Computer Science', institution: 'University of Leeds', startDate: '2008', endDate: '2011', details: [PLACEHOLDER] }],
+  skills: ['Go', 'Kubernetes', 'Terraform'],
+  interests: [PLACEHOLDER],
+  audit: {
+    rulesApplied: ['DATE FORMAT', 'Schema repair: round 1 sent 1 error(s) back to the model (experience.1.bullets: At least one bullet point is required)'],
+    issues: ['Could not confirm the seniority of "Senior Software Engineer"'],
+    uncertain: ['Mar 2012'],
+    repaired: ['Built the billing service'],
+  },
+};
+
+describe('Field Confidence', () => {
+  describe('scoreConfidence', () => {
+    const fields = [
+      { path: 'header.name', value: 'Jane Doe' },
+      { path: 'experience[0].company', value: 'Acme' },
+      { path: 'experience[0].bullets[0]', value: 'Grew the team' },
+      { path: 'profile', value: 'Engineering leader' },
+      { path: 'interests[0]', value: PLACEHOLDER },
+    ];
+
+    it('should start from grounding scores, then from how the provenance was found', () => {
+      expect(scoreConfidence(fields, {
+        grounding: { 'experience[0].company': 0.5 },
+        provenance: {
+          'header.name': { start: 0, end: 8, match: 'exact' },
+          'experience[0].company': { start: 40, end: 44, match: 'exact' },
+          'experience[0].bullets[0]': { start: 60, end: 80, match: 'fuzzy' },
+        },
+        placeholder: PLACEHOLDER,
+      })).toEqual({
+        'header.name': 1,
+        'experience[0].company': 0.5,
+        'experience[0].bullets[0]': 0.75,
+        'profile': 0.4,
+        'interests[0]': 0,
+      });
+    });
+
+    it('should lower the fields under flagged and repaired paths', () => {
+      const confidence = scoreConfidence(fields, {
+        provenance: { 'header.name': { start: 0, end: 8, match: 'exact' } },
+        flagged: ['header.name'],
+        repaired: ['experience[0]'],
+      });
+
+      expect(confidence['header.name']).toBe(0.6);
+      expect(confidence['experience[0].company']).toBe(0.28);
+      expect(confidence['experience[0].bullets[0]']).toBe(0.28);
+      expect(lowConfidencePaths(confidence)).toEqual(['experience[0].company', 'experience[0].bullets[0]', 'profile', 'interests[0]']);
+    });
+
+    it('should lower the values the model was unsure of', () => {
+      const confidence = scoreConfidence(fields, {
+        provenance: { 'header.name': { start: 0, end: 8, match: 'exact' } },
+        uncertain: ['header.name'],
+      });
+
+      expect(confidence['header.name']).toBe(0.5);
+      expect(lowConfidencePaths(confidence)).toContain('header.name');
+    });
+  });
+
+  describe('findValuePaths', () => {
+    const fields = [
+      { path: 'experience[0].endDate', value: 'Present' },
+      { path: 'experience[1].company', value: 'Globex' },
+      { path: 'experience[1].endDate', value: 'Present' },
+    ];
+
+    it('should find the fields holding each value the audit quotes', () => {
+      expect(findValuePaths([' globex '], fields)).toEqual(['experience[1].company']);
+      // The same value written twice is doubted in both places
+      expect(findValuePaths(['Present'], fields)).toEqual(['experience[0].endDate', 'experience[1].endDate']);
+      expect(findValuePaths(['Initech', ''], fields)).toEqual([]);
+      expect(findValuePaths(undefined, fields)).toEqual([]);
+    });
+  });
+
+  describe('findFlaggedPaths', () => {
+    const fields = [
+      { path: 'header.title', value: 'CTO' },
+      { path: 'experience[1].role', value: 'Analyst' },
+      { path: 'experience[1].company', value: 'Globex' },
+      { path: 'experience[10].company', value: 'Initech' },
+    ];
+
+    it('should flag the fields an issue names by path', () => {
+      expect(findFlaggedPaths(['Providers disagree on header.title: "CTO" (openai), "Chief Technology Officer" (anthropic)'], fields))
+        .toEqual(['header.title']);
+      expect(findFlaggedPaths(['Dates of experience[1] overlap the next role'], fields))
+        .toEqual(['experience[1].role', 'experience[1].company']);
+      expect(findFlaggedPaths(['experience[1].company may be a subsidiary'], fields)).toEqual(['experience[1].company']);
+    });
+
+    it('should flag the fields whose value an issue quotes', () => {
+      expect(findFlaggedPaths(['Could not tell whether the employer was Globex or a client'], fields)).toEqual(['experience[1].company']);
+      // Too short to tell which field is meant
+      expect(findFlaggedPaths(['CTO title may be an abbreviation'], fields)).toEqual([]);
+    });
+  });
+
+  describe('scoreDraftConfidence', () => {
+    const grounding = verifyGrounding(DRAFT, RAW_TEXT);
+    const confidence = scoreDraftConfidence(grounding.draft, {
+      audit: DRAFT.audit,
+      grounding: grounding.report,
+      provenance: traceDraftToSource(grounding.draft, RAW_TEXT),
+    });
+
+    it('should trust values found in the text that nobody raised a problem with', () => {
+      expect(confidence['header.name']).toBe(1);
+      expect(confidence['experience[0].company']).toBe(1);
+      expect(confidence['skills[1]']).toBe(1);
+    });
+
+    it('should doubt values missing from the text, reported by the model or repaired', () => {
+      expect(confidence['skills[2]']).toBe(0);
+      expect(confidence['interests[0]']).toBe(0);
+      expect(confidence['experience[1].role']).toBeLessThan(0.6);
+      expect(confidence['experience[1].bullets[0]']).toBe(0.7);
+      expect(confidence['experience[1].company']).toBe(1);
+      expect(confidence['experience[1].startDate']).toBe(0.5);
+    });
+
+    it('should score only values that came from the text', () => {
+      expect(Object.keys(confidence).some(path => path.startsWith('audit') || path.startsWith('generatedBy'))).toBe(false);
+    });
+
+    it('should doubt the repaired values wherever merging or voting moved their entries', () => {
+      const reordered = { ...DRAFT, experience: [DRAFT.experience[1], DRAFT.experience[0]] };
+      const scored = scoreDraftConfidence(reordered, { provenance: traceDraftToSource(reordered, RAW_TEXT) });
+
+      expect(scored['experience[0].bullets[0]']).toBe(0.7);
+      expect(scored['experience[1].bullets[0]']).toBe(1);
+    });
+
+    it('should score the entries strict grounding kept, not the ones it removed before them', () => {
+      const invented: CvDraft = {
+        ...DRAFT,
+        experience: [{ ...DRAFT.experience[0], company: 'Initech', role: 'Chief Operating Officer' }, DRAFT.experience[1]],
+      };
+      const strict = verifyGrounding(invented, RAW_TEXT, { strict: true });
+      const scored = scoreDraftConfidence(strict.draft, {
+        audit: invented.audit,
+        grounding: strict.report,
+        provenance: traceDraftToSource(strict.draft, RAW_TEXT),
+      });
+
+      expect(strict.draft.experience.map(entry => entry.company)).toEqual(['Globex']);
+      expect(scored['experience[0].company']).toBe(1);
+      expect(scored['experience[0].endDate']).toBe(1);
+      expect(scored['experience[1].company']).toBeUndefined();
+    });
+  });
+});
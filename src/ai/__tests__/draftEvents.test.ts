@@ -0,0 +1,87 @@
+import { DraftEvent, DraftStream, completedMembers, completedSections } from '../draftEvents';
+import { PLACEHOLDER } from '../heuristicExtractor';
+import { CvDraft } from '../../../shared/schemas/cv.schema';
+
+const PLACEHOLDER_JOB = { role: PLACEHOLDER, company: PLACEHOLDER, startDate: PLACEHOLDER, endDate: PLACEHOLDER, bullets: [PLACEHOLDER] };
+
+// What the chunk holding only the top of a CV returns
+const FIRST_CHUNK: CvDraft = {
+  header: { name: 'Jane Doe', title: 'Head of Engineering' },
+  personalDetails: { nationality: PLACEHOLDER, languages: [PLACEHOLDER], dob: PLACEHOLDER, maritalStatus: PLACEHOLDER },
+  profile: 'Engineering leader who grows platform teams.',
+  experience: [PLACEHOLDER_JOB],
+  education: [{ degree: PLACEHOLDER, institution: PLACEHOLDER, startDate: PLACEHOLDER, endDate: PLACEHOLDER, details: [PLACEHOLDER] }],
+  skills: ['Go'],
+  interests: [PLACEHOLDER],
+  audit: { rulesApplied: [], issues: [] },
+};
+
+describe('Draft Events', () => {
+  let events: DraftEvent[];
+  let stream: DraftStream;
+
+  beforeEach(() => {
+    events = [];
+    stream = new DraftStream(event => events.push(event));
+  });
+
+  const sent = () => events.map(event => (event.type === 'section' ? event.section : event.type));
+
+  it('should hold back placeholder sections until the last chunk is in', () => {
+    stream.chunks(2);
+    stream.update(FIRST_CHUNK, 1);
+
+    expect(sent()).toEqual(['chunks', 'header', 'profile', 'skills']);
+    expect(events[1]).toEqual({ type: 'section', section: 'header', value: FIRST_CHUNK.header, completed: 1, total: 2 });
+
+    stream.update(FIRST_CHUNK);
+    expect(sent().slice(4)).toEqual(['personalDetails', 'experience', 'education', 'interests']);
+  });
+
+  it('should only send sections that changed', () => {
+    stream.update(FIRST_CHUNK);
+    events = [];
+
+    stream.update({ ...FIRST_CHUNK, skills: ['Go', 'Kubernetes'] });
+
+    expect(events).toEqual([{ type: 'section', section: 'skills', value: ['Go', 'Kubernetes'], completed: 1, total: 1 }]);
+  });
+
+  it('should send the sections a partial reply has so far', () => {
+    stream.update({ header: FIRST_CHUNK.header, interests: FIRST_CHUNK.interests }, 0);
+    stream.update({ header: FIRST_CHUNK.header, profile: FIRST_CHUNK.profile }, 0);
+
+    expect(sent()).toEqual(['header', 'profile']);
+    expect(events[0]).toMatchObject({ completed: 0, total: 1 });
+  });
+
+  it('should not fail the extraction when the listener throws', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing = new DraftStream(() => {
+      throw new Error('Client went away');
+    });
+
+    expect(() => failing.update(FIRST_CHUNK)).not.toThrow();
+    expect(warn).toHaveBeenCalledWith('⚠️ Draft event listener failed:', 'Client went away');
+    warn.mockRestore();
+  });
+
+  describe('completedSections', () => {
+    const reply = '```json\n' + JSON.stringify(FIRST_CHUNK, null, 2) + '\n```';
+
+    it('should read the members whose values the model has finished writing', () => {
+      const cut = reply.indexOf('"Engineering leader');
+
+      expect(completedMembers(reply.slice(0, cut))).toEqual({ header: FIRST_CHUNK.header, personalDetails: FIRST_CHUNK.personalDetails });
+      expect(completedMembers(reply.slice(0, reply.indexOf('"experience')))).toHaveProperty('profile', FIRST_CHUNK.profile);
+      expect(completedMembers(reply)).toEqual(JSON.parse(JSON.stringify(FIRST_CHUNK)));
+      expect(completedMembers('{"profile": "Braces { and quotes \\" in text", "skills": [')).toEqual({ profile: 'Braces { and quotes " in text' });
+      expect(completedMembers('Thinking...')).toEqual({});
+    });
+
+    it('should only keep draft sections that pass the schema', () => {
+      expect(completedSections('{"header": {"name": "Jane Doe"}, "profile": "Leader.", "notes": "x", "skills": []}'))
+        .toEqual({ profile: 'Leader.' });
+    });
+  });
+});
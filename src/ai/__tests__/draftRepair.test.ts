@@ -0,0 +1,110 @@
+import { fixDraft, parseDraftWithRepair, repairedPaths, repairedValues } from '../draftRepair';
+import { PLACEHOLDER } from '../heuristicExtractor';
+
+const VALID_DRAFT = {
+  header: { name: 'Jane Doe', title: 'Principal Engineer' },
+  personalDetails: { nationality: 'British', languages: ['English'], dob: '1 Jan 1990', maritalStatus: 'Single' },
+  profile: 'Engineer who builds payment systems.',
+  experience: [{ role: 'Principal Engineer', company: 'Acme Ltd', startDate: 'Jan 2020', endDate: 'Present', bullets: ['Payments platform'] }],
+  education: [{ degree: 'BSc Computer Science', institution: 'University of Leeds', startDate: '2012', endDate: '2015', details: ['Graduated'] }],
+  skills: ['Go'],
+  interests: ['Cycling'],
+  audit: { rulesApplied: [], issues: [] },
+};
+
+const noCorrection = () => Promise.reject(new Error('Should not have asked the model'));
+
+describe('Draft Repair', () => {
+  describe('deterministic fixes', () => {
+    it('should drop empty items, fill empty lists and remove an invalid photo URL', () => {
+      const { draft, fixes } = fixDraft({
+        ...VALID_DRAFT,
+        header: { ...VALID_DRAFT.header, photoUrl: 'not a url' },
+        personalDetails: { ...VALID_DRAFT.personalDetails, maritalStatus: null },
+        experience: [{ ...VALID_DRAFT.experience[0], startDate: 2020, bullets: ['Payments platform', '', '  '] }],
+        skills: 'Go, Kubernetes',
+        interests: [],
+        audit: undefined,
+      });
+
+      expect(draft).toEqual({
+        ...VALID_DRAFT,
+        personalDetails: { ...VALID_DRAFT.personalDetails, maritalStatus: PLACEHOLDER },
+        experience: [{ ...VALID_DRAFT.experience[0], startDate: '2020' }],
+        skills: ['Go', 'Kubernetes'],
+        interests: [PLACEHOLDER],
+      });
+      expect(fixes).toEqual([
+        'removed invalid header.photoUrl',
+        `filled missing personalDetails.maritalStatus with "${PLACEHOLDER}"`,
+        'removed 2 empty item(s) from experience[0].bullets',
+        `filled empty interests with "${PLACEHOLDER}"`,
+      ]);
+    });
+
+    it('should leave missing content for the model', () => {
+      const { draft, fixes } = fixDraft({ ...VALID_DRAFT, profile: '', experience: [] });
+
+      expect(draft).toMatchObject({ profile: '', experience: [] });
+      expect(fixes).toEqual([]);
+    });
+  });
+
+  describe('parseDraftWithRepair', () => {
+    it('should accept a valid reply in a code block without asking again', async () => {
+      const result = await parseDraftWithRepair('```json\n' + JSON.stringify(VALID_DRAFT) + '\n```', noCorrection, 2);
+
+      expect(result).toEqual({ draft: VALID_DRAFT, repairs: [] });
+    });
+
+    it('should audit the deterministic fixes it made', async () => {
+      const result = await parseDraftWithRepair(JSON.stringify({ ...VALID_DRAFT, interests: [] }), noCorrection, 2);
+
+      expect(result.draft.interests).toEqual([PLACEHOLDER]);
+      expect(result.repairs).toEqual([`Schema repair: filled empty interests with "${PLACEHOLDER}"`]);
+    });
+
+    it('should send the remaining errors back to the model', async () => {
+      const requestCorrection = jest.fn().mockResolvedValue(JSON.stringify(VALID_DRAFT));
+
+      const result = await parseDraftWithRepair(JSON.stringify({ ...VALID_DRAFT, profile: undefined }), requestCorrection, 2);
+
+      expect(requestCorrection).toHaveBeenCalledTimes(1);
+      expect(requestCorrection.mock.calls[0][0]).toEqual(['profile: Required']);
+      expect(result.draft).toEqual(VALID_DRAFT);
+      expect(result.repairs).toEqual(['Schema repair: round 1 sent 1 error(s) back to the model (profile: Required)']);
+    });
+
+    it('should give up after the last round', async () => {
+      const invalid = JSON.stringify({ ...VALID_DRAFT, experience: [] });
+      const requestCorrection = jest.fn().mockResolvedValue(invalid);
+
+      await expect(parseDraftWithRepair(invalid, requestCorrection, 2)).rejects.toThrow('Draft failed the schema after 2 correction round(s): experience:');
+      expect(requestCorrection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not repair replies that are not JSON', async () => {
+      await expect(parseDraftWithRepair('Sorry, I cannot help with that.', noCorrection, 2)).rejects.toThrow('Reply is not JSON');
+    });
+  });
+
+  it('should read the repaired fields back from the audit', () => {
+    expect(repairedPaths([
+      'DATE FORMAT',
+      'Schema repair: removed 2 empty item(s) from experience[0].bullets',
+      'Schema repair: round 1 sent 2 error(s) back to the model (profile: Required; education.1.details.0: Detail cannot be empty)',
+      'Schema repair: filled empty interests with "Not specified"',
+    ])).toEqual(['experience[0].bullets', 'profile', 'education[1].details[0]', 'interests']);
+  });
+
+  it('should record the values under the repaired fields, leaving out placeholders', () => {
+    const draft = { ...VALID_DRAFT, interests: [PLACEHOLDER] };
+
+    expect(repairedValues(draft, [
+      'Schema repair: removed 1 empty item(s) from experience[0].bullets',
+      'Schema repair: round 1 sent 1 error(s) back to the model (education.0: Required)',
+      'Schema repair: filled empty interests with "Not specified"',
+    ])).toEqual(['Payments platform', 'BSc Computer Science', 'University of Leeds', '2012', '2015', 'Graduated']);
+    expect(repairedValues(draft, ['DATE FORMAT'])).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { voteOnDrafts, ENSEMBLE_RULE_PREFIX } from '../ensemble';
+import { formatCvWithLangChain } from '../aiProcessor';
+import { CvDraft, CvDraftSchema } from '../../../shared/schemas/cv.schema';
+
+const BASE_DRAFT: CvDraft = {
+  header: { name: 'Jane Doe', title: 'Chief Executive Officer' },
+  personalDetails: { nationality: 'British', languages: ['English', 'French'], dob: '12 Mar 1968', maritalStatus: 'Married' },
+  profile: 'Board-level executive with twenty years of experience.',
+  experience: [
+    { role: 'Chief Executive Officer', company: 'Acme Ltd', startDate: 'Jan 2015', endDate: 'Present', bullets: ['Doubled revenue'] },
+    { role: 'Chief Operating Officer', company: 'Globex', startDate: 'Mar 2008', endDate: 'Dec 2014', bullets: ['Ran operations'] },
+  ],
+  education: [{ degree: 'MBA', institution: 'INSEAD', startDate: 'Sep 2006', endDate: 'Jul 2007', details: ['Distinction'] }],
+  skills: ['Strategy', 'M&A', 'Turnarounds'],
+  interests: ['Sailing'],
+  audit: { rulesApplied: ['DATE FORMAT'], issues: [] },
+};
+
+function variant(change: (draft: CvDraft) => void): CvDraft {
+  const draft = JSON.parse(JSON.stringify(BASE_DRAFT));
+  change(draft);
+  return draft;
+}
+
+describe('Ensemble Extraction', () => {
+  describe('voteOnDrafts', () => {
+    it('should keep values every provider agrees on without raising issues', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: BASE_DRAFT },
+        { provider: 'anthropic', draft: variant(d => (d.header.name = 'JANE  DOE')) },
+      ]);
+
+      expect(draft.header.name).toBe('Jane Doe');
+      expect(draft.audit.issues).toEqual([]);
+      expect(draft.audit.rulesApplied).toEqual(['DATE FORMAT', `${ENSEMBLE_RULE_PREFIX} (openai, anthropic)`]);
+    });
+
+    it('should keep the majority value and record the alternative', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: variant(d => (d.header.title = 'CEO')) },
+        { provider: 'anthropic', draft: BASE_DRAFT },
+        { provider: 'gemini', draft: BASE_DRAFT },
+      ]);
+
+      expect(draft.header.title).toBe('Chief Executive Officer');
+      expect(draft.audit.issues).toEqual([
+        'Providers disagree on header.title: "CEO" (openai) vs "Chief Executive Officer" (anthropic, gemini); kept the majority value "Chief Executive Officer"',
+      ]);
+    });
+
+    it('should keep the first provider\'s value when there is no majority', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: BASE_DRAFT },
+        { provider: 'anthropic', draft: variant(d => (d.personalDetails.dob = '21 Mar 1968')) },
+      ]);
+
+      expect(draft.personalDetails.dob).toBe('12 Mar 1968');
+      expect(draft.audit.issues[0]).toContain('"12 Mar 1968" (openai) vs "21 Mar 1968" (anthropic); kept openai\'s value');
+    });
+
+    it('should vote on list items and report the ones not every provider found', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: variant(d => d.skills.push('Golf')) },
+        { provider: 'anthropic', draft: variant(d => d.skills.push('Board Governance')) },
+        { provider: 'gemini', draft: variant(d => d.skills.push('board governance')) },
+      ]);
+
+      expect(draft.skills).toEqual(['Strategy', 'M&A', 'Turnarounds', 'Board Governance']);
+      expect(draft.audit.issues).toEqual([
+        'Not every provider found these skills items, kept: "Board Governance" (anthropic, gemini)',
+        'Only a minority of providers found these skills items, not kept: "Golf" (openai)',
+      ]);
+    });
+
+    it('should match experience entries across providers and vote on their fields', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: BASE_DRAFT },
+        { provider: 'anthropic', draft: variant(d => (d.experience[1].endDate = 'Nov 2014')) },
+        { provider: 'gemini', draft: variant(d => d.experience.reverse()) },
+      ]);
+
+      expect(draft.experience.map(entry => entry.company)).toEqual(['Acme Ltd', 'Globex']);
+      expect(draft.experience[1]).toEqual(BASE_DRAFT.experience[1]);
+      expect(draft.audit.issues).toEqual([
+        'Providers disagree on experience[1].endDate: "Dec 2014" (openai, gemini) vs "Nov 2014" (anthropic); kept the majority value "Dec 2014"',
+      ]);
+      expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+    });
+
+    it('should fall back to the first provider\'s list when nothing is in common', () => {
+      const draft = voteOnDrafts([
+        { provider: 'openai', draft: variant(d => (d.interests = ['Sailing'])) },
+        { provider: 'anthropic', draft: variant(d => (d.interests = ['Chess'])) },
+        { provider: 'gemini', draft: variant(d => (d.interests = ['Opera'])) },
+      ]);
+
+      expect(draft.interests).toEqual(['Sailing']);
+      expect(draft.audit.issues).toContain('Providers found no interests items in common; kept openai\'s');
+    });
+  });
+
+  describe('formatCvWithLangChain', () => {
+    const originalEnv = { ...process.env };
+    const replies: Record<string, () => string> = {};
+    let server: http.Server;
+    let dir: string;
+
+    beforeAll(async () => {
+      // One OpenAI-compatible server answering for every model, as each provider
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const { model } = JSON.parse(body);
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model,
+            choices: [{ index: 0, message: { role: 'assistant', content: replies[model]() }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+          }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+      const provider = (model: string) => ({ name: model, type: 'openai-compatible', remote: false, baseUrl, model, temperature: 0, maxRetries: 0 });
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ensemble-'));
+      fs.writeFileSync(path.join(dir, 'providers.json'), JSON.stringify({
+        providers: { alpha: provider('alpha'), beta: provider('beta'), gamma: provider('gamma') },
+        tasks: { extraction: { providers: ['alpha', 'beta', 'gamma'] } },
+      }));
+      process.env.AI_PROVIDERS_CONFIG = path.join(dir, 'providers.json');
+    });
+
+    afterAll(async () => {
+      process.env = originalEnv;
+      fs.rmSync(dir, { recursive: true, force: true });
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      replies.alpha = () => JSON.stringify(variant(d => (d.header.title = 'CEO')));
+      replies.beta = () => JSON.stringify(BASE_DRAFT);
+      replies.gamma = () => JSON.stringify(BASE_DRAFT);
+    });
+
+    it('should only use one provider unless asked', async () => {
+      const draft = await formatCvWithLangChain('Jane Doe CV');
+
+      expect(draft.header.title).toBe('CEO');
+    });
+
+    it('should vote across providers in ensemble mode', async () => {
+      const draft = await formatCvWithLangChain('Jane Doe CV', { ensemble: true });
+
+      expect(draft.header.title).toBe('Chief Executive Officer');
+      expect(draft.audit.rulesApplied).toContain(`${ENSEMBLE_RULE_PREFIX} (alpha, beta, gamma)`);
+      expect(draft.audit.issues[0]).toContain('"CEO" (alpha)');
+    });
+
+    it('should vote with the providers that succeeded', async () => {
+      replies.gamma = () => 'not json';
+
+      const draft = await formatCvWithLangChain('Jane Doe CV', { ensemble: true });
+
+      expect(draft.header.title).toBe('CEO');
+      expect(draft.audit.rulesApplied).toContain(`${ENSEMBLE_RULE_PREFIX} (alpha, beta)`);
+    });
+
+    it('should honour the ensemble size', async () => {
+      replies.beta = () => JSON.stringify(variant(d => (d.header.title = 'CEO')));
+
+      const draft = await formatCvWithLangChain('Jane Doe CV', { ensemble: { size: 2 } });
+
+      expect(draft.audit.rulesApplied).toContain(`${ENSEMBLE_RULE_PREFIX} (alpha, beta)`);
+      expect(draft.audit.issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { verifyGrounding, DEFAULT_GROUNDING_THRESHOLD } from '../groundingVerifier';
+import { extractCvHeuristically } from '../heuristicExtractor';
+import { CvDraft, CvDraftSchema } from '../../../shared/schemas/cv.schema';
+
+const RAW_TEXT = [
+  'JANE DOE',
+  'CEO',
+  '',
+  'Experience',
+  'Chief Executive Officer, Acme Limited',
+  '01/2015 - present',
+  '• Doubled revenue',
+  'Operations Manager at Globex Corporation',
+  'March 2008 – Dec 2014',
+  '',
+  'Education',
+  'MBA, INSEAD, 2006 - 2007',
+  '',
+  'Skills',
+  'Strategy, Mergers & Acquisitions, Kubernetes',
+].join('\n');
+
+const DRAFT: CvDraft = {
+  header: { name: 'Jane Doe', title: 'Chief Executive Officer' },
+  personalDetails: { nationality: 'British', languages: ['English'], dob: '12 Mar 1968', maritalStatus: 'Married' },
+  profile: 'Board-level executive.',
+  experience: [
+    { role: 'Chief Executive Officer', company: 'Acme Ltd', startDate: 'Jan 2015', endDate: 'Present', bullets: ['Doubled revenue'] },
+    { role: 'Operations Manager', company: 'Globex Corp', startDate: 'Mar 2008', endDate: 'Dec 2014', bullets: ['Ran operations'] },
+  ],
+  education: [{ degree: 'MBA', institution: 'INSEAD', startDate: '2006', endDate: '2007', details: ['Distinction'] }],
+  skills: ['Strategy', 'Kubernets'],
+  interests: ['Sailing'],
+  audit: { rulesApplied: ['DATE FORMAT'], issues: [] },
+};
+
+function withChanges(change: (draft: CvDraft) => void): CvDraft {
+  const draft = JSON.parse(JSON.stringify(DRAFT));
+  change(draft);
+  return draft;
+}
+
+describe('Grounding Verifier', () => {
+  it('should ground values that appear in the text, however they are formatted', () => {
+    const { draft, report } = verifyGrounding(DRAFT, RAW_TEXT);
+
+    expect(report.fields.every(field => field.grounded)).toBe(true);
+    expect(report.threshold).toBe(DEFAULT_GROUNDING_THRESHOLD);
+    expect(report.score).toBeGreaterThan(0.95);
+    expect(draft.audit.issues).toEqual([]);
+  });
+
+  it('should score each field', () => {
+    const { report } = verifyGrounding(DRAFT, RAW_TEXT);
+    const score = (path: string) => report.fields.find(field => field.path === path)?.score;
+
+    expect(score('experience[0].company')).toBe(1);
+    expect(score('experience[0].startDate')).toBe(1);
+    expect(score('experience[0].endDate')).toBe(1);
+    // Near misses such as OCR or spelling errors are partly grounded
+    expect(score('skills[1]')).toBe(0.8);
+  });
+
+  it('should flag invented employers, degrees, dates and skills', () => {
+    const invented = withChanges(draft => {
+      draft.experience[1].company = 'Initech';
+      draft.experience[1].startDate = 'Apr 2008';
+      draft.education[0].degree = 'PhD Economics';
+      draft.skills.push('Python');
+    });
+
+    const { draft, report } = verifyGrounding(invented, RAW_TEXT);
+    const ungrounded = report.fields.filter(field => !field.grounded).map(field => [field.path, field.score]);
+
+    expect(ungrounded).toEqual([
+      ['experience[1].company', 0],
+      ['experience[1].startDate', 0.5],
+      ['education[0].degree', 0],
+      ['skills[2]', 0],
+    ]);
+    expect(draft.audit.issues).toContain('Not found in the source text: experience[1].company "Initech" (grounding 0)');
+    // Flagging alone keeps everything
+    expect(draft.experience).toHaveLength(2);
+    expect(draft.skills).toHaveLength(3);
+    expect(report.removed).toEqual([]);
+  });
+
+  it('should remove ungrounded entries and skills in strict mode', () => {
+    const invented = withChanges(draft => {
+      draft.experience[1].company = 'Initech';
+      draft.skills.push('Python');
+    });
+
+    const { draft, report } = verifyGrounding(invented, RAW_TEXT, { strict: true });
+
+    expect(draft.experience.map(entry => entry.company)).toEqual(['Acme Ltd']);
+    expect(draft.skills).toEqual(['Strategy', 'Kubernets']);
+    expect(report.removed).toEqual(['experience[1]: Operations Manager at Initech', 'skills[2]: Python']);
+    expect(draft.audit.issues).toContain('Removed as not found in the source text: experience[1]: Operations Manager at Initech');
+    expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+  });
+
+  it('should report the fields of the entries strict mode keeps under their new indices', () => {
+    const invented = withChanges(draft => {
+      draft.experience[0].company = 'Initech';
+      draft.skills.unshift('Python');
+    });
+
+    const { draft, report } = verifyGrounding(invented, RAW_TEXT, { strict: true });
+    const field = (path: string) => report.fields.find(candidate => candidate.path === path);
+
+    expect(draft.experience.map(entry => entry.company)).toEqual(['Globex Corp']);
+    expect(field('experience[0].company')).toMatchObject({ value: 'Globex Corp', grounded: true });
+    expect(field('experience[0].role')).toMatchObject({ value: 'Operations Manager', score: 1 });
+    expect(field('experience[1].company')).toBeUndefined();
+    expect(field('skills[0]')).toMatchObject({ value: 'Strategy', score: 1 });
+    // What was taken out is only in removed, indexed as in the draft passed in
+    expect(report.fields.some(candidate => candidate.value === 'Initech' || candidate.value === 'Python')).toBe(false);
+    expect(report.removed).toEqual(['experience[0]: Chief Executive Officer at Initech', 'skills[0]: Python']);
+  });
+
+  it('should keep a list for review when nothing in it is grounded', () => {
+    const invented = withChanges(draft => {
+      draft.education[0].institution = 'Harvard Business School';
+    });
+
+    const { draft, report } = verifyGrounding(invented, RAW_TEXT, { strict: true });
+
+    expect(draft.education).toHaveLength(1);
+    expect(report.removed).toEqual([]);
+    expect(draft.audit.issues).toContain('Nothing in education is grounded in the source text; kept it for review');
+  });
+
+  it('should not modify the draft it is given', () => {
+    const invented = withChanges(draft => (draft.experience[1].company = 'Initech'));
+
+    verifyGrounding(invented, RAW_TEXT, { strict: true });
+
+    expect(invented.experience).toHaveLength(2);
+    expect(invented.audit.issues).toEqual([]);
+  });
+
+  it('should ignore the heuristic extractor\'s placeholders', () => {
+    const { draft } = extractCvHeuristically('Jane Doe\n\nExperience\nAnalyst at Initech Inc\n2018 - 2020');
+
+    const { report } = verifyGrounding(draft, 'Jane Doe\n\nExperience\nAnalyst at Initech Inc\n2018 - 2020');
+
+    expect(report.fields.every(field => field.grounded)).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  extractCvHeuristically,
+  findDateRange,
+  splitRoleAndCompany,
+  splitDegreeAndInstitution,
+  isHeuristicDraft,
+  HEURISTIC_MAX_CONFIDENCE,
+} from '../heuristicExtractor';
+import { formatCvWithLangChain, getProviderConfig } from '../aiProcessor';
+import { CvDraftSchema } from '../../../shared/schemas/cv.schema';
+
+const SAMPLE_CV = [
+  'JANE DOE',
+  'Head of Product',
+  'jane.doe@example.com | +44 7700 900123 | London',
+  '',
+  'Profile',
+  'Product leader with ten years of experience building B2B SaaS platforms.',
+  'Led teams of up to 20 engineers and designers.',
+  '',
+  'Experience',
+  'Head of Product at Acme Ltd',
+  'Jan 2020 - Present',
+  '• Grew ARR from £2m to £10m',
+  '• Hired and managed a team of six product managers across',
+  'three squads',
+  'Senior Product Manager | Globex Corporation | 03/2016 – 12/2019',
+  '• Launched the analytics suite used by 400 customers',
+  '',
+  'Education',
+  'BSc Computer Science, University of Leeds',
+  '2011 - 2014',
+  '• First-class honours',
+  '',
+  'Skills',
+  'Roadmapping, Stakeholder Management, SQL',
+  'Agile; Scrum',
+  '',
+  'Languages',
+  'English (native), French (fluent)',
+  '',
+  'Personal Details',
+  'Nationality: British',
+  'Date of birth: 12/03/1988',
+  'Marital status: Married',
+  '',
+  'Interests',
+  'Running, chess, photography',
+].join('\n');
+
+describe('Heuristic Extractor', () => {
+  describe('extractCvHeuristically', () => {
+    it('should produce a schema-valid draft from a typical CV', () => {
+      const { draft, missing } = extractCvHeuristically(SAMPLE_CV);
+
+      expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+      expect(missing).toEqual([]);
+      expect(draft.header).toEqual({ name: 'Jane Doe', title: 'Head of Product' });
+      expect(draft.personalDetails).toEqual({
+        nationality: 'British',
+        languages: ['English (native)', 'French (fluent)'],
+        dob: '12/03/1988',
+        maritalStatus: 'Married',
+      });
+      expect(draft.profile).toBe(
+        'Product leader with ten years of experience building B2B SaaS platforms. Led teams of up to 20 engineers and designers.'
+      );
+      expect(draft.interests).toEqual(['Running', 'chess', 'photography']);
+    });
+
+    it('should split experience into dated entries with bullets', () => {
+      const { draft } = extractCvHeuristically(SAMPLE_CV);
+
+      expect(draft.experience).toEqual([
+        {
+          role: 'Head of Product',
+          company: 'Acme Ltd',
+          startDate: 'Jan 2020',
+          endDate: 'Present',
+          bullets: ['Grew ARR from £2m to £10m', 'Hired and managed a team of six product managers across three squads'],
+        },
+        {
+          role: 'Senior Product Manager',
+          company: 'Globex Corporation',
+          startDate: 'Mar 2016',
+          endDate: 'Dec 2019',
+          bullets: ['Launched the analytics suite used by 400 customers'],
+        },
+      ]);
+      expect(draft.education).toEqual([
+        {
+          degree: 'BSc Computer Science',
+          institution: 'University of Leeds',
+          startDate: '2011',
+          endDate: '2014',
+          details: ['First-class honours'],
+        },
+      ]);
+    });
+
+    it('should add dictionary skills found anywhere in the text', () => {
+      const { draft } = extractCvHeuristically(SAMPLE_CV.replace('Roadmapping', 'Built dashboards in Power BI and Python'));
+
+      expect(draft.skills).toEqual(expect.arrayContaining(['Stakeholder Management', 'SQL', 'Power BI', 'Python']));
+    });
+
+    it('should fill missing fields with placeholders and report them', () => {
+      const { draft, confidence, missing } = extractCvHeuristically('Jane Doe\n\nExperience\nAnalyst at Initech Inc\n2018 - 2020');
+
+      expect(CvDraftSchema.safeParse(draft).success).toBe(true);
+      expect(missing).toEqual(expect.arrayContaining(['personalDetails.nationality', 'education', 'skills']));
+      expect(draft.experience[0].bullets).toEqual(['Not specified']);
+      expect(draft.audit.issues.join(' ')).toContain('education');
+      expect(confidence).toBeLessThan(HEURISTIC_MAX_CONFIDENCE);
+    });
+
+    it('should never exceed the heuristic confidence ceiling', () => {
+      expect(extractCvHeuristically(SAMPLE_CV).confidence).toBe(HEURISTIC_MAX_CONFIDENCE);
+      expect(extractCvHeuristically('').confidence).toBe(0);
+    });
+
+    it('should mark its drafts in the audit trail', () => {
+      expect(isHeuristicDraft(extractCvHeuristically(SAMPLE_CV).draft)).toBe(true);
+    });
+  });
+
+  describe('findDateRange', () => {
+    it('should normalise the common date range styles', () => {
+      expect(findDateRange('Jan 2020 - Present')).toMatchObject({ startDate: 'Jan 2020', endDate: 'Present' });
+      expect(findDateRange('September 2015 to June 2019')).toMatchObject({ startDate: 'Sep 2015', endDate: 'Jun 2019' });
+      expect(findDateRange('03/2017 – 06.2019')).toMatchObject({ startDate: 'Mar 2017', endDate: 'Jun 2019' });
+      expect(findDateRange('Okt 2018 bis heute')).toMatchObject({ startDate: 'Oct 2018', endDate: 'Present' });
+      expect(findDateRange('Since 2021')).toMatchObject({ startDate: '2021', endDate: 'Present' });
+    });
+
+    it('should ignore lines without a range', () => {
+      expect(findDateRange('Graduated in 2019')).toBeNull();
+      expect(findDateRange('Managed a budget of 2000 - 3000 EUR')).toBeNull();
+    });
+  });
+
+  describe('entry headings', () => {
+    it('should tell roles from employers in either order', () => {
+      expect(splitRoleAndCompany('Software Engineer at Initech')).toEqual({ role: 'Software Engineer', company: 'Initech' });
+      expect(splitRoleAndCompany('Acme GmbH | Project Manager')).toEqual({ role: 'Project Manager', company: 'Acme GmbH' });
+      expect(splitRoleAndCompany('Globex\nMarketing Director')).toEqual({ role: 'Marketing Director', company: 'Globex' });
+    });
+
+    it('should tell degrees from institutions', () => {
+      expect(splitDegreeAndInstitution('University of Leeds – MSc Finance')).toEqual({
+        degree: 'MSc Finance',
+        institution: 'University of Leeds',
+      });
+    });
+  });
+
+  describe('as a provider', () => {
+    it('should be registered as a provider', () => {
+      expect(getProviderConfig('heuristic')).toMatchObject({ name: 'Heuristic (offline)' });
+    });
+
+    it('should run without any AI provider', async () => {
+      const draft = await formatCvWithLangChain(SAMPLE_CV, { providers: ['heuristic'] });
+
+      expect(draft.header.name).toBe('Jane Doe');
+      expect(isHeuristicDraft(draft)).toBe(true);
+    });
+
+    it('should be the fallback when every AI provider fails', async () => {
+      const draft = await formatCvWithLangChain(SAMPLE_CV, { providers: ['unknown', 'heuristic'] });
+
+      expect(isHeuristicDraft(draft)).toBe(true);
+    });
+
+    it('should not be used when it is not in the provider list', async () => {
+      await expect(formatCvWithLangChain(SAMPLE_CV, { providers: ['unknown'] })).rejects.toThrow('All AI providers failed');
+    });
+  });
+});
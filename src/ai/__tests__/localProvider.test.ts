@@ -0,0 +1,124 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CvDraft } from '../../../shared/schemas/cv.schema';
+import { isHeuristicDraft } from '../heuristicExtractor';
+import { UsageLedger } from '../usage';
+
+type AiProcessor = typeof import('../aiProcessor');
+
+const STUB_DRAFT: CvDraft = {
+  header: { name: 'Jane Doe', title: 'Head of Product' },
+  personalDetails: { nationality: 'British', languages: ['English'], dob: '12 Mar 1988', maritalStatus: 'Married' },
+  profile: 'Product leader with ten years of experience.',
+  experience: [{ role: 'Head of Product', company: 'Acme Ltd', startDate: 'Jan 2020', endDate: 'Present', bullets: ['Grew ARR'] }],
+  education: [{ degree: 'BSc Physics', institution: 'University of Leeds', startDate: 'Sep 2011', endDate: 'Jun 2014', details: ['First'] }],
+  skills: ['Roadmapping'],
+  interests: ['Running'],
+  audit: { rulesApplied: ['DATE FORMAT'], issues: [] },
+};
+
+const CV_TEXT = 'Jane Doe\nHead of Product\n\nExperience\nHead of Product at Acme Ltd\nJan 2020 - Present\n• Grew ARR';
+
+// Minimal OpenAI-compatible chat completions server, standing in for llama.cpp, vLLM or Ollama
+function startStubServer(reply: () => string, requests: any[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      requests.push({ url: req.url, payload });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        id: `chatcmpl-${requests.length}`,
+        object: 'chat.completion',
+        created: 0,
+        model: payload.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply() }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 100, completion_tokens: 100, total_tokens: 200 },
+      }));
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Local LLM Provider', () => {
+  const originalEnv = { ...process.env };
+  const requests: any[] = [];
+  let reply = () => JSON.stringify(STUB_DRAFT);
+  let server: http.Server;
+  let aiProcessor: AiProcessor;
+
+  beforeAll(async () => {
+    server = await startStubServer(() => reply(), requests);
+    const { port } = server.address() as AddressInfo;
+
+    // The provider registry fills the local provider's settings in from these variables
+    process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${port}/v1`;
+    process.env.LOCAL_LLM_MODEL = 'stub-model';
+    process.env.LOCAL_LLM_CONTEXT_WINDOW = '4096';
+    process.env.LOCAL_LLM_MAX_TOKENS = '1000';
+    jest.isolateModules(() => {
+      aiProcessor = require('../aiProcessor');
+    });
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    reply = () => JSON.stringify(STUB_DRAFT);
+  });
+
+  it('should be configured from the environment', () => {
+    expect(aiProcessor.getProviderConfig('local')).toMatchObject({
+      name: 'Local LLM',
+      model: 'stub-model',
+      contextWindow: 4096,
+      jsonMode: true,
+    });
+    expect(aiProcessor.getAvailableProviders()).toContain('local');
+  });
+
+  it('should send the CV to the configured endpoint in JSON mode', async () => {
+    const draft = await aiProcessor.formatCvWithLangChain(CV_TEXT, { providers: ['local'] });
+
+    expect(draft).toEqual({ ...STUB_DRAFT, generatedBy: { prompt: 'ehs@2', models: ['local:stub-model'] } });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].payload).toMatchObject({ model: 'stub-model', response_format: { type: 'json_object' } });
+    expect(JSON.stringify(requests[0].payload.messages)).toContain('Head of Product at Acme Ltd');
+  });
+
+  it('should keep CV text local by default and fall back to the heuristic provider', async () => {
+    reply = () => 'Sorry, I cannot help with that.';
+
+    const draft = await aiProcessor.formatCvWithLangChain(CV_TEXT);
+
+    expect(isHeuristicDraft(draft)).toBe(true);
+    expect(requests.length).toBeGreaterThan(0);
+    expect(requests.every(request => request.payload.model === 'stub-model')).toBe(true);
+  });
+
+  it('should chunk text that does not fit the context window', async () => {
+    const experience = Array.from({ length: 40 }, (_, index) =>
+      `Role ${index} at Company ${index}\nJan 2010 - Dec 2011\n• ${'Delivered projects on time and on budget. '.repeat(3)}`
+    ).join('\n');
+
+    const usage = new UsageLedger();
+    await aiProcessor.formatCvWithLangChain(`Jane Doe\n\nExperience\n${experience}`, { providers: ['local'], usage });
+
+    // (4096 - 1000 reply - 2000 prompt) tokens leave about 4,400 characters per call
+    expect(requests.length).toBeGreaterThan(1);
+    for (const request of requests) {
+      const userText = request.payload.messages.map((message: { content: string }) => message.content).join('');
+      expect(userText.split('CV TEXT TO PROCESS:')[1].length).toBeLessThan(5000);
+    }
+
+    // Every chunk's tokens are counted; the self-hosted model costs nothing per token
+    expect(usage.calls.map(call => call.chunk).sort()).toEqual(requests.map((_, index) => index).sort());
+    expect(usage.totals()).toMatchObject({ calls: requests.length, promptTokens: 100 * requests.length, cost: 0 });
+  });
+});
@@ -0,0 +1,79 @@
+import { getRedactedCategories, PII_CATEGORIES, redactPii, restorePii } from '../piiRedactor';
+
+const CONTACT_TEXT = [
+  'Jane Doe',
+  'Head of Engineering',
+  'jane.doe@example.com | +44 (0)20 7946 0958 | linkedin.com/in/janedoe',
+  'Address: 12 High Street, London SW1A 1AA',
+  'Date of birth: 14/03/1985',
+  'Passport No: 123456789',
+  'National Insurance: QQ 12 34 56 C',
+  '',
+  'Experience',
+  'Engineering Manager at Acme Ltd, 2012 - 2015',
+  '• Replied to jane.doe@example.com and 020 7946 0958 within a day',
+].join('\n');
+
+describe('PII Redaction', () => {
+  const redaction = redactPii(CONTACT_TEXT, PII_CATEGORIES);
+
+  it('should replace contact details and identifiers with tokens', () => {
+    expect(redaction.text).toBe([
+      'Jane Doe',
+      'Head of Engineering',
+      '[EMAIL_1] | [PHONE_1] | [URL_1]',
+      'Address: [ADDRESS_1]',
+      'Date of birth: [DOB_1]',
+      'Passport No: [ID_1]',
+      'National Insurance: [ID_2]',
+      '',
+      'Experience',
+      'Engineering Manager at Acme Ltd, 2012 - 2015',
+      '• Replied to [EMAIL_1] and [PHONE_1] within a day',
+    ].join('\n'));
+    expect(redaction.tokens).toEqual({
+      '[EMAIL_1]': 'jane.doe@example.com',
+      '[PHONE_1]': '+44 (0)20 7946 0958',
+      '[URL_1]': 'linkedin.com/in/janedoe',
+      '[ADDRESS_1]': '12 High Street, London SW1A 1AA',
+      '[DOB_1]': '14/03/1985',
+      '[ID_1]': '123456789',
+      '[ID_2]': 'QQ 12 34 56 C',
+    });
+  });
+
+  it('should only redact the categories asked', () => {
+    const partial = redactPii(CONTACT_TEXT, ['email']);
+
+    expect(partial.text).toContain('+44 (0)20 7946 0958');
+    expect(partial.text).not.toContain('jane.doe@example.com');
+    expect(Object.keys(partial.tokens)).toEqual(['[EMAIL_1]']);
+  });
+
+  it('should leave dates, years and ordinary numbers alone', () => {
+    const text = 'Jan 2020 - Present\n2008 - 2012\nGrew revenue by 25% to 1,200,000 users\nBorn and raised in Leeds';
+
+    expect(redactPii(text, PII_CATEGORIES)).toEqual({ text, tokens: {} });
+  });
+
+  it('should restore the tokens anywhere in a draft', () => {
+    const draft = {
+      header: { name: 'Jane Doe', title: 'Head of Engineering' },
+      personalDetails: { dob: '[DOB_1]', languages: ['English'] },
+      experience: [{ bullets: ['Replied to [EMAIL_1] within a day', 'Unknown [PHONE_9] stays'] }],
+    };
+
+    expect(restorePii(draft, redaction.tokens)).toEqual({
+      header: { name: 'Jane Doe', title: 'Head of Engineering' },
+      personalDetails: { dob: '14/03/1985', languages: ['English'] },
+      experience: [{ bullets: ['Replied to jane.doe@example.com within a day', 'Unknown [PHONE_9] stays'] }],
+    });
+  });
+
+  it('should redact everything for remote providers and nothing for local ones unless configured', () => {
+    expect(getRedactedCategories({ remote: true })).toEqual(PII_CATEGORIES);
+    expect(getRedactedCategories({ remote: false })).toEqual([]);
+    expect(getRedactedCategories({ remote: true, allowedPii: ['email', 'url'] })).toEqual(['phone', 'address', 'dob', 'id']);
+    expect(getRedactedCategories({ remote: false, allowedPii: [] })).toEqual(PII_CATEGORIES);
+  });
+});
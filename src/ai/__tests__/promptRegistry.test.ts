@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getPrompt, listPrompts, resolvePrompt } from '../promptRegistry';
+
+describe('Prompt Registry', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('bundled prompts', () => {
+    it('should use the EHS prompt by default', () => {
+      const prompt = resolvePrompt();
+
+      expect(prompt).toMatchObject({ id: 'ehs', version: 2, key: 'ehs@2' });
+      expect(prompt.text).toMatch(/^You are an expert CV formatting specialist/);
+      expect(prompt.text.endsWith('\n')).toBe(false);
+    });
+
+    it('should ask the current prompts for the values the model is unsure of', () => {
+      expect(resolvePrompt().text).toContain('uncertain[]');
+      expect(resolvePrompt({ templateId: 'finance' }).text).toContain('uncertain[]');
+      expect(getPrompt('ehs', 1).text).not.toContain('uncertain[]');
+    });
+
+    it('should give finance templates the stricter prompt', () => {
+      const prompt = resolvePrompt({ templateId: 'finance' });
+
+      expect(prompt.key).toBe('ehs-finance@2');
+      expect(prompt.text).toContain('TONE');
+      expect(resolvePrompt({ templateId: 'technology' }).key).toBe('ehs@2');
+    });
+
+    it('should list every prompt with its current version', () => {
+      expect(listPrompts().map(prompt => `${prompt.id}@${prompt.version}`)).toEqual(['ehs@2', 'ehs-finance@2']);
+    });
+  });
+
+  describe('configured prompts', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+      fs.writeFileSync(path.join(dir, 'base.v1.txt'), 'First wording\n');
+      fs.writeFileSync(path.join(dir, 'base.v2.txt'), 'Second wording\n');
+      fs.writeFileSync(path.join(dir, 'formal.v1.txt'), 'Formal wording\n');
+      fs.writeFileSync(path.join(dir, 'prompts.json'), JSON.stringify({
+        default: 'base',
+        prompts: { base: { version: 2 }, formal: { version: 1 } },
+        clients: { 'acme-bank': 'formal' },
+        templates: { creative: 'base' },
+      }));
+      process.env.AI_PROMPTS_CONFIG = path.join(dir, 'prompts.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should serve the current version and keep earlier ones', () => {
+      expect(resolvePrompt()).toEqual({ id: 'base', version: 2, key: 'base@2', text: 'Second wording' });
+      expect(getPrompt('base', 1).text).toBe('First wording');
+    });
+
+    it('should prefer the client\'s prompt to the template\'s', () => {
+      expect(resolvePrompt({ clientId: 'acme-bank', templateId: 'creative' }).key).toBe('formal@1');
+      expect(resolvePrompt({ clientId: 'someone-else', templateId: 'creative' }).key).toBe('base@2');
+    });
+
+    it('should reject unknown prompts and missing versions', () => {
+      expect(() => getPrompt('casual')).toThrow('Unknown prompt: casual');
+      expect(() => getPrompt('base', 3)).toThrow('Prompt base@3 not found');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { traceDraftToSource } from '../provenance';
+import { buildProvenance, splitPageBreaks } from '../../../shared/provenance/provenance';
+import { PLACEHOLDER } from '../heuristicExtractor';
+import { CvDraft } from '../../../shared/schemas/cv.schema';
+
+const PAGE_ONE = [
+  'JANE DOE',
+  'CEO',
+  '',
+  'Experience',
+  'Chief Executive Officer, Acme Limited',
+  '01/2015 - present',
+  '• Doubled revenue in three years',
+].join('\n');
+
+const PAGE_TWO = [
+  'Operations Manager at Globex Corporation',
+  'March 2008 – Dec 2014',
+  'Analyst at Acme Limited',
+  '2005 - 2008',
+  '',
+  'Skills',
+  'Strategy, Kubernetes',
+].join('\n');
+
+const RAW_TEXT = `${PAGE_ONE}\n\n${PAGE_TWO}`;
+const PAGE_STARTS = [0, PAGE_ONE.length + 2];
+
+const DRAFT: CvDraft = {
+  header: { name: 'Jane Doe', title: 'CEO', photoUrl: 'http://localhost/photo' },
+  personalDetails: { nationality: PLACEHOLDER, languages: [PLACEHOLDER], dob: PLACEHOLDER, maritalStatus: PLACEHOLDER },
+  profile: 'Chief executive with a record of growth.',
+  experience: [
+    { role: 'Chief Executive Officer', company: 'Acme Ltd', startDate: 'Jan 2015', endDate: 'Present', bullets: ['Doubled company revenue'] },
+    { role: 'Operations Manager', company: 'Globex', startDate: 'Mar 2008', endDate: 'Dec 2014', bullets: [] },
+    { role: 'Analyst', company: 'Acme Limited', startDate: '2005', endDate: '2008', bullets: [] },
+  ],
+  education: [{ degree: 'MBA', institution: 'INSEAD', startDate: '2006', endDate: '2007', details: [] }],
+  skills: ['Strategy', 'Kubernetes'],
+  interests: [],
+  audit: { rulesApplied: ['DATE FORMAT'], issues: ['Something to review'] },
+};
+
+describe('Provenance', () => {
+  const provenance = traceDraftToSource(DRAFT, RAW_TEXT, PAGE_STARTS);
+  const source = (path: string) => {
+    const span = provenance[path];
+    return span && RAW_TEXT.slice(span.start, span.end);
+  };
+
+  it('should link values to the text they were read from', () => {
+    expect(source('header.name')).toBe('JANE DOE');
+    expect(source('experience[0].role')).toBe('Chief Executive Officer');
+    expect(source('experience[1].company')).toBe('Globex');
+    expect(source('skills[1]')).toBe('Kubernetes');
+    expect(provenance['skills[1]'].match).toBe('exact');
+  });
+
+  it('should find dates however the text writes them', () => {
+    expect(source('experience[0].startDate')).toBe('01/2015');
+    expect(source('experience[0].endDate')).toBe('present');
+    expect(source('experience[1].startDate')).toBe('March 2008');
+    expect(source('experience[1].endDate')).toBe('Dec 2014');
+  });
+
+  it('should take an entry\'s fields from near each other', () => {
+    // 2008 is also the end of the Globex role, but this entry's fields are further down
+    expect(provenance['experience[2].endDate'].start).toBe(RAW_TEXT.indexOf('2005 - 2008') + 7);
+    expect(provenance['experience[2].company'].start).toBe(RAW_TEXT.lastIndexOf('Acme Limited'));
+    expect(provenance['experience[0].company'].start).toBe(RAW_TEXT.indexOf('Acme Limited'));
+  });
+
+  it('should mark reworded values as approximate', () => {
+    expect(provenance['experience[0].company']).toMatchObject({ match: 'fuzzy' });
+    expect(source('experience[0].bullets[0]')).toBe('Doubled revenue');
+    expect(provenance['experience[0].bullets[0]'].match).toBe('fuzzy');
+  });
+
+  it('should give the page each value starts on', () => {
+    expect(provenance['header.name'].page).toBe(1);
+    expect(provenance['experience[1].role'].page).toBe(2);
+    expect(traceDraftToSource(DRAFT, RAW_TEXT)['header.name'].page).toBeUndefined();
+  });
+
+  it('should leave out values that are not in the text', () => {
+    expect(provenance['education[0].institution']).toBeUndefined();
+    expect(provenance['personalDetails.nationality']).toBeUndefined();
+    expect(provenance['header.photoUrl']).toBeUndefined();
+    expect(Object.keys(provenance).some(path => path.startsWith('audit'))).toBe(false);
+  });
+
+  it('should work on any nested data and skip the paths asked', () => {
+    const cvData = { personalDetails: { firstName: 'Jane', bhNumber: 'BH001' }, keySkills: ['Strategy'] };
+
+    expect(buildProvenance(cvData, RAW_TEXT, { skip: ['personalDetails.bhNumber'] })).toEqual({
+      'personalDetails.firstName': { start: 0, end: 4, match: 'exact' },
+      'keySkills[0]': { start: RAW_TEXT.indexOf('Strategy'), end: RAW_TEXT.indexOf('Strategy') + 8, match: 'exact' },
+    });
+  });
+
+  it('should remove page breaks and record where the pages start', () => {
+    expect(splitPageBreaks('One\fTwo\fThree\f')).toEqual({ text: 'OneTwoThree', pageStarts: [0, 3, 6] });
+  });
+});
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  getProvider,
+  getProviderChain,
+  listProviders,
+  checkProviderHealth,
+  getProviderHealth,
+} from '../../../shared/providers/registry';
+import { getAvailableProviders } from '../aiProcessor';
+
+const CONFIG = {
+  providers: {
+    self: {
+      name: 'Self-hosted',
+      type: 'openai-compatible',
+      remote: false,
+      baseUrl: '${TEST_SELF_URL}',
+      model: '${TEST_SELF_MODEL:-small-model}',
+      temperature: 0,
+      contextWindow: '${TEST_SELF_CONTEXT:-8192}',
+      jsonMode: 'true',
+    },
+    cloud: {
+      name: 'Cloud',
+      type: 'openai',
+      apiKey: '${TEST_CLOUD_KEY|TEST_CLOUD_KEY_FALLBACK}',
+      model: 'cloud-model',
+      temperature: 0,
+      maxTokens: 4000,
+    },
+    other: {
+      name: 'Other Cloud',
+      type: 'anthropic',
+      apiKey: '${TEST_OTHER_KEY}',
+      model: 'other-model',
+      temperature: 0,
+    },
+    heuristic: { name: 'Heuristic (offline)', type: 'heuristic', remote: false, model: 'rules', temperature: 0 },
+  },
+  tasks: {
+    extraction: { providers: ['cloud', 'other', 'heuristic'] },
+    skillAnalysis: {
+      providers: ['other', 'cloud'],
+      overrides: { cloud: { model: 'cloud-model-mini', maxTokens: 1000 } },
+    },
+  },
+};
+
+// Writes the configuration with a later modification time, as an edit on disk would
+function writeConfig(file: string, config: object, modified: number): void {
+  fs.writeFileSync(file, JSON.stringify(config));
+  fs.utimesSync(file, modified, modified);
+}
+
+describe('Provider Registry', () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+  let configFile: string;
+  let modified = Math.floor(Date.now() / 1000);
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'providers-'));
+    configFile = path.join(dir, 'providers.json');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDERS_CONFIG: configFile, TEST_CLOUD_KEY: 'cloud-key', TEST_OTHER_KEY: 'other-key' };
+    delete process.env.AI_PROVIDERS_EXTRACTION;
+    writeConfig(configFile, CONFIG, ++modified);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getProvider', () => {
+    it('should fill settings in from the environment', () => {
+      process.env.TEST_SELF_URL = 'http://127.0.0.1:8080/v1';
+      process.env.TEST_SELF_CONTEXT = '4096';
+
+      expect(getProvider('self')).toEqual({
+        id: 'self',
+        name: 'Self-hosted',
+        type: 'openai-compatible',
+        remote: false,
+        baseUrl: 'http://127.0.0.1:8080/v1',
+        model: 'small-model',
+        temperature: 0,
+        contextWindow: 4096,
+        jsonMode: true,
+      });
+    });
+
+    it('should try each variable of an alternative in turn', () => {
+      delete process.env.TEST_CLOUD_KEY;
+      process.env.TEST_CLOUD_KEY_FALLBACK = 'fallback-key';
+
+      expect(getProvider('cloud')?.apiKey).toBe('fallback-key');
+    });
+
+    it('should apply per-task overrides', () => {
+      expect(getProvider('cloud', 'skillAnalysis')).toMatchObject({ model: 'cloud-model-mini', maxTokens: 1000 });
+      expect(getProvider('cloud', 'extraction')).toMatchObject({ model: 'cloud-model', maxTokens: 4000 });
+    });
+
+    it('should return null for unknown providers', () => {
+      expect(getProvider('missing')).toBeNull();
+    });
+  });
+
+  describe('getProviderChain', () => {
+    it('should follow the configured order per task', () => {
+      expect(getProviderChain('extraction')).toEqual(['cloud', 'other', 'heuristic']);
+      expect(getProviderChain('skillAnalysis')).toEqual(['other', 'cloud']);
+    });
+
+    it('should try every provider for tasks without a chain', () => {
+      expect(getProviderChain('validation')).toEqual(['cloud', 'other', 'heuristic']);
+    });
+
+    it('should skip providers that are not configured', () => {
+      delete process.env.TEST_CLOUD_KEY;
+
+      expect(getProviderChain('extraction')).toEqual(['other', 'heuristic']);
+    });
+
+    it('should keep remote providers beside a self-hosted model unless told to stay local', () => {
+      process.env.TEST_SELF_URL = 'http://127.0.0.1:8080/v1';
+      const config = { ...CONFIG, tasks: { extraction: { providers: ['self', 'cloud', 'heuristic'] } } };
+      writeConfig(configFile, config, ++modified);
+
+      expect(getProviderChain('extraction')).toEqual(['self', 'cloud', 'heuristic']);
+
+      writeConfig(configFile, { ...config, localOnly: '${TEST_LOCAL_ONLY:-false}' }, ++modified);
+      process.env.TEST_LOCAL_ONLY = 'true';
+
+      expect(getProviderChain('extraction')).toEqual(['self', 'heuristic']);
+    });
+
+    it('should let the environment replace a chain', () => {
+      process.env.AI_PROVIDERS_EXTRACTION = 'other, heuristic';
+      process.env.AI_PROVIDERS_SKILL_ANALYSIS = 'cloud';
+
+      expect(getProviderChain('extraction')).toEqual(['other', 'heuristic']);
+      expect(getProviderChain('skillAnalysis')).toEqual(['cloud']);
+    });
+
+    it('should pick up edits to the configuration file without a restart', () => {
+      expect(listProviders()).toContain('other');
+
+      const { other, ...providers } = CONFIG.providers;
+      writeConfig(configFile, {
+        providers: { ...providers, cloud: { ...providers.cloud, model: 'cloud-model-2' } },
+        tasks: { extraction: { providers: ['heuristic', 'cloud'] } },
+      }, ++modified);
+
+      expect(listProviders()).not.toContain('other');
+      expect(getProviderChain('extraction')).toEqual(['heuristic', 'cloud']);
+      expect(getProvider('cloud')?.model).toBe('cloud-model-2');
+    });
+  });
+
+  describe('health', () => {
+    let server: http.Server;
+    let status = 200;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        res.statusCode = req.url === '/v1/models' ? status : 404;
+        res.end('{"data":[]}');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      const { port } = server.address() as AddressInfo;
+      process.env.TEST_SELF_URL = `http://127.0.0.1:${port}/v1`;
+      status = 200;
+    });
+
+    it('should report reachable providers as healthy', async () => {
+      const [self, other, heuristic] = await checkProviderHealth(['self', 'missing', 'heuristic']);
+
+      expect(self).toMatchObject({ id: 'self', configured: true, healthy: true });
+      expect(other).toMatchObject({ id: 'missing', configured: false, healthy: false, error: 'Unknown provider' });
+      expect(heuristic).toMatchObject({ id: 'heuristic', configured: true, healthy: true });
+      expect(getProviderHealth('self')).toEqual(self);
+    });
+
+    it('should report missing keys without making a request', async () => {
+      delete process.env.TEST_OTHER_KEY;
+
+      const [other] = await checkProviderHealth(['other']);
+
+      expect(other).toMatchObject({ configured: false, healthy: false, error: 'API key not configured' });
+    });
+
+    it('should leave failing providers out of the available providers', async () => {
+      expect(getAvailableProviders()).toEqual(expect.arrayContaining(['self', 'cloud']));
+
+      status = 503;
+      const [self] = await checkProviderHealth(['self']);
+
+      expect(self).toMatchObject({ healthy: false, error: 'HTTP 503' });
+      expect(getAvailableProviders()).not.toContain('self');
+      expect(getAvailableProviders()).not.toContain('heuristic');
+    });
+  });
+});
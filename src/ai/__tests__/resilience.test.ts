@@ -0,0 +1,138 @@
+import {
+  callProvider,
+  getCircuitState,
+  getRetryDelay,
+  isCircuitOpen,
+  isRetryable,
+  resetCircuits,
+  CircuitOpenError,
+  ProviderTimeoutError,
+} from '../../../shared/providers/resilience';
+
+// Shaped like the errors the OpenAI, Anthropic and Gemini SDKs raise
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('Provider Resilience', () => {
+  beforeEach(() => {
+    resetCircuits();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('callProvider', () => {
+    it('should abandon calls that take longer than the provider timeout', async () => {
+      let aborted = false;
+      const hang = (signal: AbortSignal) => new Promise(() => {
+        signal.addEventListener('abort', () => (aborted = true));
+      });
+
+      await expect(callProvider({ id: 'slow', timeoutMs: 20 }, hang)).rejects.toBeInstanceOf(ProviderTimeoutError);
+      expect(aborted).toBe(true);
+    });
+
+    it('should retry rate limits and server errors', async () => {
+      const fn = jest.fn()
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue('ok');
+
+      await expect(callProvider({ id: 'flaky', maxRetries: 2 }, fn, FAST)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(getCircuitState('flaky')).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should not retry other errors', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(400));
+
+      await expect(callProvider({ id: 'strict', maxRetries: 2 }, fn, FAST)).rejects.toThrow('HTTP 400');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(callProvider({ id: 'down', maxRetries: 1 }, fn, FAST)).rejects.toThrow('HTTP 500');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const failing = { id: 'failing', maxRetries: 0 };
+
+    async function fail(times: number, error = httpError(502)): Promise<void> {
+      for (let i = 0; i < times; i++) {
+        await callProvider(failing, () => Promise.reject(error)).catch(() => undefined);
+      }
+    }
+
+    it('should skip a provider after repeated failures', async () => {
+      await fail(3);
+
+      const fn = jest.fn();
+      await expect(callProvider(failing, fn)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(getCircuitState('failing')).toMatchObject({ state: 'open', failures: 3, lastError: 'HTTP 502' });
+      expect(getCircuitState('failing').retryAt).toEqual(expect.any(String));
+    });
+
+    it('should not count unusable output as a provider failure', async () => {
+      await fail(5, new SyntaxError('Unexpected token'));
+
+      expect(isCircuitOpen('failing')).toBe(false);
+    });
+
+    it('should let one trial call through after the cooldown', async () => {
+      await fail(3);
+      const later = Date.now() + 60000;
+      jest.spyOn(Date, 'now').mockReturnValue(later);
+
+      let release: (value: string) => void = () => undefined;
+      const trial = callProvider(failing, () => new Promise<string>(resolve => (release = resolve)));
+
+      // Others keep skipping while the trial is in flight
+      await expect(callProvider(failing, () => Promise.resolve('second'))).rejects.toBeInstanceOf(CircuitOpenError);
+
+      release('first');
+      await expect(trial).resolves.toBe('first');
+      expect(getCircuitState('failing')).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should reopen when the trial call fails', async () => {
+      await fail(3);
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+
+      await fail(1);
+
+      expect(getCircuitState('failing').state).toBe('open');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should treat only 429 and 5xx as retryable', () => {
+      expect(isRetryable(httpError(429))).toBe(true);
+      expect(isRetryable(httpError(500))).toBe(true);
+      expect(isRetryable(httpError(401))).toBe(false);
+      expect(isRetryable(new Error('Unexpected token'))).toBe(false);
+    });
+
+    it('should jitter the backoff under an exponential ceiling', () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const delay = getRetryDelay(httpError(503), attempt, 100, 1000);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThan(Math.min(1000, 100 * 2 ** attempt));
+      }
+    });
+
+    it('should honour Retry-After', () => {
+      expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 0, 100, 8000)).toBe(2000);
+      expect(getRetryDelay(httpError(429, { 'retry-after': '60' }), 0, 100, 8000)).toBe(8000);
+    });
+  });
+});
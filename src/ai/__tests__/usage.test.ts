@@ -0,0 +1,99 @@
+import { UsageLedger, calculateCost, getMessageTokens } from '../usage';
+import { recordUsage, summarizeUsage, clearUsage } from '../../services/usageStore';
+
+const OPENAI = { id: 'openai', model: 'gpt-4o-mini', remote: true };
+const ANTHROPIC = { id: 'anthropic', model: 'claude-3-haiku-20240307', remote: true };
+const LOCAL = { id: 'local', model: 'llama3.1:8b', remote: false };
+
+describe('Usage Accounting', () => {
+  describe('calculateCost', () => {
+    it('should price tokens from the registry price table', () => {
+      // gpt-4o-mini: $0.15 in and $0.60 out per million tokens
+      expect(calculateCost(OPENAI, 1000000, 0)).toEqual({ cost: 0.15, priced: true });
+      expect(calculateCost(OPENAI, 10000, 2000)).toEqual({ cost: 0.0027, priced: true });
+    });
+
+    it('should treat self-hosted models as free', () => {
+      expect(calculateCost(LOCAL, 10000, 2000)).toEqual({ cost: 0, priced: true });
+    });
+
+    it('should flag remote models without a price', () => {
+      expect(calculateCost({ model: 'gpt-99', remote: true }, 10000, 2000)).toEqual({ cost: 0, priced: false });
+    });
+  });
+
+  describe('getMessageTokens', () => {
+    it('should read token counts from LangChain messages', () => {
+      expect(getMessageTokens({ usage_metadata: { input_tokens: 120, output_tokens: 30, total_tokens: 150 } }))
+        .toEqual({ promptTokens: 120, completionTokens: 30 });
+      expect(getMessageTokens({ response_metadata: { tokenUsage: { promptTokens: 5, completionTokens: 7 } } }))
+        .toEqual({ promptTokens: 5, completionTokens: 7 });
+      expect(getMessageTokens({ content: '{}' })).toBeNull();
+    });
+  });
+
+  describe('UsageLedger', () => {
+    it('should total calls overall and per provider', () => {
+      const ledger = new UsageLedger();
+      ledger.record(OPENAI, { promptTokens: 10000, completionTokens: 2000 }, { chunk: 0 });
+      ledger.record(OPENAI, { promptTokens: 10000, completionTokens: 2000 }, { chunk: 1 });
+      ledger.record(ANTHROPIC, { promptTokens: 4000, completionTokens: 0 }, { failed: true });
+
+      const totals = ledger.totals();
+
+      expect(totals).toMatchObject({
+        calls: 3,
+        promptTokens: 24000,
+        completionTokens: 4000,
+        totalTokens: 28000,
+        cost: 0.0064,
+        currency: 'USD',
+        unpricedModels: [],
+      });
+      expect(totals.byProvider.openai).toEqual({ calls: 2, promptTokens: 20000, completionTokens: 4000, totalTokens: 24000, cost: 0.0054 });
+      expect(ledger.calls[2]).toMatchObject({ provider: 'anthropic', failed: true, cost: 0.001 });
+    });
+
+    it('should list models it could not price', () => {
+      const ledger = new UsageLedger();
+      ledger.record({ id: 'openai', model: 'gpt-99', remote: true }, { promptTokens: 100, completionTokens: 100 });
+
+      expect(ledger.totals().unpricedModels).toEqual(['gpt-99']);
+    });
+  });
+
+  describe('usage store', () => {
+    beforeEach(() => {
+      clearUsage();
+
+      const run = (provider: typeof OPENAI, promptTokens: number) => {
+        const ledger = new UsageLedger();
+        ledger.record(provider, { promptTokens, completionTokens: 0 });
+        return ledger.totals();
+      };
+
+      recordUsage({ uploadId: 'u1', userId: 'alice', recordedAt: '2024-05-01T09:00:00.000Z', usage: run(OPENAI, 1000000) });
+      recordUsage({ uploadId: 'u1', userId: 'alice', recordedAt: '2024-05-02T09:00:00.000Z', usage: run(OPENAI, 1000000) });
+      recordUsage({ uploadId: 'u2', userId: 'bob', recordedAt: '2024-05-31T18:00:00.000Z', usage: run(ANTHROPIC, 1000000) });
+    });
+
+    it('should total every run', () => {
+      expect(summarizeUsage()).toMatchObject({
+        uploads: 2,
+        runs: 3,
+        calls: 3,
+        promptTokens: 3000000,
+        cost: 0.55,
+        byUser: { alice: { cost: 0.3 }, bob: { cost: 0.25 } },
+        byProvider: { openai: { calls: 2 }, anthropic: { calls: 1 } },
+      });
+    });
+
+    it('should filter by user and date range', () => {
+      expect(summarizeUsage({ userId: 'alice' })).toMatchObject({ uploads: 1, runs: 2, cost: 0.3 });
+      expect(summarizeUsage({ from: new Date('2024-05-02T00:00:00Z') })).toMatchObject({ runs: 2, cost: 0.4 });
+      expect(summarizeUsage({ to: new Date('2024-05-01T23:59:59Z') })).toMatchObject({ runs: 1, cost: 0.15 });
+      expect(summarizeUsage({ userId: 'bob', to: new Date('2024-05-30T00:00:00Z') })).toMatchObject({ runs: 0, cost: 0 });
+    });
+  });
+});
@@ -5,104 +5,190 @@ import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
 import { StructuredOutputParser } from 'langchain/output_parsers'
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
 import { PromptTemplate } from '@langchain/core/prompts'
-import { RunnableSequence } from '@langchain/core/runnables'
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages'
+import { concat } from '@langchain/core/utils/stream'
 import { CvDraftSchema, CvDraft } from '../../shared/schemas/cv.schema'
+import { segmentSections, groupSections, CvSection } from '../services/sectionSegmenter'
+import { extractCvHeuristically, HEURISTIC_PROVIDER } from './heuristicExtractor'
+import {
+  getProvider,
+  getProviderChain,
+  getProviderHealth,
+  isConfigured,
+  listProviders,
+  ProviderConfig
+} from '../../shared/providers/registry'
+import { callProvider, isCircuitOpen } from '../../shared/providers/resilience'
+import { UsageLedger, getMessageTokens } from './usage'
+import { voteOnDrafts, EnsembleCandidate } from './ensemble'
+import { mergeChunkResults, mergeGeneratedBy } from './chunkMerger'
+import { createFixtureModel, getFixtureMode } from './fixtureModel'
+import { getRedactedCategories, redactPii, restorePii, REDACTION_NOTE } from './piiRedactor'
+import { ExtractionPrompt, resolvePrompt } from './promptRegistry'
+import { ExtractedDraftSchema, correctionMessage, parseDraftWithRepair, repairedValues } from './draftRepair'
+import { DraftEventListener, DraftStream, completedSections } from './draftEvents'
 
-// Environment variables
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY
+export { checkProviderHealth } from '../../shared/providers/registry'
+export { getCircuitState } from '../../shared/providers/resilience'
 
-// Provider configuration
-interface ProviderConfig {
-  name: string
-  model: string
-  temperature: number
-  maxTokens?: number
-}
-
-const PROVIDERS: Record<string, ProviderConfig> = {
-  openai: {
-    name: 'OpenAI',
-    model: 'gpt-4o-mini',
-    temperature: 0,
-    maxTokens: 4000
-  },
-  anthropic: {
-    name: 'Anthropic',
-    model: 'claude-3-haiku-20240307',
-    temperature: 0,
-    maxTokens: 4000
-  },
-  gemini: {
-    name: 'Google Gemini',
-    model: 'gemini-1.5-flash',
-    temperature: 0,
-    maxTokens: 4000
-  }
-}
-
-// EHS Formatting Rules System Prompt
-const EHS_SYSTEM_PROMPT = `You are an expert CV formatting specialist who follows EHS (Executive Headhunting Services) professional standards.
-
-CRITICAL FORMATTING RULES - You MUST follow these exactly:
-
-1. DATE FORMAT: All dates must be in "Mon YYYY" format (e.g., "Jan 2020", "Mar 2017", "Sep 2013")
-   - Convert any other date formats to this standard
-   - Use 3-letter month abbreviations only
+// Providers, models and the order they are tried in come from the shared registry
+// (shared/providers/providers.json, or the file named by AI_PROVIDERS_CONFIG)
+// Input budget for providers without a configured context window (approximately 12k tokens)
+const DEFAULT_MAX_INPUT_CHARS = 48000
 
-2. JOB TITLE CAPITALIZATION: All job titles must start with capital letters
-   - "senior software engineer" → "Senior Software Engineer"
-   - "project manager" → "Project Manager"
+// Tokens taken by the EHS prompt and the schema's format instructions
+const PROMPT_TOKENS = 2000
 
-3. CONTENT CLEANUP:
-   - Remove "I am responsible for" → Replace with "Responsible for"
-   - Remove "I am" from sentences where possible
-   - Fix "Principle" → "Principal" (for people in charge)
-   - Fix "Discrete" → "Discreet" (for being careful/secretive)
-   - Remove Age and Dependants fields completely
-   - Convert long paragraphs to bullet points
+// Chunks never grow beyond this, even for models with large context windows
+const MAX_CHUNK_SIZE = 8000
 
-4. STRUCTURE REQUIREMENTS:
-   - Header: name, title, photoUrl (optional)
-   - Personal Details: nationality, languages[], dob, maritalStatus
-   - Profile: professional summary (2-3 sentences max)
-   - Experience: reverse chronological order, bullet points for achievements
-   - Education: degree, institution, dates, details as bullet points
-   - Skills: technical and soft skills as bullet points
-   - Interests: professional and personal interests as bullet points
+// Providers an ensemble runs when opts.ensemble does not say
+const DEFAULT_ENSEMBLE_SIZE = 3
 
-5. AUDIT TRAIL: Include rulesApplied[] with the specific rules you applied, and issues[] for any problems found.
-
-You must output EXACTLY the JSON structure specified in the schema. Do not add extra fields or modify the structure.`
+export interface FormatOptions {
+  providers?: string[]
+  sections?: CvSection[]
+  usage?: UsageLedger
+  // Run several providers in parallel and vote on their drafts field by field (see ensemble.ts).
+  // Costs one extraction per provider, so meant for high-value CVs. `true` uses the first three.
+  ensemble?: boolean | { size?: number }
+  // Extraction prompt, e.g. resolvePrompt({ clientId }); the default prompt when not given
+  prompt?: ExtractionPrompt
+  // Receives the draft section by section as it is extracted (see draftEvents.ts)
+  onEvent?: DraftEventListener
+}
 
 // Main processing function
 export async function formatCvWithLangChain(
   rawText: string,
-  opts?: { providers?: string[] }
+  opts?: FormatOptions
+): Promise<CvDraft> {
+  const providers = opts?.providers || getProviderChain('extraction')
+  const llmProviders = providers.filter(name => !isHeuristicProvider(name))
+  const useHeuristic = llmProviders.length < providers.length
+  const prompt = opts?.prompt || resolvePrompt()
+  const stream = opts?.onEvent && new DraftStream(opts.onEvent)
+  
+  try {
+    if (llmProviders.length === 0) {
+      throw new Error('No AI providers requested')
+    }
+    
+    let draft: CvDraft
+    if (opts?.ensemble) {
+      const size = (typeof opts.ensemble === 'object' && opts.ensemble.size) || DEFAULT_ENSEMBLE_SIZE
+      draft = await processWithEnsemble(rawText, llmProviders, Math.max(2, size), prompt, opts)
+    } else {
+      draft = await processWithProviders(rawText, llmProviders, prompt, opts, stream)
+    }
+    
+    stream?.update(draft)
+    return draft
+  } catch (error) {
+    if (!useHeuristic) {
+      throw error
+    }
+    
+    // The heuristic works on the whole CV, not per chunk, so it runs once after every AI provider failed
+    console.warn('⚠️ Falling back to offline heuristic extraction:', error instanceof Error ? error.message : 'Unknown error')
+    const { draft, confidence } = extractCvHeuristically(rawText, opts?.sections)
+    console.log(`✅ Successfully processed CV with ${HEURISTIC_PROVIDER} (confidence ${confidence})`)
+    const result = { ...draft, generatedBy: { models: describeProviderChain([HEURISTIC_PROVIDER]) } }
+    stream?.update(result)
+    return result
+  }
+}
+
+// Extract with the first provider that succeeds, chunking when the text does not fit the smallest context window.
+// Chunks are sent to the stream as they finish, and a CV extracted in one call section by section as the
+// model writes it; the caller sends the finished draft.
+async function processWithProviders(
+  rawText: string,
+  providers: string[],
+  prompt: ExtractionPrompt,
+  opts?: FormatOptions,
+  stream?: DraftStream
+): Promise<CvDraft> {
+  const inputLimit = Math.min(...providers.map(getMaxInputChars))
+  
+  if (rawText.length > inputLimit) {
+    const sections = opts?.sections || segmentSections(rawText)
+    return processWithChunking(sections, providers, prompt, Math.min(MAX_CHUNK_SIZE, inputLimit), opts?.usage, stream)
+  }
+  return processSingleChunk(rawText, providers, prompt, opts?.usage, undefined, stream)
+}
+
+// Extract with several providers at once and vote on the drafts they return
+async function processWithEnsemble(
+  rawText: string,
+  providers: string[],
+  size: number,
+  prompt: ExtractionPrompt,
+  opts?: FormatOptions
 ): Promise<CvDraft> {
-  const providers = opts?.providers || ['openai', 'anthropic', 'gemini']
+  // Providers being skipped by their circuit breaker would only fail
+  const members = providers.filter(name => !isCircuitOpen(name)).slice(0, size)
+  if (members.length < 2) {
+    console.warn(`⚠️ Ensemble needs two providers, only ${members.length} available; using the fallback chain`)
+    return processWithProviders(rawText, providers, prompt, opts)
+  }
   
-  // Check if text needs chunking (approximately 12k tokens = ~48k characters)
-  const needsChunking = rawText.length > 48000
+  console.log(`🗳️ Ensemble extraction with ${members.join(', ')}`)
+  const results = await Promise.all(members.map(provider =>
+    processWithProviders(rawText, [provider], prompt, opts)
+      .then(draft => ({ provider, draft }))
+      .catch(error => {
+        console.warn(`⚠️ ${provider} failed in ensemble:`, error instanceof Error ? error.message : 'Unknown error')
+        return null
+      })
+  ))
   
-  if (needsChunking) {
-    return await processWithChunking(rawText, providers)
-  } else {
-    return await processSingleChunk(rawText, providers)
+  const candidates = results.filter(Boolean) as EnsembleCandidate[]
+  if (candidates.length === 0) {
+    throw new Error(`All AI providers failed in ensemble (${members.join(', ')})`)
+  }
+  if (candidates.length === 1) {
+    const [only] = candidates
+    return {
+      ...only.draft,
+      audit: {
+        ...only.draft.audit,
+        issues: [...only.draft.audit.issues, `Ensemble: only ${only.provider} produced a draft, so nothing was cross-checked`]
+      }
+    }
+  }
+  
+  const drafts = candidates.map(candidate => candidate.draft)
+  return CvDraftSchema.parse({ ...voteOnDrafts(candidates), generatedBy: mergeGeneratedBy(drafts) })
+}
+
+function isHeuristicProvider(name: string): boolean {
+  return name === HEURISTIC_PROVIDER || getProvider(name)?.type === 'heuristic'
+}
+
+// Characters of CV text a provider takes in one call, at roughly four characters per token
+function getMaxInputChars(providerName: string): number {
+  const config = getProvider(providerName, 'extraction')
+  if (!config?.contextWindow) {
+    return DEFAULT_MAX_INPUT_CHARS
   }
+  return Math.max(1000, (config.contextWindow - (config.maxTokens || 0) - PROMPT_TOKENS) * 4)
 }
 
 // Process single chunk of text
 async function processSingleChunk(
   rawText: string,
-  providers: string[]
+  providers: string[],
+  prompt: ExtractionPrompt,
+  usage?: UsageLedger,
+  chunk?: number,
+  stream?: DraftStream
 ): Promise<CvDraft> {
   let lastError: Error | null = null
   
   for (const providerName of providers) {
     try {
-      const result = await processWithProvider(rawText, providerName)
+      const result = await processWithProvider(rawText, providerName, prompt, usage, chunk, stream)
       console.log(`✅ Successfully processed CV with ${providerName}`)
       return result
     } catch (error) {
@@ -117,28 +203,54 @@ async function processSingleChunk(
 
 // Process with chunking for large texts
 async function processWithChunking(
-  rawText: string,
-  providers: string[]
+  sections: CvSection[],
+  providers: string[],
+  prompt: ExtractionPrompt,
+  chunkSize = MAX_CHUNK_SIZE,
+  usage?: UsageLedger,
+  stream?: DraftStream
 ): Promise<CvDraft> {
   console.log('📄 Large text detected, using chunking strategy...')
   
-  // Split text into logical chunks
+  // Fallback splitter for single sections that are too long on their own
   const textSplitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 8000,
-    chunkOverlap: 1000,
+    chunkSize,
+    chunkOverlap: Math.floor(chunkSize / 8),
     separators: ['\n\n', '\n', '. ', ' ', '']
   })
   
-  const chunks = await textSplitter.splitText(rawText)
-  console.log(`📝 Split text into ${chunks.length} chunks`)
+  // Chunk along section boundaries so each chunk holds whole sections
+  const chunks: string[] = []
+  for (const group of groupSections(sections, chunkSize)) {
+    const groupText = group.map(section => section.text).join('')
+    if (groupText.length > chunkSize) {
+      chunks.push(...await textSplitter.splitText(groupText))
+    } else {
+      chunks.push(groupText)
+    }
+  }
+  console.log(`📝 Split text into ${chunks.length} chunks across ${sections.length} sections`)
+  stream?.chunks(chunks.length)
   
-  // Process each chunk
+  // Process each chunk, sending the merge of those finished so far as each one finishes
+  const finished: (CvDraft | null)[] = []
+  let completed = 0
   const chunkResults = await Promise.all(
     chunks.map((chunk, index) => 
-      processSingleChunk(chunk, providers).catch(error => {
-        console.warn(`⚠️ Chunk ${index + 1} failed:`, error.message)
-        return null
-      })
+      processSingleChunk(chunk, providers, prompt, usage, index)
+        .catch(error => {
+          console.warn(`⚠️ Chunk ${index + 1} failed:`, error.message)
+          return null
+        })
+        .then(result => {
+          finished[index] = result
+          completed++
+          const sofar = finished.filter(Boolean) as CvDraft[]
+          if (stream && completed < chunks.length && sofar.length > 0) {
+            stream.update(mergeChunkResults(sofar), completed)
+          }
+          return result
+        })
     )
   )
   
@@ -146,167 +258,192 @@ async function processWithChunking(
   return mergeChunkResults(chunkResults.filter(Boolean) as CvDraft[])
 }
 
-// Merge multiple chunk results into a single CV
-function mergeChunkResults(chunkResults: CvDraft[]): CvDraft {
-  if (chunkResults.length === 0) {
-    throw new Error('No chunks were processed successfully')
-  }
-  
-  if (chunkResults.length === 1) {
-    return chunkResults[0]
-  }
-  
-  // Merge strategy: take the most complete result and merge arrays
-  const baseResult = chunkResults[0]
-  const mergedResult: CvDraft = { ...baseResult }
-  
-  // Merge experience arrays
-  const allExperience = chunkResults.flatMap(result => result.experience)
-  mergedResult.experience = deduplicateAndMergeExperience(allExperience)
-  
-  // Merge education arrays
-  const allEducation = chunkResults.flatMap(result => result.education)
-  mergedResult.education = deduplicateAndMergeEducation(allEducation)
-  
-     // Merge skills arrays
-   const allSkills = chunkResults.flatMap(result => result.skills)
-   mergedResult.skills = Array.from(new Set(allSkills))
-   
-   // Merge interests arrays
-   const allInterests = chunkResults.flatMap(result => result.interests)
-   mergedResult.interests = Array.from(new Set(allInterests))
-   
-   // Merge audit trails
-   const allRules = chunkResults.flatMap(result => result.audit.rulesApplied)
-   const allIssues = chunkResults.flatMap(result => result.audit.issues)
-   mergedResult.audit = {
-     rulesApplied: Array.from(new Set(allRules)),
-     issues: Array.from(new Set(allIssues))
-   }
-  
-  return mergedResult
-}
-
-// Deduplicate and merge experience entries
-function deduplicateAndMergeExperience(experiences: any[]): any[] {
-  const seen = new Set<string>()
-  const unique: any[] = []
-  
-  for (const exp of experiences) {
-    const key = `${exp.company}-${exp.role}-${exp.startDate}`
-    if (!seen.has(key)) {
-      seen.add(key)
-      unique.push(exp)
-    }
-  }
-  
-  // Sort by start date (reverse chronological)
-  return unique.sort((a, b) => {
-    const dateA = new Date(a.startDate)
-    const dateB = new Date(b.startDate)
-    return dateB.getTime() - dateA.getTime()
-  })
-}
-
-// Deduplicate and merge education entries
-function deduplicateAndMergeEducation(education: any[]): any[] {
-  const seen = new Set<string>()
-  const unique: any[] = []
-  
-  for (const edu of education) {
-    const key = `${edu.institution}-${edu.degree}-${edu.startDate}`
-    if (!seen.has(key)) {
-      seen.add(key)
-      unique.push(edu)
-    }
-  }
-  
-  // Sort by start date (reverse chronological)
-  return unique.sort((a, b) => {
-    const dateA = new Date(a.startDate)
-    const dateB = new Date(b.startDate)
-    return dateB.getTime() - dateA.getTime()
-  })
-}
-
-// Process with specific provider
-async function processWithProvider(rawText: string, providerName: string): Promise<CvDraft> {
-  const provider = PROVIDERS[providerName]
+// Process with specific provider, recording the tokens each call used in the ledger if one is given.
+// With a stream, the reply is streamed and each section sent as soon as the model has written it
+async function processWithProvider(
+  rawText: string,
+  providerName: string,
+  prompt: ExtractionPrompt,
+  usage?: UsageLedger,
+  chunk?: number,
+  stream?: DraftStream
+): Promise<CvDraft> {
+  const provider = getProvider(providerName, 'extraction')
   if (!provider) {
     throw new Error(`Unknown provider: ${providerName}`)
   }
   
   // Create LLM instance
-  const llm = await createLLMInstance(providerName, provider)
+  const llm = await createLLMInstance(provider)
   
-  // Create output parser
-  const parser = StructuredOutputParser.fromZodSchema(CvDraftSchema)
+  // Personal details the provider may not receive are swapped for tokens, and put back in its draft
+  const redaction = redactPii(rawText, getRedactedCategories(provider))
+  const redactedCount = Object.keys(redaction.tokens).length
+  if (redactedCount > 0) {
+    console.log(`🔒 Redacted ${redactedCount} personal details before sending to ${provider.name}`)
+  }
+  
+  // Describes the schema to the model; replies are parsed and repaired by parseDraftWithRepair
+  const parser = StructuredOutputParser.fromZodSchema(ExtractedDraftSchema)
   
-  // Create prompt template
+  // Create prompt template; braces in the prompt text are literal
   const promptTemplate = PromptTemplate.fromTemplate(`
-${EHS_SYSTEM_PROMPT}
+${prompt.text.replace(/[{}]/g, brace => brace + brace)}
 
 {format_instructions}
 
 CV TEXT TO PROCESS:
-{rawText}
+{rawText}{redaction_note}
 
 Please analyze this CV text and output a properly formatted CV following the EHS standards above. Output ONLY the JSON object matching the schema, no additional text or explanations.`)
 
-  // Create processing chain
-  const chain = RunnableSequence.from([
-    promptTemplate,
-    llm,
-    parser
-  ])
-  
-  // Process the text
-  const result = await chain.invoke({
-    rawText,
+  // The conversation with the model: the prompt, then a correction round for each schema repair
+  const messages: BaseMessage[] = (await promptTemplate.invoke({
+    rawText: redaction.text,
+    redaction_note: redactedCount > 0 ? REDACTION_NOTE : '',
     format_instructions: parser.getFormatInstructions()
-  })
+  })).toChatMessages()
+  
+  // Tokens of every reply, each billed whether or not its draft was used
+  const replies: NonNullable<ReturnType<typeof getMessageTokens>>[] = []
+  
+  // Sections written so far, with their personal details put back; none is final until the whole
+  // draft passes the schema, so they are sent as the partial result of the only chunk
+  const sendSections = stream && ((text: string) => stream.update(restorePii(completedSections(text), redaction.tokens), 0))
+  
+  // Each call's timeouts, retries and circuit breaking are handled by callProvider
+  const ask = async (): Promise<string> => {
+    const message = await callProvider(provider, signal => sendSections
+      ? streamReply(llm, messages, signal, sendSections)
+      : llm.invoke(messages, { signal }))
+    const tokens = getMessageTokens(message)
+    if (tokens) replies.push(tokens)
+    return message.text
+  }
   
-  // Validate the result
-  return CvDraftSchema.parse(result)
+  try {
+    // Validate the result, repairing it if it fails the schema (see draftRepair.ts)
+    const { draft, repairs } = await parseDraftWithRepair(await ask(), async (errors, reply) => {
+      console.log(`🔧 Asking ${provider.name} to correct ${errors.length} schema error(s)`)
+      messages.push(new AIMessage(reply), new HumanMessage(correctionMessage(errors)))
+      return ask()
+    })
+    // Only the last reply's draft is used
+    replies.forEach((tokens, index) => {
+      usage?.record(provider, tokens, index < replies.length - 1 ? { chunk, failed: true } : { chunk })
+    })
+    const repaired = repairedValues(draft, repairs)
+    const result = repairs.length > 0
+      ? {
+          ...draft,
+          audit: {
+            ...draft.audit,
+            rulesApplied: [...draft.audit.rulesApplied, ...repairs],
+            ...(repaired.length > 0 && { repaired }),
+          },
+        }
+      : draft
+    return {
+      ...restorePii(result, redaction.tokens),
+      generatedBy: { prompt: prompt.key, models: describeProviderChain([provider.id]) }
+    }
+  } catch (error) {
+    // Unusable replies are billed too
+    replies.forEach(tokens => usage?.record(provider, tokens, { chunk, failed: true }))
+    throw error
+  }
+}
+
+/**
+ * Stream a model's reply, passing the text so far to onText as each piece arrives
+ * @returns The whole reply, with the token usage reported alongside it
+ */
+async function streamReply(
+  llm: Awaited<ReturnType<typeof createLLMInstance>>,
+  messages: BaseMessage[],
+  signal: AbortSignal,
+  onText: (text: string) => void
+): Promise<BaseMessage> {
+  let reply: BaseMessage | undefined
+  for await (const piece of await llm.stream(messages, { signal })) {
+    reply = reply ? concat(reply, piece) : piece
+    onText(reply.text)
+  }
+  if (!reply) {
+    throw new Error('The model sent an empty reply')
+  }
+  return reply
 }
 
-// Create LLM instance based on provider
-async function createLLMInstance(providerName: string, config: ProviderConfig) {
-  switch (providerName) {
+// Create LLM instance based on provider, or one that records or replays its replies when
+// LLM_FIXTURE_MODE is set (see fixtureModel.ts). Replay needs no API key or network
+async function createLLMInstance(config: ProviderConfig) {
+  const fixtureMode = getFixtureMode()
+  if (fixtureMode === 'replay') {
+    return createFixtureModel({ provider: config, mode: 'replay' })
+  }
+  
+  const model = createProviderModel(config)
+  return fixtureMode === 'record' ? createFixtureModel({ provider: config, mode: 'record', model }) : model
+}
+
+// LangChain's own retries are turned off (maxRetries: 0) so only callProvider retries, and only for 429 and 5xx answers
+function createProviderModel(config: ProviderConfig) {
+  switch (config.type) {
     case 'openai':
-      if (!OPENAI_API_KEY) {
-        throw new Error('OpenAI API key not configured')
+      if (!config.apiKey) {
+        throw new Error(`${config.name} API key not configured`)
       }
       return new ChatOpenAI({
         modelName: config.model,
         temperature: config.temperature,
         maxTokens: config.maxTokens,
-        openAIApiKey: OPENAI_API_KEY
+        maxRetries: 0,
+        apiKey: config.apiKey
       })
       
     case 'anthropic':
-      if (!ANTHROPIC_API_KEY) {
-        throw new Error('Anthropic API key not configured')
+      if (!config.apiKey) {
+        throw new Error(`${config.name} API key not configured`)
       }
       return new ChatAnthropic({
         modelName: config.model,
         temperature: config.temperature,
         maxTokens: config.maxTokens,
-        anthropicApiKey: ANTHROPIC_API_KEY
+        maxRetries: 0,
+        anthropicApiKey: config.apiKey
       })
       
     case 'gemini':
-      if (!GOOGLE_API_KEY) {
-        throw new Error('Google API key not configured')
+      if (!config.apiKey) {
+        throw new Error(`${config.name} API key not configured`)
       }
-             return new ChatGoogleGenerativeAI({
-         model: config.model,
-         temperature: config.temperature,
-         apiKey: GOOGLE_API_KEY
-       })
+      return new ChatGoogleGenerativeAI({
+        model: config.model,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+        maxRetries: 0,
+        apiKey: config.apiKey
+      })
+      
+    // Self-hosted servers speaking the OpenAI API: llama.cpp, vLLM, Ollama
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error(`${config.name} base URL not configured`)
+      }
+      return new ChatOpenAI({
+        modelName: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        maxRetries: 0,
+        // Most local servers ignore the key, but the OpenAI client requires one
+        apiKey: config.apiKey || 'not-needed',
+        configuration: { baseURL: config.baseUrl },
+        modelKwargs: config.jsonMode ? { response_format: { type: 'json_object' } } : undefined
+      })
       
     default:
-      throw new Error(`Unsupported provider: ${providerName}`)
+      throw new Error(`Unsupported provider type: ${config.type}`)
   }
 }
 
@@ -448,18 +585,25 @@ function normalizeBulletPoint(text: string): string {
     .trim()
 }
 
-// Export provider information for debugging
+// AI providers that can be called now: configured with a key or URL, not failing their last
+// health check (see checkProviderHealth) and not skipped by their circuit breaker.
+// The heuristic provider is always available and not included.
 export function getAvailableProviders(): string[] {
-  const available: string[] = []
-  
-  if (OPENAI_API_KEY) available.push('openai')
-  if (ANTHROPIC_API_KEY) available.push('anthropic')
-  if (GOOGLE_API_KEY) available.push('gemini')
-  
-  return available
+  return listProviders().filter(id => {
+    const provider = getProvider(id)
+    return provider?.type !== 'heuristic' &&
+      isConfigured(provider) &&
+      getProviderHealth(id)?.healthy !== false &&
+      !isCircuitOpen(id)
+  })
+}
+
+// Providers and models a chain would use, e.g. ['openai:gpt-4o-mini']; part of cache keys for drafts
+export function describeProviderChain(providers: string[] = getProviderChain('extraction')): string[] {
+  return providers.map(id => `${id}:${getProvider(id, 'extraction')?.model ?? 'unknown'}`)
 }
 
 // Export provider configuration
 export function getProviderConfig(providerName: string): ProviderConfig | null {
-  return PROVIDERS[providerName] || null
+  return getProvider(providerName)
 }
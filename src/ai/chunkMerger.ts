@@ -0,0 +1,266 @@
+import { CvDraft } from '../../shared/schemas/cv.schema'
+import { normalizeValue } from './ensemble'
+import { dateSortValue, PLACEHOLDER } from './heuristicExtractor'
+
+// Combines the drafts extracted from the chunks of a long CV. A job or course that spans
+// two chunks comes back from both, often worded a little differently and with only part
+// of its bullets in each, so entries are matched on employer or institution, role or
+// degree and dates rather than exact strings, and matched entries are merged.
+
+type Experience = CvDraft['experience'][number]
+type Education = CvDraft['education'][number]
+
+// Words that do not tell two employers, institutions, roles or degrees apart
+const IGNORED_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'the', 'to', 'with',
+  'ltd', 'limited', 'inc', 'llc', 'llp', 'plc', 'gmbh', 'ag', 'sa', 'corp', 'co',
+])
+
+function isMissing(value: string | undefined): boolean {
+  return !value || !value.trim() || value === PLACEHOLDER
+}
+
+// Accents folded, so "Zürich" and "Zurich" are one word
+function words(value: string): string[] {
+  return normalizeValue(value.normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+    .split(' ')
+    .filter(word => word && !IGNORED_WORDS.has(word))
+}
+
+// "Prof" and "Professor", "Dept" and "Department"
+function sameWord(a: string, b: string): boolean {
+  return a === b || (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a)))
+}
+
+// Same name when one's words are all in the other, allowing abbreviations:
+// "Acme" and "Acme Ltd", "Oxford University" and "University of Oxford", "Assoc. Prof." and "Associate Professor"
+function similarNames(a: string, b: string): boolean {
+  const wordsA = words(a)
+  const wordsB = words(b)
+  if (wordsA.length === 0 || wordsB.length === 0) return false
+
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA]
+  return shorter.every(word => longer.some(other => sameWord(word, other)))
+}
+
+// Dates agree unless both are known and differ; a bare year agrees with any month of it
+function compatibleDates(a: string, b: string): boolean {
+  if (isMissing(a) || isMissing(b)) return true
+
+  const valueA = dateSortValue(a)
+  const valueB = dateSortValue(b)
+  if (valueA === null || valueB === null) return normalizeValue(a) === normalizeValue(b)
+  if (valueA === valueB) return true
+
+  const yearOnly = (date: string) => /^(?:19|20)\d{2}$/.test(date.trim())
+  return (yearOnly(a) || yearOnly(b)) && Math.floor(valueA / 12) === Math.floor(valueB / 12)
+}
+
+/**
+ * Whether two entries from different chunks describe the same job or course: the same
+ * organisation, a similar title (or one missing) and no conflicting dates. A promotion
+ * at the same employer differs in its dates, so it stays a separate entry.
+ */
+function sameEntry(
+  organisation: [string, string],
+  title: [string, string],
+  dates: [string, string][]
+): boolean {
+  const [orgA, orgB] = organisation
+  const [titleA, titleB] = title
+
+  // Without an organisation on one side, only an identical title and dates are enough
+  if (isMissing(orgA) || isMissing(orgB)) {
+    return !isMissing(titleA) && normalizeValue(titleA) === normalizeValue(titleB) &&
+      dates.every(([a, b]) => !isMissing(a) && normalizeValue(a) === normalizeValue(b))
+  }
+
+  return similarNames(orgA, orgB) &&
+    (isMissing(titleA) || isMissing(titleB) || similarNames(titleA, titleB)) &&
+    dates.every(([a, b]) => compatibleDates(a, b))
+}
+
+// The fuller of two versions of a value: a real value over a placeholder, then the longer
+function fuller(a: string, b: string): string {
+  if (isMissing(a)) return isMissing(b) ? a : b
+  if (isMissing(b)) return a
+  return b.trim().length > a.trim().length ? b : a
+}
+
+// The more precise of two dates: one with a month over a bare year
+function preciser(a: string, b: string): string {
+  if (isMissing(a)) return isMissing(b) ? a : b
+  if (isMissing(b)) return a
+  return /^(?:19|20)\d{2}$/.test(a.trim()) && !/^(?:19|20)\d{2}$/.test(b.trim()) ? b : a
+}
+
+// A bullet cut off at a chunk boundary: the shorter starts the longer, and is long enough to be telling
+function isTruncation(shorter: string, longer: string): boolean {
+  return shorter.split(' ').length >= 3 && longer.startsWith(`${shorter} `)
+}
+
+/**
+ * Every item from both lists once, in order, ignoring case and punctuation. With
+ * truncated set, a bullet cut off at a chunk boundary gives way to its full version.
+ */
+function unionItems(a: string[], b: string[], truncated = false): string[] {
+  const merged: string[] = []
+  for (const item of a.concat(b)) {
+    if (isMissing(item)) continue
+
+    const key = normalizeValue(item)
+    const existing = merged.findIndex(kept => {
+      const keptKey = normalizeValue(kept)
+      return keptKey === key || (truncated && (isTruncation(key, keptKey) || isTruncation(keptKey, key)))
+    })
+    if (existing === -1) {
+      merged.push(item)
+    } else if (item.trim().length > merged[existing].trim().length) {
+      merged[existing] = item
+    }
+  }
+
+  // The schema needs at least one item, so a placeholder stands in when there is nothing else
+  return merged.length > 0 || a.concat(b).length === 0 ? merged : [PLACEHOLDER]
+}
+
+function mergeExperience(a: Experience, b: Experience): Experience {
+  return {
+    role: fuller(a.role, b.role),
+    company: fuller(a.company, b.company),
+    startDate: preciser(a.startDate, b.startDate),
+    endDate: preciser(a.endDate, b.endDate),
+    bullets: unionItems(a.bullets, b.bullets, true),
+  }
+}
+
+function mergeEducation(a: Education, b: Education): Education {
+  return {
+    degree: fuller(a.degree, b.degree),
+    institution: fuller(a.institution, b.institution),
+    startDate: preciser(a.startDate, b.startDate),
+    endDate: preciser(a.endDate, b.endDate),
+    details: unionItems(a.details, b.details, true),
+  }
+}
+
+// A chunk without any jobs or courses still has to return one, made of placeholders
+function isPlaceholderEntry(entry: Experience | Education): boolean {
+  return Object.values(entry).every(value =>
+    Array.isArray(value) ? value.every(item => isMissing(item)) : isMissing(value))
+}
+
+// Merge each entry into the first earlier one it matches, dropping placeholder entries
+// unless there is nothing else
+function mergeEntries<T extends Experience | Education>(entries: T[], same: (a: T, b: T) => boolean, merge: (a: T, b: T) => T): T[] {
+  const real = entries.filter(entry => !isPlaceholderEntry(entry))
+  if (real.length === 0) return entries.slice(0, 1)
+
+  const merged: T[] = []
+  for (const entry of real) {
+    const index = merged.findIndex(existing => same(existing, entry))
+    if (index === -1) {
+      merged.push(entry)
+    } else {
+      merged[index] = merge(merged[index], entry)
+    }
+  }
+  return merged
+}
+
+/**
+ * Newest first by start date, then end date, with ongoing entries ahead. Entries without
+ * a readable start date go last, keeping their order
+ */
+function byDateDescending<T extends { startDate: string; endDate: string }>(entries: T[]): T[] {
+  const sortValue = (date: string) => dateSortValue(date) ?? -Infinity
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) =>
+      sortValue(b.entry.startDate) - sortValue(a.entry.startDate) ||
+      sortValue(b.entry.endDate) - sortValue(a.entry.endDate) ||
+      a.index - b.index)
+    .map(({ entry }) => entry)
+}
+
+// Header with the most fields filled in; the earliest chunk wins a tie
+function mostCompleteHeader(headers: CvDraft['header'][]): CvDraft['header'] {
+  const filled = (header: CvDraft['header']) =>
+    Object.values(header).filter(value => typeof value === 'string' && !isMissing(value)).length
+  return headers.reduce((best, header) => (filled(header) > filled(best) ? header : best))
+}
+
+// Each detail from the first chunk that found it
+function mergePersonalDetails(details: CvDraft['personalDetails'][]): CvDraft['personalDetails'] {
+  const first = (pick: (detail: CvDraft['personalDetails']) => string) =>
+    details.map(pick).find(value => !isMissing(value)) ?? pick(details[0])
+
+  return {
+    nationality: first(detail => detail.nationality),
+    languages: details.map(detail => detail.languages).reduce((a, b) => unionItems(a, b)),
+    dob: first(detail => detail.dob),
+    maritalStatus: first(detail => detail.maritalStatus),
+  }
+}
+
+/**
+ * What produced a draft combined from several: the first prompt recorded and every model
+ */
+export function mergeGeneratedBy(drafts: CvDraft[]): CvDraft['generatedBy'] {
+  const recorded = drafts.flatMap(draft => (draft.generatedBy ? [draft.generatedBy] : []))
+  if (recorded.length === 0) return undefined
+
+  const prompt = recorded.map(generatedBy => generatedBy.prompt).find(Boolean)
+  return {
+    ...(prompt && { prompt }),
+    models: Array.from(new Set(recorded.flatMap(generatedBy => generatedBy.models))),
+  }
+}
+
+/**
+ * Combine the drafts from each chunk of a CV into one
+ * @param chunkResults - Drafts in the order their chunks appear in the CV
+ */
+export function mergeChunkResults(chunkResults: CvDraft[]): CvDraft {
+  if (chunkResults.length === 0) {
+    throw new Error('No chunks were processed successfully')
+  }
+
+  if (chunkResults.length === 1) {
+    return chunkResults[0]
+  }
+
+  const experience = mergeEntries(
+    chunkResults.flatMap(result => result.experience),
+    (a, b) => sameEntry([a.company, b.company], [a.role, b.role], [[a.startDate, b.startDate], [a.endDate, b.endDate]]),
+    mergeExperience
+  )
+  const education = mergeEntries(
+    chunkResults.flatMap(result => result.education),
+    (a, b) => sameEntry([a.institution, b.institution], [a.degree, b.degree], [[a.startDate, b.startDate], [a.endDate, b.endDate]]),
+    mergeEducation
+  )
+
+  // The fullest profile; a chunk that only saw part of the CV often has a shorter or placeholder one
+  const profile = chunkResults.map(result => result.profile).reduce(fuller)
+  const generatedBy = mergeGeneratedBy(chunkResults)
+  const uncertain = Array.from(new Set(chunkResults.flatMap(result => result.audit.uncertain ?? [])))
+  const repaired = Array.from(new Set(chunkResults.flatMap(result => result.audit.repaired ?? [])))
+
+  return {
+    header: mostCompleteHeader(chunkResults.map(result => result.header)),
+    personalDetails: mergePersonalDetails(chunkResults.map(result => result.personalDetails)),
+    profile,
+    experience: byDateDescending(experience),
+    education: byDateDescending(education),
+    skills: chunkResults.map(result => result.skills).reduce((a, b) => unionItems(a, b)),
+    interests: chunkResults.map(result => result.interests).reduce((a, b) => unionItems(a, b)),
+    audit: {
+      rulesApplied: Array.from(new Set(chunkResults.flatMap(result => result.audit.rulesApplied))),
+      issues: Array.from(new Set(chunkResults.flatMap(result => result.audit.issues))),
+      ...(uncertain.length > 0 && { uncertain }),
+      ...(repaired.length > 0 && { repaired }),
+    },
+    ...(generatedBy && { generatedBy }),
+  }
+}
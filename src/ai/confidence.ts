@@ -0,0 +1,38 @@
+import { CvDraft } from '../../shared/schemas/cv.schema'
+import { Provenance } from '../../shared/provenance/provenance'
+import { buildConfidence, FieldConfidence } from '../../shared/confidence/confidence'
+import { GroundingReport } from './groundingVerifier'
+import { PLACEHOLDER } from './heuristicExtractor'
+import { NOT_FROM_TEXT } from './provenance'
+
+export interface ConfidenceEvidence {
+  // From verifying this draft: in strict mode its paths index the draft verifyGrounding returned
+  grounding?: GroundingReport
+  provenance?: Provenance
+  // The audit as the pipeline produced it, before grounding added its own issues (which the
+  // grounding scores already count); defaults to the draft's
+  audit?: CvDraft['audit']
+}
+
+/**
+ * Confidence from 0 to 1 in each value of a draft, keyed by JSON path like its provenance.
+ * Combines how well the source text supports the value, the values the model said it was unsure
+ * of, the issues the model (or the ensemble) reported in the audit, and the fields the schema
+ * repair stage had to fix
+ */
+export function scoreDraftConfidence(draft: CvDraft, evidence: ConfidenceEvidence = {}): FieldConfidence {
+  const audit = evidence.audit ?? draft.audit
+  const grounding = evidence.grounding
+    ? Object.fromEntries(evidence.grounding.fields.map(field => [field.path, field.score]))
+    : undefined
+
+  return buildConfidence(draft, {
+    skip: NOT_FROM_TEXT,
+    grounding,
+    provenance: evidence.provenance,
+    issues: audit.issues,
+    uncertainValues: audit.uncertain,
+    repairedValues: audit.repaired,
+    placeholder: PLACEHOLDER,
+  })
+}
@@ -0,0 +1,133 @@
+import { CvDraft, CvDraftSchema } from '../../shared/schemas/cv.schema'
+import { PLACEHOLDER } from './heuristicExtractor'
+
+// Partial results of an extraction, sent while it runs so a client can fill in the preview
+// rather than wait on a spinner. A CV extracted in one call streams the model's reply and sends
+// each section as soon as the model has finished writing it; a CV split into chunks sends each
+// section as soon as a chunk holding it is extracted, and again whenever a later chunk changes it.
+
+export type DraftSection = 'header' | 'personalDetails' | 'profile' | 'experience' | 'education' | 'skills' | 'interests'
+
+// In the order a CV reads, which is the order changed sections are sent in
+export const DRAFT_SECTIONS: DraftSection[] = ['header', 'personalDetails', 'profile', 'experience', 'education', 'skills', 'interests']
+
+export type DraftEvent =
+  // The CV was split into this many chunks, extracted in parallel
+  | { type: 'chunks'; total: number }
+  // A section of the draft so far; replaces what was sent for it before
+  | { type: 'section'; section: DraftSection; value: CvDraft[DraftSection]; completed: number; total: number }
+
+export type DraftEventListener = (event: DraftEvent) => void
+
+type DraftSections = Partial<Pick<CvDraft, DraftSection>>
+
+// Nothing but placeholders, e.g. the experience a chunk without any jobs has to return
+function isPlaceholder(value: unknown): boolean {
+  if (typeof value === 'string') return value === PLACEHOLDER || !value.trim()
+  if (Array.isArray(value)) return value.every(isPlaceholder)
+  if (value && typeof value === 'object') return Object.values(value).every(isPlaceholder)
+  return value === undefined || value === null
+}
+
+/**
+ * Top-level members of a JSON object that is still being written, once each value is complete.
+ * Text before the opening brace (e.g. a Markdown code fence) is skipped
+ */
+export function completedMembers(text: string): Record<string, unknown> {
+  const members: Record<string, unknown> = {}
+  const start = text.indexOf('{')
+  if (start < 0) return members
+
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let memberStart = start + 1
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) {
+        addMember(members, text.slice(memberStart, i))
+        break
+      }
+    } else if (char === ',' && depth === 1) {
+      addMember(members, text.slice(memberStart, i))
+      memberStart = i + 1
+    }
+  }
+  return members
+}
+
+function addMember(members: Record<string, unknown>, member: string): void {
+  try {
+    Object.assign(members, JSON.parse(`{${member}}`))
+  } catch {
+    // Not JSON after all; the draft parser reports it once the reply is complete
+  }
+}
+
+/**
+ * The sections of a draft the model has finished writing so far, each only once it is valid
+ * @param text - The reply so far
+ */
+export function completedSections(text: string): DraftSections {
+  const members = completedMembers(text)
+  const sections: Record<string, unknown> = {}
+  for (const section of DRAFT_SECTIONS) {
+    if (section in members && CvDraftSchema.shape[section].safeParse(members[section]).success) {
+      sections[section] = members[section]
+    }
+  }
+  return sections as DraftSections
+}
+
+/**
+ * Sends the sections of a draft as it grows, each only when it differs from what was last sent
+ */
+export class DraftStream {
+  private readonly sent = new Map<DraftSection, string>()
+  private total = 1
+
+  constructor(private readonly listener: DraftEventListener) {}
+
+  chunks(total: number): void {
+    this.total = total
+    this.emit({ type: 'chunks', total })
+  }
+
+  /**
+   * Send the sections that changed since the last update
+   * @param draft - The draft so far; sections it does not have yet are left as they were sent
+   * @param completed - Chunks extracted so far, all of them by default; a partial draft holds back
+   * sections that are only placeholders, since a chunk still running may fill them in
+   */
+  update(draft: DraftSections, completed = this.total): void {
+    const partial = completed < this.total
+    for (const section of DRAFT_SECTIONS) {
+      const value = draft[section]
+      if (value === undefined) continue
+      const json = JSON.stringify(value)
+      if (this.sent.get(section) === json || (partial && isPlaceholder(value))) continue
+
+      this.sent.set(section, json)
+      this.emit({ type: 'section', section, value, completed, total: this.total })
+    }
+  }
+
+  // A failing listener (e.g. a client that went away) must not fail the extraction
+  private emit(event: DraftEvent): void {
+    try {
+      this.listener(event)
+    } catch (error) {
+      console.warn('⚠️ Draft event listener failed:', error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { z } from 'zod'
+import { parseJsonMarkdown } from '@langchain/core/output_parsers'
+import { AuditSchema, CvDraftSchema } from '../../shared/schemas/cv.schema'
+import { flattenFields } from '../../shared/provenance/provenance'
+import { PLACEHOLDER } from './heuristicExtractor'
+
+// Repairs drafts that are valid JSON but fail the schema, rather than giving up on a provider
+// over an empty interests list or a bad photo URL. Deterministic fixes come first; what they
+// cannot fix is sent back to the same model as the schema's errors, for a few rounds at most.
+// Replies that are not JSON at all are not repaired: the next provider is a better bet.
+
+// What the model is asked for: the draft without the pipeline's own fields
+export const ExtractedDraftSchema = CvDraftSchema
+  .omit({ generatedBy: true, confidence: true })
+  .extend({ audit: AuditSchema.omit({ repaired: true }) })
+
+export type ExtractedDraft = z.infer<typeof ExtractedDraftSchema>
+
+// Correction rounds per reply unless AI_REPAIR_ROUNDS says otherwise; 0 leaves only the deterministic fixes
+export const DEFAULT_REPAIR_ROUNDS = 2
+
+// Starts every audit.rulesApplied entry this stage adds
+export const SCHEMA_REPAIR_RULE = 'Schema repair'
+
+// Errors listed per correction round in the audit; the model is sent all of them
+const AUDITED_ERRORS = 5
+
+type Json = Record<string, any>
+
+// Send these errors back to the model with its reply, and resolve to its corrected reply
+export type RequestCorrection = (errors: string[], reply: string) => Promise<string>
+
+export interface RepairResult {
+  draft: ExtractedDraft
+  repairs: string[]   // audit.rulesApplied entries for the fixes and rounds it took
+}
+
+export function getRepairRounds(): number {
+  const rounds = parseInt(process.env.AI_REPAIR_ROUNDS || '', 10)
+  return Number.isNaN(rounds) ? DEFAULT_REPAIR_ROUNDS : Math.max(0, rounds)
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && !value.trim())
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isUrl(value: unknown): boolean {
+  return typeof value === 'string' && z.string().url().safeParse(value).success
+}
+
+// Numbers written as text, e.g. a bare year as startDate
+function fixNumber(parent: Json, key: string): void {
+  if (typeof parent[key] === 'number') {
+    parent[key] = String(parent[key])
+  }
+}
+
+// Details CVs often leave out: a blank one becomes the placeholder
+function fixDetail(parent: Json, key: string, path: string, fixes: string[]): void {
+  fixNumber(parent, key)
+  if (isBlank(parent[key])) {
+    parent[key] = PLACEHOLDER
+    fixes.push(`filled missing ${path} with "${PLACEHOLDER}"`)
+  }
+}
+
+/**
+ * A list of text: a comma-separated string is split, blank items dropped, and an empty list
+ * given the placeholder when the schema needs at least one item
+ */
+function fixList(parent: Json, key: string, path: string, fixes: string[], required = true): void {
+  let value = parent[key]
+  if (typeof value === 'string') {
+    value = value.split(/\s*[,\n]\s*/)
+  }
+  if (!Array.isArray(value)) {
+    // Left for the model to supply
+    if (required) return
+    value = []
+  }
+
+  const items = value
+    .map((item: unknown) => (typeof item === 'number' ? String(item) : item))
+    .filter((item: unknown) => typeof item === 'string' && item.trim())
+  if (items.length < value.length && value.length > 0) {
+    fixes.push(`removed ${value.length - items.length} empty item(s) from ${path}`)
+  }
+  if (items.length === 0 && required) {
+    items.push(PLACEHOLDER)
+    fixes.push(`filled empty ${path} with "${PLACEHOLDER}"`)
+  }
+  parent[key] = items
+}
+
+/**
+ * Fix what can be fixed without asking the model again: blank list items, empty lists,
+ * missing personal details, numbers written as text, an invalid photo URL and a missing
+ * audit. Missing names, titles, profiles, jobs and courses are left for the model.
+ * @returns A fixed copy and a description of each fix
+ */
+export function fixDraft(value: unknown): { draft: unknown; fixes: string[] } {
+  if (!isObject(value)) {
+    return { draft: value, fixes: [] }
+  }
+
+  const fixes: string[] = []
+  const draft: Json = JSON.parse(JSON.stringify(value))
+
+  if (isObject(draft.header) && 'photoUrl' in draft.header && !isUrl(draft.header.photoUrl)) {
+    // Optional, and set by the pipeline from the upload's own photo
+    delete draft.header.photoUrl
+    fixes.push('removed invalid header.photoUrl')
+  }
+
+  if (isObject(draft.personalDetails)) {
+    for (const field of ['nationality', 'dob', 'maritalStatus']) {
+      fixDetail(draft.personalDetails, field, `personalDetails.${field}`, fixes)
+    }
+    fixList(draft.personalDetails, 'languages', 'personalDetails.languages', fixes)
+  }
+
+  const entryLists: [string, string[], string][] = [
+    ['experience', ['startDate', 'endDate'], 'bullets'],
+    ['education', ['startDate', 'endDate'], 'details'],
+  ]
+  for (const [key, dates, listField] of entryLists) {
+    if (!Array.isArray(draft[key])) continue
+    draft[key].filter(isObject).forEach((entry: Json) => {
+      dates.forEach(date => fixNumber(entry, date))
+      fixList(entry, listField, `${key}[${draft[key].indexOf(entry)}].${listField}`, fixes)
+    })
+  }
+
+  fixList(draft, 'skills', 'skills', fixes)
+  fixList(draft, 'interests', 'interests', fixes)
+
+  draft.audit = isObject(draft.audit) ? draft.audit : {}
+  fixList(draft.audit, 'rulesApplied', 'audit.rulesApplied', [], false)
+  fixList(draft.audit, 'issues', 'audit.issues', [], false)
+  if ('uncertain' in draft.audit) {
+    fixList(draft.audit, 'uncertain', 'audit.uncertain', [], false)
+  }
+
+  return { draft, fixes }
+}
+
+// "experience.0.bullets: At least one bullet point is required"
+export function describeErrors(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+}
+
+function parseReply(reply: string): unknown {
+  try {
+    return parseJsonMarkdown(reply, JSON.parse)
+  } catch {
+    throw new Error(`Reply is not JSON: ${reply.slice(0, 200)}`)
+  }
+}
+
+/**
+ * Parse a model's reply into a draft, repairing it when it fails the schema
+ * @param requestCorrection - Asks the same model again; called at most `rounds` times
+ * @throws When the reply is not JSON, or is still invalid after the last round
+ */
+export async function parseDraftWithRepair(
+  reply: string,
+  requestCorrection: RequestCorrection,
+  rounds = getRepairRounds()
+): Promise<RepairResult> {
+  const repairs: string[] = []
+  let current = reply
+
+  for (let round = 0; ; round++) {
+    const { draft, fixes } = fixDraft(parseReply(current))
+    const result = ExtractedDraftSchema.safeParse(draft)
+    if (result.success) {
+      repairs.push(...fixes.map(fix => `${SCHEMA_REPAIR_RULE}: ${fix}`))
+      return { draft: result.data, repairs }
+    }
+
+    const errors = describeErrors(result.error)
+    if (round >= rounds) {
+      throw new Error(`Draft failed the schema after ${rounds} correction round(s): ${errors.join('; ')}`)
+    }
+
+    const listed = errors.slice(0, AUDITED_ERRORS).join('; ') + (errors.length > AUDITED_ERRORS ? '; …' : '')
+    repairs.push(`${SCHEMA_REPAIR_RULE}: round ${round + 1} sent ${errors.length} error(s) back to the model (${listed})`)
+    current = await requestCorrection(errors, current)
+  }
+}
+
+/**
+ * Paths of the fields the repair entries in an audit say were fixed or sent back to the model,
+ * written the way provenance writes them: "experience.0.bullets" becomes "experience[0].bullets"
+ */
+export function repairedPaths(rulesApplied: string[]): string[] {
+  const pattern = new RegExp(`\\b(?:${Object.keys(ExtractedDraftSchema.shape).join('|')})(?:\\.\\w+|\\[\\d+\\])*`, 'g')
+  const paths = rulesApplied
+    .filter(rule => rule.startsWith(`${SCHEMA_REPAIR_RULE}:`))
+    .flatMap(rule => rule.match(pattern) || [])
+    .map(path => path.replace(/\.(\d+)(?=\.|$)/g, '[$1]'))
+  return Array.from(new Set(paths))
+}
+
+/**
+ * The values under the fields the repair entries name. They are recorded by value rather than
+ * path, as entries move when chunks are merged and providers' drafts are voted on
+ */
+export function repairedValues(draft: ExtractedDraft, rulesApplied: string[]): string[] {
+  const paths = repairedPaths(rulesApplied)
+  const values = flattenFields(draft, ['audit'])
+    .filter(field => paths.some(path => field.path === path || field.path.startsWith(`${path}.`) || field.path.startsWith(`${path}[`)))
+    .map(field => field.value)
+    .filter(value => value !== PLACEHOLDER)
+  return Array.from(new Set(values))
+}
+
+/**
+ * The message asking a model to correct its draft
+ */
+export function correctionMessage(errors: string[]): string {
+  return [
+    'Your JSON does not match the required schema. Fix these errors:',
+    ...errors.map(error => `- ${error}`),
+    '',
+    'Reply with the complete corrected JSON object only, no explanations.',
+  ].join('\n')
+}
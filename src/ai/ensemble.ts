@@ -0,0 +1,239 @@
+import { CvDraft } from '../../shared/schemas/cv.schema'
+
+// Field-level voting across drafts of the same CV from several providers. Values the
+// providers agree on are kept; every disagreement is written to audit.issues with each
+// alternative and the providers behind it, so a reviewer can pick.
+//
+// Short fields (names, titles, dates, companies) and list items (languages, skills,
+// interests, experience and education entries) are voted on. Prose (profile, bullets,
+// education details) is worded differently by every model, so it is taken from the first
+// provider that produced the entry rather than compared.
+
+export interface EnsembleCandidate {
+  provider: string
+  draft: CvDraft
+}
+
+// An item and every provider's version of it
+interface ItemGroup<T> {
+  item: T             // The first provider's version
+  providers: string[]
+  versions: { provider: string; item: T }[]
+}
+
+type Experience = CvDraft['experience'][number]
+type Education = CvDraft['education'][number]
+
+export const ENSEMBLE_RULE_PREFIX = 'Ensemble extraction'
+
+// Case, spacing and punctuation do not count as disagreement
+export function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9À-ɏ]+/g, ' ').trim()
+}
+
+function quote(value: string): string {
+  return `"${value}"`
+}
+
+/**
+ * Pick the value most providers gave. With no majority the first candidate's value wins,
+ * as candidates are in provider priority order. Differences are added to issues.
+ */
+function voteOnValue(path: string, values: { provider: string; value: string }[], issues: string[]): string {
+  const groups: { key: string; value: string; providers: string[] }[] = []
+  for (const { provider, value } of values) {
+    const key = normalizeValue(value)
+    const group = groups.find(existing => existing.key === key)
+    if (group) {
+      group.providers.push(provider)
+    } else {
+      groups.push({ key, value, providers: [provider] })
+    }
+  }
+
+  if (groups.length === 1) {
+    return groups[0].value
+  }
+
+  const largest = groups.reduce((best, group) => (group.providers.length > best.providers.length ? group : best))
+  const hasMajority = largest.providers.length * 2 > values.length
+  const chosen = hasMajority ? largest : groups[0]
+
+  const alternatives = groups.map(group => `${quote(group.value)} (${group.providers.join(', ')})`).join(' vs ')
+  const reason = hasMajority ? 'the majority value' : `${chosen.providers[0]}'s value`
+  issues.push(`Providers disagree on ${path}: ${alternatives}; kept ${reason} ${quote(chosen.value)}`)
+
+  return chosen.value
+}
+
+/**
+ * Keep the items at least half the providers listed, in the order they first appear.
+ * Items not every provider listed are reported, kept or not.
+ */
+function voteOnItems<T>(
+  path: string,
+  candidates: { provider: string; items: T[] }[],
+  keyOf: (item: T) => string,
+  describe: (item: T) => string,
+  issues: string[]
+): ItemGroup<T>[] {
+  const groups = new Map<string, ItemGroup<T>>()
+
+  for (const { provider, items } of candidates) {
+    for (const item of items) {
+      const key = keyOf(item)
+      const group = groups.get(key)
+      if (!group) {
+        groups.set(key, { item, providers: [provider], versions: [{ provider, item }] })
+      } else if (!group.providers.includes(provider)) {
+        group.providers.push(provider)
+        group.versions.push({ provider, item })
+      }
+    }
+  }
+
+  const kept: ItemGroup<T>[] = []
+  const dropped: string[] = []
+  const partial: string[] = []
+
+  for (const group of Array.from(groups.values())) {
+    if (group.providers.length === candidates.length) {
+      kept.push(group)
+    } else if (group.providers.length * 2 >= candidates.length) {
+      kept.push(group)
+      partial.push(`${describe(group.item)} (${group.providers.join(', ')})`)
+    } else {
+      dropped.push(`${describe(group.item)} (${group.providers.join(', ')})`)
+    }
+  }
+
+  // The schema needs at least one item, so with no common ground the first provider's list stands
+  if (kept.length === 0) {
+    const first = candidates[0].provider
+    issues.push(`Providers found no ${path} items in common; kept ${first}'s`)
+    return Array.from(groups.values()).filter(group => group.providers.includes(first))
+  }
+
+  if (partial.length > 0) {
+    issues.push(`Not every provider found these ${path} items, kept: ${partial.join('; ')}`)
+  }
+  if (dropped.length > 0) {
+    issues.push(`Only a minority of providers found these ${path} items, not kept: ${dropped.join('; ')}`)
+  }
+
+  return kept
+}
+
+function voteOnStrings(path: string, candidates: { provider: string; items: string[] }[], issues: string[]): string[] {
+  return voteOnItems(path, candidates, normalizeValue, quote, issues).map(group => group.item)
+}
+
+// Entries are matched on employer or institution and start date, the parts models rarely reword
+function experienceKey(entry: Experience): string {
+  return `${normalizeValue(entry.company)}|${normalizeValue(entry.startDate)}`
+}
+
+function educationKey(entry: Education): string {
+  return `${normalizeValue(entry.institution)}|${normalizeValue(entry.startDate)}`
+}
+
+function voteOnExperience(candidates: EnsembleCandidate[], issues: string[]): Experience[] {
+  const groups = voteOnItems(
+    'experience',
+    candidates.map(({ provider, draft }) => ({ provider, items: draft.experience })),
+    experienceKey,
+    entry => `${entry.role} at ${entry.company} (${entry.startDate} - ${entry.endDate})`,
+    issues
+  )
+
+  return groups.map((group, index) => {
+    const field = (name: 'role' | 'company' | 'startDate' | 'endDate') =>
+      voteOnValue(`experience[${index}].${name}`, group.versions.map(({ provider, item }) => ({ provider, value: item[name] })), issues)
+
+    return {
+      role: field('role'),
+      company: field('company'),
+      startDate: field('startDate'),
+      endDate: field('endDate'),
+      bullets: group.item.bullets,
+    }
+  })
+}
+
+function voteOnEducation(candidates: EnsembleCandidate[], issues: string[]): Education[] {
+  const groups = voteOnItems(
+    'education',
+    candidates.map(({ provider, draft }) => ({ provider, items: draft.education })),
+    educationKey,
+    entry => `${entry.degree}, ${entry.institution} (${entry.startDate} - ${entry.endDate})`,
+    issues
+  )
+
+  return groups.map((group, index) => {
+    const field = (name: 'degree' | 'institution' | 'startDate' | 'endDate') =>
+      voteOnValue(`education[${index}].${name}`, group.versions.map(({ provider, item }) => ({ provider, value: item[name] })), issues)
+
+    return {
+      degree: field('degree'),
+      institution: field('institution'),
+      startDate: field('startDate'),
+      endDate: field('endDate'),
+      details: group.item.details,
+    }
+  })
+}
+
+/**
+ * Combine drafts from several providers into one, field by field.
+ * @param candidates - Drafts in provider priority order; the first breaks ties
+ */
+export function voteOnDrafts(candidates: EnsembleCandidate[]): CvDraft {
+  if (candidates.length === 0) {
+    throw new Error('No drafts to vote on')
+  }
+  if (candidates.length === 1) {
+    return candidates[0].draft
+  }
+
+  const [primary] = candidates
+  const issues: string[] = []
+  const scalar = (path: string, pick: (draft: CvDraft) => string) =>
+    voteOnValue(path, candidates.map(({ provider, draft }) => ({ provider, value: pick(draft) })), issues)
+  const list = (path: string, pick: (draft: CvDraft) => string[]) =>
+    voteOnStrings(path, candidates.map(({ provider, draft }) => ({ provider, items: pick(draft) })), issues)
+
+  const draft: CvDraft = {
+    header: {
+      ...primary.draft.header,
+      name: scalar('header.name', d => d.header.name),
+      title: scalar('header.title', d => d.header.title),
+    },
+    personalDetails: {
+      nationality: scalar('personalDetails.nationality', d => d.personalDetails.nationality),
+      languages: list('personalDetails.languages', d => d.personalDetails.languages),
+      dob: scalar('personalDetails.dob', d => d.personalDetails.dob),
+      maritalStatus: scalar('personalDetails.maritalStatus', d => d.personalDetails.maritalStatus),
+    },
+    profile: primary.draft.profile,
+    experience: voteOnExperience(candidates, issues),
+    education: voteOnEducation(candidates, issues),
+    skills: list('skills', d => d.skills),
+    interests: list('interests', d => d.interests),
+    audit: { rulesApplied: [], issues: [] },
+  }
+
+  const providers = candidates.map(candidate => candidate.provider)
+  const uncertain = Array.from(new Set(candidates.flatMap(candidate => candidate.draft.audit.uncertain ?? [])))
+  const repaired = Array.from(new Set(candidates.flatMap(candidate => candidate.draft.audit.repaired ?? [])))
+  draft.audit = {
+    rulesApplied: Array.from(new Set([
+      ...candidates.flatMap(candidate => candidate.draft.audit.rulesApplied),
+      `${ENSEMBLE_RULE_PREFIX} (${providers.join(', ')})`,
+    ])),
+    issues: Array.from(new Set([...candidates.flatMap(candidate => candidate.draft.audit.issues), ...issues])),
+    ...(uncertain.length > 0 && { uncertain }),
+    ...(repaired.length > 0 && { repaired }),
+  }
+
+  return draft
+}
@@ -0,0 +1,119 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base'
+import { AIMessage, BaseMessage, HumanMessage, UsageMetadata, coerceMessageLikeToMessage } from '@langchain/core/messages'
+import { RunnableLambda } from '@langchain/core/runnables'
+import { ProviderConfig } from '../../shared/providers/registry'
+
+// Recorded LLM replies, so the pipeline can be tested end to end without network or API keys.
+// LLM_FIXTURE_MODE=record passes every call through to the real provider and saves the prompt
+// and reply; LLM_FIXTURE_MODE=replay answers from the saved replies and never calls out.
+// Replies are keyed by provider, model and the exact prompt, so a prompt change means re-recording.
+
+export type FixtureMode = 'record' | 'replay'
+
+// Where fixtures are kept unless LLM_FIXTURE_DIR says otherwise
+export const DEFAULT_FIXTURE_DIR = path.join(__dirname, '__tests__', 'fixtures', 'llm')
+
+export interface LlmFixture {
+  provider: string
+  model: string
+  messages: { role: string; content: string }[]
+  reply: {
+    content: string
+    usage?: UsageMetadata
+  }
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public provider: string, public key: string, public file: string) {
+    super(`No recorded reply from ${provider} for this prompt (${key}); run with LLM_FIXTURE_MODE=record to record it`)
+    this.name = 'FixtureNotFoundError'
+  }
+}
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.LLM_FIXTURE_MODE
+  return mode === 'record' || mode === 'replay' ? mode : null
+}
+
+function getFixtureDir(): string {
+  return process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR
+}
+
+// The prompt as chat messages, whether it came as a string, a message list or a prompt value
+function toMessages(input: BaseLanguageModelInput): BaseMessage[] {
+  if (typeof input === 'string') return [new HumanMessage(input)]
+  if (Array.isArray(input)) return input.map(coerceMessageLikeToMessage)
+  return input.toChatMessages()
+}
+
+function toFixtureMessages(messages: BaseMessage[]): LlmFixture['messages'] {
+  return messages.map(message => ({
+    role: message._getType(),
+    content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+  }))
+}
+
+/**
+ * Name of the fixture for a call: a hash of the model and the prompt
+ */
+export function fixtureKey(model: string, messages: LlmFixture['messages']): string {
+  return crypto.createHash('sha256').update(JSON.stringify({ model, messages })).digest('hex').slice(0, 16)
+}
+
+function fixturePath(providerId: string, key: string): string {
+  return path.join(getFixtureDir(), providerId, `${key}.json`)
+}
+
+interface FixtureModelFields {
+  provider: Pick<ProviderConfig, 'id' | 'model'>
+  mode: FixtureMode
+  model?: { invoke(input: BaseLanguageModelInput, options?: { signal?: AbortSignal }): Promise<BaseMessage> }  // The real model, needed to record
+}
+
+/**
+ * Chat model stand-in that records the replies of the real model it wraps, or replays
+ * recorded ones. A RunnableLambda rather than a BaseChatModel subclass, since the ES5
+ * build cannot extend LangChain's native classes
+ */
+export function createFixtureModel({ provider, mode, model }: FixtureModelFields): RunnableLambda<BaseLanguageModelInput, AIMessage> {
+  if (mode === 'record' && !model) {
+    throw new Error(`Recording ${provider.id} needs the real model to call`)
+  }
+
+  return RunnableLambda.from(async (input: BaseLanguageModelInput, config?: { signal?: AbortSignal }) => {
+    const messages = toMessages(input)
+    const fixtureMessages = toFixtureMessages(messages)
+    const key = fixtureKey(provider.model, fixtureMessages)
+    const file = fixturePath(provider.id, key)
+
+    const reply = mode === 'record'
+      ? await record(await model!.invoke(messages, { signal: config?.signal }), { provider: provider.id, model: provider.model, messages: fixtureMessages }, file)
+      : replay(provider.id, key, file)
+
+    return new AIMessage({ content: reply.content, usage_metadata: reply.usage })
+  })
+}
+
+async function record(response: BaseMessage, call: Omit<LlmFixture, 'reply'>, file: string): Promise<LlmFixture['reply']> {
+  const usage = (response as AIMessage).usage_metadata
+  const reply = {
+    content: typeof response.content === 'string' ? response.content : JSON.stringify(response.content),
+    ...(usage && { usage })
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, `${JSON.stringify({ ...call, reply }, null, 2)}\n`)
+  console.log(`📼 Recorded ${call.provider} reply to ${path.relative(process.cwd(), file)}`)
+
+  return reply
+}
+
+function replay(providerId: string, key: string, file: string): LlmFixture['reply'] {
+  if (!fs.existsSync(file)) {
+    throw new FixtureNotFoundError(providerId, key, file)
+  }
+  return (JSON.parse(fs.readFileSync(file, 'utf8')) as LlmFixture).reply
+}
@@ -0,0 +1,236 @@
+import { CvDraft } from '../../shared/schemas/cv.schema'
+import { findDates, mentionsPresent, PLACEHOLDER } from './heuristicExtractor'
+
+// Checks the facts in a draft against the text it was extracted from, so employers,
+// institutions, roles, degrees, dates and skills the model made up are caught. Each
+// value gets a grounding score from 0 (nowhere in the text) to 1 (found verbatim);
+// values below the threshold are flagged in the audit, and strict mode removes
+// experience and education entries, and skills, that are not grounded.
+
+export const DEFAULT_GROUNDING_THRESHOLD = 0.7
+
+export interface GroundingOptions {
+  strict?: boolean      // Remove ungrounded entries and skills instead of only flagging them
+  threshold?: number    // Scores below this are ungrounded (default DEFAULT_GROUNDING_THRESHOLD)
+}
+
+export interface GroundedField {
+  path: string          // e.g. "experience[1].company", indexed as in the returned draft
+  value: string
+  score: number
+  grounded: boolean
+}
+
+/**
+ * In strict mode the fields are those of the returned draft, indexed as they are there, so
+ * they line up with it; entries and skills that were taken out appear only in removed,
+ * indexed as in the draft passed in.
+ */
+export interface GroundingReport {
+  score: number         // Mean of the field scores
+  threshold: number
+  strict: boolean
+  fields: GroundedField[]
+  removed: string[]     // Entries and skills strict mode took out
+}
+
+// A value to check, and where it sits in its item
+interface FieldCheck {
+  suffix: string        // e.g. ".company"; empty for a skill
+  value: string
+  kind: 'text' | 'date'
+}
+
+// Words that carry no evidence either way; legal suffixes are often added or dropped by the model
+const IGNORED_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'the', 'to', 'with',
+  'ltd', 'limited', 'inc', 'llc', 'llp', 'plc', 'gmbh', 'ag', 'sa', 'corp', 'co',
+])
+
+// Source text prepared once for all lookups
+interface SourceIndex {
+  text: string          // Normalised, padded with spaces for whole-word lookups
+  words: string[]
+  wordSet: Set<string>
+  dates: Set<string>
+  years: Set<string>
+  present: boolean
+}
+
+// Lowercase, accents folded, punctuation as spaces
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]+/g, ' ')
+    .trim()
+}
+
+function indexSource(rawText: string): SourceIndex {
+  const text = normalize(rawText)
+  const words = Array.from(new Set(text.split(' ').filter(Boolean)))
+  const dates = findDates(rawText)
+
+  return {
+    text: ` ${text} `,
+    words,
+    wordSet: new Set(words),
+    dates: new Set(dates),
+    years: new Set(dates.map(date => date.slice(-4))),
+    present: mentionsPresent(rawText),
+  }
+}
+
+// Edit distance, giving up once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for a word in the text, 0.8 for a near miss (OCR errors, spelling variants), else 0
+function scoreWord(word: string, source: SourceIndex): number {
+  if (source.wordSet.has(word)) return 1
+  if (word.length < 4) return 0
+
+  const allowed = word.length >= 8 ? 2 : 1
+  return source.words.some(candidate => candidate[0] === word[0] && editDistance(word, candidate, allowed) <= allowed) ? 0.8 : 0
+}
+
+/**
+ * How well a name, title or skill is supported by the text: 1 when it appears verbatim,
+ * otherwise the share of its words found (allowing near misses). "Chief Executive Officer"
+ * also counts as found when the text has "CEO".
+ */
+function scoreText(value: string, source: SourceIndex): number {
+  const normalized = normalize(value)
+  if (!normalized) return 0
+  if (source.text.includes(` ${normalized} `)) return 1
+
+  const allWords = normalized.split(' ')
+  if (allWords.length >= 2) {
+    const initials = allWords.filter(word => !IGNORED_WORDS.has(word)).map(word => word[0]).join('')
+    if (initials.length >= 2 && source.wordSet.has(initials)) return 1
+  }
+
+  const words = allWords.filter(word => !IGNORED_WORDS.has(word))
+  const scored = words.length > 0 ? words : allWords
+  const total = scored.reduce((sum, word) => sum + scoreWord(word, source), 0)
+  return Math.round((total / scored.length) * 100) / 100
+}
+
+/**
+ * How well a normalised date ("Mar 2017", "2017" or "Present") is supported by the
+ * dates in the text. A month the text does not give scores 0.5 when the year is there.
+ */
+function scoreDate(value: string, source: SourceIndex): number {
+  if (/^present$/i.test(value.trim())) return source.present ? 1 : 0
+  if (source.dates.has(value.trim())) return 1
+
+  const year = /(?:19|20)\d{2}/.exec(value)
+  if (year && source.years.has(year[0])) {
+    return /^(?:19|20)\d{2}$/.test(value.trim()) ? 1 : 0.5
+  }
+  return 0
+}
+
+/**
+ * Score the draft's facts against the source text and flag, or in strict mode remove,
+ * those that are not grounded. The draft passed in is not modified.
+ */
+export function verifyGrounding(
+  draft: CvDraft,
+  rawText: string,
+  options: GroundingOptions = {}
+): { draft: CvDraft; report: GroundingReport } {
+  const threshold = options.threshold ?? DEFAULT_GROUNDING_THRESHOLD
+  const strict = Boolean(options.strict)
+  const source = indexSource(rawText)
+  const fields: GroundedField[] = []
+  const issues: string[] = []
+  const removed: string[] = []
+
+  // Placeholders from the heuristic extractor are already reported as missing
+  const scoreValue = (check: FieldCheck): number | null => {
+    if (!check.value || check.value === PLACEHOLDER) return null
+    return check.kind === 'date' ? scoreDate(check.value, source) : scoreText(check.value, source)
+  }
+
+  // Strict mode keeps the items whose deciding field is grounded. The schema needs at least
+  // one of each, so a list with nothing grounded is left whole for a reviewer
+  const keepGrounded = <T>(
+    key: 'experience' | 'education' | 'skills',
+    items: T[],
+    checksFor: (item: T) => FieldCheck[],   // The first check decides whether the item stays
+    describe: (item: T) => string
+  ): T[] => {
+    const scored = items.map(item => checksFor(item).map(check => ({ ...check, score: scoreValue(check) })))
+    let keep = scored.map(([decisive]) => !strict || decisive.score === null || decisive.score >= threshold)
+    if (strict && items.length > 0 && keep.every(kept => !kept)) {
+      issues.push(`Nothing in ${key} is grounded in the source text; kept it for review`)
+      keep = keep.map(() => true)
+    }
+
+    // Fields are reported under the index their item has in the returned list
+    let position = 0
+    items.forEach((item, index) => {
+      if (!keep[index]) {
+        removed.push(`${key}[${index}]: ${describe(item)}`)
+        return
+      }
+      const prefix = `${key}[${position++}]`
+      scored[index].forEach(({ suffix, value, score }) => {
+        if (score === null) return
+        const field = { path: prefix + suffix, value, score, grounded: score >= threshold }
+        fields.push(field)
+        if (!field.grounded) {
+          issues.push(`Not found in the source text: ${field.path} "${value}" (grounding ${score})`)
+        }
+      })
+    })
+    return items.filter((_, index) => keep[index])
+  }
+
+  // An entry stands or falls with its employer or institution
+  const experience = keepGrounded('experience', draft.experience, entry => [
+    { suffix: '.company', value: entry.company, kind: 'text' },
+    { suffix: '.role', value: entry.role, kind: 'text' },
+    { suffix: '.startDate', value: entry.startDate, kind: 'date' },
+    { suffix: '.endDate', value: entry.endDate, kind: 'date' },
+  ], entry => `${entry.role} at ${entry.company}`)
+
+  const education = keepGrounded('education', draft.education, entry => [
+    { suffix: '.institution', value: entry.institution, kind: 'text' },
+    { suffix: '.degree', value: entry.degree, kind: 'text' },
+    { suffix: '.startDate', value: entry.startDate, kind: 'date' },
+    { suffix: '.endDate', value: entry.endDate, kind: 'date' },
+  ], entry => `${entry.degree}, ${entry.institution}`)
+
+  const skills = keepGrounded('skills', draft.skills, skill => [{ suffix: '', value: skill, kind: 'text' }], skill => skill)
+
+  removed.forEach(item => issues.push(`Removed as not found in the source text: ${item}`))
+
+  const verified: CvDraft = { ...draft, experience, education, skills }
+  verified.audit = {
+    ...draft.audit,
+    issues: [...draft.audit.issues, ...issues],
+  }
+
+  const score = fields.length > 0
+    ? Math.round((fields.reduce((sum, field) => sum + field.score, 0) / fields.length) * 100) / 100
+    : 1
+
+  return { draft: verified, report: { score, threshold, strict, fields, removed } }
+}
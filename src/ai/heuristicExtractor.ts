@@ -0,0 +1,17 @@
+// The offline extractor lives in shared/extraction so the Express API reads CVs without a provider the same way
+export {
+  HEURISTIC_PROVIDER,
+  HEURISTIC_RULE,
+  HEURISTIC_MAX_CONFIDENCE,
+  PLACEHOLDER,
+  extractCvHeuristically,
+  isHeuristicDraft,
+  parseEntries,
+  findDateRange,
+  findDates,
+  dateSortValue,
+  mentionsPresent,
+  splitRoleAndCompany,
+  splitDegreeAndInstitution,
+} from '../../shared/extraction/heuristicExtractor'
+export type { HeuristicExtraction, DatedEntry } from '../../shared/extraction/heuristicExtractor'
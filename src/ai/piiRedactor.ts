@@ -0,0 +1,3 @@
+// Redaction lives in shared/pii so the Express API redacts what it sends to providers the same way
+export { PII_CATEGORIES, REDACTION_NOTE, getRedactedCategories, redactPii, restorePii } from '../../shared/pii/piiRedactor'
+export type { PiiCategory, Redaction } from '../../shared/pii/piiRedactor'
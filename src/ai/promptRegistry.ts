@@ -0,0 +1,93 @@
+import fs from 'fs'
+import path from 'path'
+
+// Versioned extraction prompts. Each prompt's text lives in prompts/<id>.v<version>.txt and
+// is never edited once used: a change is a new file and a version bump in prompts.json, so
+// every draft can say which prompt produced it. prompts.json also picks a prompt per client
+// or per CV template (e.g. a stricter tone for finance); AI_PROMPTS_CONFIG replaces it.
+
+const DEFAULT_CONFIG_PATH = path.join(__dirname, 'prompts', 'prompts.json')
+
+interface PromptsConfig {
+  default: string
+  prompts: Record<string, { version: number; description?: string }>
+  clients?: Record<string, string>     // Client id to prompt id
+  templates?: Record<string, string>   // CV template id to prompt id
+}
+
+export interface PromptSelection {
+  clientId?: string
+  templateId?: string
+}
+
+export interface ExtractionPrompt {
+  id: string
+  version: number
+  key: string    // "<id>@<version>", recorded on drafts and part of draft cache keys
+  text: string
+}
+
+let cached: { path: string; modified: number; config: PromptsConfig } | null = null
+
+function getConfigPath(): string {
+  return process.env.AI_PROMPTS_CONFIG
+    ? path.resolve(process.env.AI_PROMPTS_CONFIG)
+    : DEFAULT_CONFIG_PATH
+}
+
+// Read the configuration file, again only when it has changed since the last read
+function loadConfig(): { path: string; config: PromptsConfig } {
+  const configPath = getConfigPath()
+  const modified = fs.statSync(configPath).mtimeMs
+
+  if (!cached || cached.path !== configPath || cached.modified !== modified) {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as PromptsConfig
+    if (!config || typeof config.prompts !== 'object' || !config.prompts[config.default]) {
+      throw new Error(`Invalid prompt configuration in ${configPath}: "default" must name one of "prompts"`)
+    }
+    cached = { path: configPath, modified, config }
+  }
+
+  return cached
+}
+
+/**
+ * A prompt by id, at its current version unless another is asked for
+ */
+export function getPrompt(id: string, version?: number): ExtractionPrompt {
+  const { path: configPath, config } = loadConfig()
+  const entry = config.prompts[id]
+  if (!entry) {
+    throw new Error(`Unknown prompt: ${id}`)
+  }
+
+  const promptVersion = version ?? entry.version
+  const file = path.join(path.dirname(configPath), `${id}.v${promptVersion}.txt`)
+  if (!fs.existsSync(file)) {
+    throw new Error(`Prompt ${id}@${promptVersion} not found at ${file}`)
+  }
+
+  return {
+    id,
+    version: promptVersion,
+    key: `${id}@${promptVersion}`,
+    text: fs.readFileSync(file, 'utf8').replace(/\r?\n$/, ''),
+  }
+}
+
+/**
+ * The prompt for a CV: the client's if it has one, else the template's, else the default
+ */
+export function resolvePrompt(selection: PromptSelection = {}): ExtractionPrompt {
+  const { config } = loadConfig()
+  const id = (selection.clientId && config.clients?.[selection.clientId]) ||
+    (selection.templateId && config.templates?.[selection.templateId]) ||
+    config.default
+  return getPrompt(id)
+}
+
+// Prompt ids with their current version and description
+export function listPrompts(): { id: string; version: number; description?: string }[] {
+  const { config } = loadConfig()
+  return Object.entries(config.prompts).map(([id, entry]) => ({ id, ...entry }))
+}
@@ -0,0 +1,19 @@
+import { CvDraft } from '../../shared/schemas/cv.schema'
+import { flattenFields, locateFields, Provenance } from '../../shared/provenance/provenance'
+import { PLACEHOLDER } from './heuristicExtractor'
+
+// The audit, generatedBy and confidence describe the run and the photo URL is set per upload, so none came from the text
+export const NOT_FROM_TEXT = ['audit', 'generatedBy', 'confidence', 'header.photoUrl']
+
+/**
+ * Link each value in a draft to the characters of the parsed text it came from, so a
+ * reviewer can see why a field says what it says
+ * @param rawText - The text the draft was extracted from
+ * @param pageStarts - Offset at which each page begins, from the parse metadata
+ * @returns Spans keyed by JSON path, e.g. "experience[2].company"
+ */
+export function traceDraftToSource(draft: CvDraft, rawText: string, pageStarts?: number[]): Provenance {
+  // The heuristic extractor's placeholders stand for missing values
+  const fields = flattenFields(draft, NOT_FROM_TEXT).filter(field => field.value !== PLACEHOLDER)
+  return locateFields(rawText, fields, { pageStarts })
+}
@@ -0,0 +1,116 @@
+import { getModelPricing, ProviderConfig } from '../../shared/providers/registry'
+
+// Token counts and cost of the LLM calls made for one CV. Prices come from the
+// "pricing" table in the provider registry (shared/providers/providers.json).
+
+export interface LlmCallUsage {
+  provider: string
+  model: string
+  chunk?: number          // 0-based chunk index when the CV was split
+  promptTokens: number
+  completionTokens: number
+  cost: number            // USD
+  priced: boolean         // False when the model is missing from the price table, so cost is unknown
+  failed?: boolean        // The reply was unusable; its tokens were still billed
+}
+
+export interface UsageBreakdown {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+}
+
+export interface UsageTotals extends UsageBreakdown {
+  currency: 'USD'
+  unpricedModels: string[]
+  byProvider: Record<string, UsageBreakdown>
+}
+
+// Round to a hundredth of a cent; CVs cost fractions of one
+function roundCost(cost: number): number {
+  return Math.round(cost * 10000) / 10000
+}
+
+export function emptyBreakdown(): UsageBreakdown {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+}
+
+export function addToBreakdown(target: UsageBreakdown, usage: UsageBreakdown | LlmCallUsage): void {
+  const calls = 'calls' in usage ? usage.calls : 1
+  target.calls += calls
+  target.promptTokens += usage.promptTokens
+  target.completionTokens += usage.completionTokens
+  target.totalTokens += usage.promptTokens + usage.completionTokens
+  target.cost = roundCost(target.cost + usage.cost)
+}
+
+/**
+ * Cost of a call in USD. Self-hosted providers cost nothing per token; remote models
+ * missing from the price table are reported as unpriced rather than guessed.
+ */
+export function calculateCost(
+  provider: Pick<ProviderConfig, 'model' | 'remote'>,
+  promptTokens: number,
+  completionTokens: number
+): { cost: number; priced: boolean } {
+  const pricing = getModelPricing(provider.model)
+  if (!pricing) {
+    return { cost: 0, priced: provider.remote === false }
+  }
+  const cost = (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1000000
+  return { cost: roundCost(cost), priced: true }
+}
+
+// Token counts from a LangChain chat message, whichever vendor answered
+export function getMessageTokens(message: any): { promptTokens: number; completionTokens: number } | null {
+  const usage = message?.usage_metadata
+  if (usage) {
+    return { promptTokens: usage.input_tokens || 0, completionTokens: usage.output_tokens || 0 }
+  }
+  const tokenUsage = message?.response_metadata?.tokenUsage
+  if (tokenUsage) {
+    return { promptTokens: tokenUsage.promptTokens || 0, completionTokens: tokenUsage.completionTokens || 0 }
+  }
+  return null
+}
+
+// Collects the calls made while processing one CV; pass it to formatCvWithLangChain as opts.usage
+export class UsageLedger {
+  readonly calls: LlmCallUsage[] = []
+
+  record(
+    provider: Pick<ProviderConfig, 'id' | 'model' | 'remote'>,
+    tokens: { promptTokens: number; completionTokens: number },
+    extra: { chunk?: number; failed?: boolean } = {}
+  ): LlmCallUsage {
+    const { cost, priced } = calculateCost(provider, tokens.promptTokens, tokens.completionTokens)
+    const call: LlmCallUsage = {
+      provider: provider.id,
+      model: provider.model,
+      ...(extra.chunk !== undefined ? { chunk: extra.chunk } : {}),
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      cost,
+      priced,
+      ...(extra.failed ? { failed: true } : {}),
+    }
+    this.calls.push(call)
+    return call
+  }
+
+  totals(): UsageTotals {
+    const totals: UsageTotals = { ...emptyBreakdown(), currency: 'USD', unpricedModels: [], byProvider: {} }
+
+    for (const call of this.calls) {
+      addToBreakdown(totals, call)
+      addToBreakdown(totals.byProvider[call.provider] ||= emptyBreakdown(), call)
+      if (!call.priced && !totals.unpricedModels.includes(call.model)) {
+        totals.unpricedModels.push(call.model)
+      }
+    }
+
+    return totals
+  }
+}
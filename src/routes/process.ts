@@ -1,14 +1,35 @@
 import { Router, Request, Response } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
-import { parseFile } from '../services/parseFile';
-import { formatCvWithLangChain } from '../ai/aiProcessor';
+import { parseFile, ParseOptions, PARSER_VERSION } from '../services/parseFile';
+import { ParseError } from '../services/parseErrors';
+import { segmentSections, CvSection } from '../services/sectionSegmenter';
+import {
+  hashFile,
+  isCacheable,
+  parseCacheKey,
+  draftCacheKey,
+  parseResultCache,
+  cvDraftCache
+} from '../services/contentCache';
+import { formatCvWithLangChain, describeProviderChain } from '../ai/aiProcessor';
+import { resolvePrompt } from '../ai/promptRegistry';
+import { isHeuristicDraft } from '../ai/heuristicExtractor';
+import { verifyGrounding, GroundingReport } from '../ai/groundingVerifier';
+import { traceDraftToSource } from '../ai/provenance';
+import { scoreDraftConfidence } from '../ai/confidence';
+import { DraftEvent, DraftStream } from '../ai/draftEvents';
+import { UsageLedger, UsageTotals } from '../ai/usage';
+import { recordUsage } from '../services/usageStore';
+import { uploads } from '../services/uploadStore';
 import { CvDraftSchema, CvDraft } from '../../shared/schemas/cv.schema';
+import { Provenance } from '../../shared/provenance/provenance';
 import { 
   ApiResponse, 
   createSuccessResponse, 
   createErrorResponse, 
   ErrorCode,
+  HTTP_STATUS_CODES,
   AuthenticatedRequest 
 } from '../types/api';
 
@@ -22,106 +43,87 @@ interface ProcessResponse {
   message: string;
   cvDraft?: CvDraft;
   originalContent?: string;
+  sections?: CvSection[];
   processingTime?: number;
+  // Which steps were served from the content-hash cache instead of being recomputed
+  cached?: { parse: boolean; draft: boolean };
+  // Tokens and cost of the LLM calls this run made; zero when the draft came from the cache
+  usage?: UsageTotals;
+  // How well the draft's employers, institutions, roles, degrees, dates and skills match the upload
+  grounding?: GroundingReport;
+  // Where in originalContent each draft value came from, keyed by JSON path such as "experience[2].company"
+  provenance?: Provenance;
   error?: string;
 }
 
-// Mock database - replace with your actual database implementation
-const uploads = new Map<string, any>();
+type ProcessStage = 'parsing' | 'extracting' | 'verifying';
+
+// Progress sent by the streaming route
+type ProcessEvent =
+  | { type: 'stage'; stage: ProcessStage; progress: number; message: string }
+  | DraftEvent;
+
+// Longer documents are not CVs, and would tie up OCR and the AI providers
+const MAX_CV_PAGES = parseInt(process.env.MAX_CV_PAGES || '20');
+
+// 'strict' removes entries and skills that are not in the upload; otherwise they are only flagged
+const GROUNDING_STRICT = process.env.GROUNDING_MODE === 'strict';
 
 const router = Router();
 
 // POST /v1/process/:uploadId - Trigger immediate processing (for dev)
 router.post('/:uploadId', async (req: ProcessRequest, res: Response<ApiResponse<ProcessResponse>>) => {
   const startTime = Date.now();
+  const usage = new UsageLedger();
   
   try {
     const { uploadId } = req.params;
+    const uploadRecord = findOwnUpload(req, res, uploadId);
+    if (!uploadRecord) return;
 
-    if (!uploadId) {
-      return res.status(400).json(createErrorResponse(ErrorCode.MISSING_UPLOAD_ID));
-    }
-
-    if (!req.userId) {
-      return res.status(401).json(createErrorResponse(ErrorCode.UNAUTHORIZED));
-    }
-
-    // Get upload record from database
-    const uploadRecord = uploads.get(uploadId);
-    if (!uploadRecord) {
-      return res.status(404).json(createErrorResponse(ErrorCode.UPLOAD_NOT_FOUND));
-    }
-
-    // Check if user owns this upload
-    if (uploadRecord.userId !== req.userId) {
-      return res.status(403).json(createErrorResponse(ErrorCode.ACCESS_DENIED));
-    }
-
-    // Update status to processing
-    uploadRecord.status = 'processing';
-    uploadRecord.progress = 10;
-    uploadRecord.message = 'Starting file processing...';
-    uploadRecord.updatedAt = new Date().toISOString();
-
-    console.log(`🔄 Starting immediate processing for upload: ${uploadId}`);
-
-    // Step 1: Parse file
-    uploadRecord.progress = 30;
-    uploadRecord.message = 'Parsing file content...';
-    
-    const parseResult = await parseFile(uploadRecord.filePath, uploadRecord.mimeType || 'application/pdf');
-    
-    uploadRecord.progress = 60;
-    uploadRecord.message = 'File parsed successfully, processing with AI...';
-
-    // Step 2: Process with AI
-    const cvDraft = await formatCvWithLangChain(parseResult.rawText);
-    
-    uploadRecord.progress = 90;
-    uploadRecord.message = 'AI processing completed, validating results...';
-
-    // Step 3: Validate with schema
-    const validatedCvDraft = CvDraftSchema.parse(cvDraft);
-    
-    uploadRecord.progress = 100;
-    uploadRecord.status = 'completed';
-    uploadRecord.message = 'Processing completed successfully';
-    uploadRecord.updatedAt = new Date().toISOString();
-
-    const processingTime = Date.now() - startTime;
-
-    console.log(`✅ Processing completed for upload: ${uploadId} in ${processingTime}ms`);
-
-    // Prepare response
-    const response: ProcessResponse = {
-      uploadId,
-      status: 'completed',
-      progress: 100,
-      message: 'CV processed successfully',
-      cvDraft: validatedCvDraft,
-      originalContent: parseResult.rawText,
-      processingTime
-    };
-
+    const response = await processUpload(req, uploadId, uploadRecord, usage, startTime);
     res.json(createSuccessResponse(response, 'CV processed successfully'));
 
   } catch (error) {
-    console.error('Processing error:', error);
-    
-    // Update upload status to failed
-    const { uploadId } = req.params;
-    if (uploadId && uploads.has(uploadId)) {
-      const uploadRecord = uploads.get(uploadId);
-      uploadRecord.status = 'failed';
-      uploadRecord.progress = 0;
-      uploadRecord.message = error instanceof Error ? error.message : 'Processing failed';
-      uploadRecord.updatedAt = new Date().toISOString();
+    const { status, body } = handleProcessingError(req.params.uploadId, error, usage);
+    res.status(status).json(body);
+  }
+});
+
+// POST /v1/process/:uploadId/stream - Process like the route above, sending progress as server-sent events:
+// "stage" as each step starts, "chunks" and "section" as the draft is extracted (see ai/draftEvents.ts),
+// then "done" with the same body the route above responds with, or "error"
+router.post('/:uploadId/stream', async (req: ProcessRequest, res: Response) => {
+  const startTime = Date.now();
+  const usage = new UsageLedger();
+
+  // Until the stream starts, refusals are ordinary JSON responses
+  const { uploadId } = req.params;
+  const uploadRecord = findOwnUpload(req, res, uploadId);
+  if (!uploadRecord) return;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  // Processing carries on if the client goes away, so the result is still stored for it
+  const send = (event: { type: string }) => {
+    if (!res.writableEnded && !res.destroyed) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
     }
+  };
 
-    const processingTime = Date.now() - startTime;
-    
-    res.status(500).json(createErrorResponse(ErrorCode.PROCESSING_FAILED, 'Failed to process CV'));
+  try {
+    const response = await processUpload(req, uploadId, uploadRecord, usage, startTime, send);
+    send({ type: 'done', ...createSuccessResponse(response, 'CV processed successfully') });
+  } catch (error) {
+    const { body } = handleProcessingError(uploadId, error, usage);
+    send({ type: 'error', ...body });
   }
+  res.end();
 });
 
 // GET /v1/process/:uploadId/result - Get processing result
@@ -167,7 +169,11 @@ router.get('/:uploadId/result', async (req: Request<{ uploadId: string }>, res:
       message: uploadRecord.message,
       cvDraft: uploadRecord.cvDraft,
       originalContent: uploadRecord.originalContent,
-      processingTime: uploadRecord.processingTime
+      sections: uploadRecord.sections,
+      processingTime: uploadRecord.processingTime,
+      usage: uploadRecord.usage,
+      grounding: uploadRecord.grounding,
+      provenance: uploadRecord.provenance
     }, 'Processing result retrieved successfully'));
 
   } catch (error) {
@@ -177,6 +183,91 @@ router.get('/:uploadId/result', async (req: Request<{ uploadId: string }>, res:
   }
 });
 
+// GET /v1/process/:uploadId/photo - Serve the candidate photo detected in the upload
+router.get('/:uploadId/photo', async (req: ProcessRequest, res: Response) => {
+  try {
+    const { uploadId } = req.params;
+
+    if (!uploadId) {
+      return res.status(400).json(createErrorResponse(ErrorCode.MISSING_UPLOAD_ID));
+    }
+
+    if (!req.userId) {
+      return res.status(401).json(createErrorResponse(ErrorCode.UNAUTHORIZED));
+    }
+
+    // Get upload record from database
+    const uploadRecord = uploads.get(uploadId);
+    if (!uploadRecord) {
+      return res.status(404).json(createErrorResponse(ErrorCode.UPLOAD_NOT_FOUND));
+    }
+
+    // Check if user owns this upload
+    if (uploadRecord.userId !== req.userId) {
+      return res.status(403).json(createErrorResponse(ErrorCode.ACCESS_DENIED));
+    }
+
+    if (!uploadRecord.photoPath) {
+      return res.status(404).json(createErrorResponse(ErrorCode.FILE_NOT_FOUND, 'No candidate photo was found in this upload'));
+    }
+
+    res.type('image/jpeg');
+    res.sendFile(path.resolve(uploadRecord.photoPath));
+
+  } catch (error) {
+    console.error('Photo retrieval error:', error);
+    
+    res.status(500).json(createErrorResponse(ErrorCode.INTERNAL_SERVER_ERROR, 'Failed to retrieve candidate photo'));
+  }
+});
+
+// DELETE /v1/process/:uploadId/photo - Reject the detected photo
+router.delete('/:uploadId/photo', async (req: ProcessRequest, res: Response<ApiResponse<{ rejected: boolean }>>) => {
+  try {
+    const { uploadId } = req.params;
+
+    if (!uploadId) {
+      return res.status(400).json(createErrorResponse(ErrorCode.MISSING_UPLOAD_ID));
+    }
+
+    if (!req.userId) {
+      return res.status(401).json(createErrorResponse(ErrorCode.UNAUTHORIZED));
+    }
+
+    // Get upload record from database
+    const uploadRecord = uploads.get(uploadId);
+    if (!uploadRecord) {
+      return res.status(404).json(createErrorResponse(ErrorCode.UPLOAD_NOT_FOUND));
+    }
+
+    // Check if user owns this upload
+    if (uploadRecord.userId !== req.userId) {
+      return res.status(403).json(createErrorResponse(ErrorCode.ACCESS_DENIED));
+    }
+
+    if (uploadRecord.photoPath) {
+      await fs.rm(uploadRecord.photoPath, { force: true });
+      delete uploadRecord.photoPath;
+    }
+    if (uploadRecord.cvDraft) {
+      delete uploadRecord.cvDraft.header.photoUrl;
+    }
+
+    // Reprocessing the upload must not bring the photo back
+    uploadRecord.photoRejected = true;
+    uploadRecord.updatedAt = new Date().toISOString();
+
+    console.log(`🖼️ Candidate photo rejected for upload: ${uploadId}`);
+
+    res.json(createSuccessResponse({ rejected: true }, 'Candidate photo removed'));
+
+  } catch (error) {
+    console.error('Photo rejection error:', error);
+    
+    res.status(500).json(createErrorResponse(ErrorCode.INTERNAL_SERVER_ERROR, 'Failed to remove candidate photo'));
+  }
+});
+
 // DELETE /v1/process/:uploadId - Cancel processing (if possible)
 router.delete('/:uploadId', async (req: ProcessRequest, res: Response<ApiResponse<{ cancelled: boolean }>>) => {
   try {
@@ -223,4 +314,230 @@ router.delete('/:uploadId', async (req: ProcessRequest, res: Response<ApiRespons
   }
 });
 
+/**
+ * The upload a process request is for, or undefined once an error response has been sent
+ */
+function findOwnUpload(req: ProcessRequest, res: Response, uploadId: string): any {
+  if (!uploadId) {
+    res.status(400).json(createErrorResponse(ErrorCode.MISSING_UPLOAD_ID));
+    return undefined;
+  }
+
+  if (!req.userId) {
+    res.status(401).json(createErrorResponse(ErrorCode.UNAUTHORIZED));
+    return undefined;
+  }
+
+  // Get upload record from database
+  const uploadRecord = uploads.get(uploadId);
+  if (!uploadRecord) {
+    res.status(404).json(createErrorResponse(ErrorCode.UPLOAD_NOT_FOUND));
+    return undefined;
+  }
+
+  // Check if user owns this upload
+  if (uploadRecord.userId !== req.userId) {
+    res.status(403).json(createErrorResponse(ErrorCode.ACCESS_DENIED));
+    return undefined;
+  }
+
+  return uploadRecord;
+}
+
+/**
+ * Parse, extract and check an upload, storing the result on its record
+ * @param onEvent - Receives each step as it starts and the draft's sections as they are extracted
+ */
+async function processUpload(
+  req: ProcessRequest,
+  uploadId: string,
+  uploadRecord: any,
+  usage: UsageLedger,
+  startTime: number,
+  onEvent?: (event: ProcessEvent) => void
+): Promise<ProcessResponse> {
+  const setStage = (stage: ProcessStage, progress: number, message: string) => {
+    uploadRecord.progress = progress;
+    uploadRecord.message = message;
+    uploadRecord.updatedAt = new Date().toISOString();
+    onEvent?.({ type: 'stage', stage, progress, message });
+  };
+
+  // Update status to processing
+  uploadRecord.status = 'processing';
+  uploadRecord.progress = 10;
+  uploadRecord.message = 'Starting file processing...';
+  uploadRecord.updatedAt = new Date().toISOString();
+
+  console.log(`🔄 Starting immediate processing for upload: ${uploadId}`);
+
+  // Step 1: Parse file
+  setStage('parsing', 30, 'Parsing file content...');
+  
+  const parseOptions: ParseOptions = {
+    extractImages: true,
+    password: uploadRecord.documentPassword,
+    pageLimit: MAX_CV_PAGES
+  };
+
+  // Identical files share parse results and drafts, whoever uploaded them, unless a password opens them
+  uploadRecord.contentHash = uploadRecord.contentHash || await hashFile(uploadRecord.filePath);
+  const parseKey = parseCacheKey(uploadRecord.contentHash, PARSER_VERSION, parseOptions);
+  const cacheable = isCacheable(parseOptions);
+
+  let parseResult = cacheable ? parseResultCache.get(parseKey) : undefined;
+  const parseCached = Boolean(parseResult);
+  try {
+    if (!parseResult) {
+      parseResult = await parseFile(uploadRecord.filePath, uploadRecord.mimeType || 'application/pdf', parseOptions);
+      if (cacheable) {
+        parseResultCache.set(parseKey, parseResult);
+      }
+    }
+  } finally {
+    // The password is only needed to open the file; a wrong one means uploading again
+    delete uploadRecord.documentPassword;
+  }
+  
+  // Keep the detected headshot beside the upload unless the user already rejected it
+  if (parseResult.photo && !uploadRecord.photoRejected) {
+    const photoPath = path.join(path.dirname(uploadRecord.filePath), `${uploadId}-photo.jpg`);
+    await fs.writeFile(photoPath, parseResult.photo.data);
+    uploadRecord.photoPath = photoPath;
+  }
+
+  // Split into sections so chunking follows headings and the editor can trace each section
+  const sections = segmentSections(parseResult.rawText);
+  uploadRecord.sections = sections;
+
+  setStage('extracting', 60, 'File parsed successfully, processing with AI...');
+
+  // Step 2: Process with AI, unless this text has already been formatted with the same prompt and models.
+  // The prompt depends on the client and template the CV is for
+  const prompt = resolvePrompt({ clientId: uploadRecord.clientId, templateId: uploadRecord.templateId });
+  const draftKey = draftCacheKey(parseKey, prompt.key, describeProviderChain());
+  let validatedCvDraft = cacheable ? cvDraftCache.get(draftKey) : undefined;
+  const draftCached = Boolean(validatedCvDraft);
+
+  if (!validatedCvDraft) {
+    const cvDraft = await formatCvWithLangChain(parseResult.rawText, { sections, usage, prompt, onEvent });
+    
+    setStage('verifying', 90, 'AI processing completed, validating results...');
+
+    // Step 3: Validate with schema
+    validatedCvDraft = CvDraftSchema.parse(cvDraft);
+
+    // Offline fallback drafts are not cached, so the AI providers get another try next time
+    if (cacheable && !isHeuristicDraft(validatedCvDraft)) {
+      cvDraftCache.set(draftKey, validatedCvDraft);
+    }
+  } else if (onEvent) {
+    // A cached draft arrives all at once
+    new DraftStream(onEvent).update(validatedCvDraft);
+    setStage('verifying', 90, 'AI processing completed, validating results...');
+  }
+
+  // Check the draft's facts against the text; this runs on cached drafts too, as the mode may have changed
+  const extractedAudit = validatedCvDraft.audit;
+  const grounding = verifyGrounding(validatedCvDraft, parseResult.rawText, { strict: GROUNDING_STRICT });
+  validatedCvDraft = grounding.draft;
+  uploadRecord.grounding = grounding.report;
+
+  // The photo URL belongs to this upload, so set it on a copy rather than the shared cached draft
+  if (uploadRecord.photoPath) {
+    validatedCvDraft = {
+      ...validatedCvDraft,
+      header: { ...validatedCvDraft.header, photoUrl: getPhotoUrl(req, uploadId) }
+    };
+  }
+  uploadRecord.originalContent = parseResult.rawText;
+  uploadRecord.provenance = traceDraftToSource(validatedCvDraft, parseResult.rawText, parseResult.metadata.pageStarts);
+
+  // Score each value so reviewers know where to look; the audit from before grounding holds what the model and schema repair reported
+  validatedCvDraft = {
+    ...validatedCvDraft,
+    confidence: scoreDraftConfidence(validatedCvDraft, {
+      audit: extractedAudit,
+      grounding: grounding.report,
+      provenance: uploadRecord.provenance
+    })
+  };
+  uploadRecord.cvDraft = validatedCvDraft;
+  uploadRecord.usage = storeUsage(uploadRecord, usage);
+  
+  uploadRecord.progress = 100;
+  uploadRecord.status = 'completed';
+  uploadRecord.message = 'Processing completed successfully';
+  uploadRecord.updatedAt = new Date().toISOString();
+
+  const processingTime = Date.now() - startTime;
+
+  console.log(`✅ Processing completed for upload: ${uploadId} in ${processingTime}ms` +
+    (parseCached || draftCached ? ` (cached: parse=${parseCached}, draft=${draftCached})` : ''));
+
+  return {
+    uploadId,
+    status: 'completed',
+    progress: 100,
+    message: 'CV processed successfully',
+    cvDraft: validatedCvDraft,
+    originalContent: parseResult.rawText,
+    sections,
+    processingTime,
+    cached: { parse: parseCached, draft: draftCached },
+    usage: uploadRecord.usage,
+    grounding: uploadRecord.grounding,
+    provenance: uploadRecord.provenance
+  };
+}
+
+/**
+ * Mark an upload failed, and the error response to send for the failure
+ */
+function handleProcessingError(uploadId: string, error: unknown, usage: UsageLedger): { status: number; body: ApiResponse } {
+  console.error('Processing error:', error);
+  
+  // Update upload status to failed
+  const uploadRecord = uploadId ? uploads.get(uploadId) : undefined;
+  if (uploadRecord) {
+    uploadRecord.status = 'failed';
+    uploadRecord.progress = 0;
+    uploadRecord.message = error instanceof Error ? error.message : 'Processing failed';
+    uploadRecord.updatedAt = new Date().toISOString();
+    // Calls made before the failure are still billed
+    if (usage.calls.length > 0) {
+      uploadRecord.usage = storeUsage(uploadRecord, usage);
+    }
+  }
+  
+  // Encrypted, damaged, empty or overlong documents are the uploader's to fix, not a server failure
+  if (error instanceof ParseError) {
+    const errorCode = ErrorCode[error.code];
+    return { status: HTTP_STATUS_CODES[errorCode], body: createErrorResponse(errorCode) };
+  }
+  
+  return { status: 500, body: createErrorResponse(ErrorCode.PROCESSING_FAILED, 'Failed to process CV') };
+}
+
+/**
+ * Totals of a processing run, stored for the usage report
+ */
+function storeUsage(uploadRecord: any, usage: UsageLedger): UsageTotals {
+  const totals = usage.totals();
+  recordUsage({
+    uploadId: uploadRecord.id,
+    userId: uploadRecord.userId,
+    recordedAt: new Date().toISOString(),
+    usage: totals
+  });
+  return totals;
+}
+
+/**
+ * Absolute URL of the photo endpoint, as the CV schema requires a full URL
+ */
+function getPhotoUrl(req: Request, uploadId: string): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}/${uploadId}/photo`;
+}
+
 export default router;
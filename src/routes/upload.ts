@@ -4,6 +4,9 @@ import path from 'path';
 import fs from 'fs/promises';
 import { Queue } from 'bullmq';
 import { v4 as uuidv4 } from 'uuid';
+import { isFileSupported } from '../services/parseFile';
+import { hashFile } from '../services/contentCache';
+import { uploads, toUploadStatus, UploadRecord, UploadStatus } from '../services/uploadStore';
 import { 
   ApiResponse, 
   createSuccessResponse, 
@@ -13,16 +16,12 @@ import {
 } from '../types/api';
 
 // Types
-interface UploadStatus {
-  id: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  message?: string;
-  createdAt: string;
-  updatedAt: string;
-  fileName: string;
-  fileSize: number;
-  userId: string;
+interface UploadResult {
+  uploadId: string;
+  contentHash: string;
+  // True when anyone has uploaded this file before; its parse and draft will come from the cache
+  duplicate: boolean;
+  duplicateOf?: string;
 }
 
 // Multer configuration
@@ -43,14 +42,8 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-  ];
-
-  if (allowedTypes.includes(file.mimetype)) {
+  // Accept exactly what the parser can handle, including image CVs
+  if (isFileSupported(file.mimetype, file.originalname)) {
     cb(null, true);
   } else {
     cb(new Error(`Unsupported file type: ${file.mimetype}`));
@@ -75,13 +68,18 @@ const processingQueue = new Queue('cv-processing', {
   }
 });
 
-// Mock database - replace with your actual database implementation
-const uploads = new Map<string, UploadStatus>();
+// Upload ids by content hash, oldest first (mock index)
+const uploadsByHash = new Map<string, string[]>();
+
+// A text form field sent alongside the file; empty or missing gives undefined
+function formField(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
 
 const router = Router();
 
 // POST /v1/upload - Upload CV file
-router.post('/', upload.single('cvFile'), async (req: FileUploadRequest, res: Response<ApiResponse<{ uploadId: string }>>) => {
+router.post('/', upload.single('cvFile'), async (req: FileUploadRequest, res: Response<ApiResponse<UploadResult>>) => {
   try {
     if (!req.file) {
       return res.status(400).json(createErrorResponse(ErrorCode.FILE_MISSING));
@@ -94,8 +92,15 @@ router.post('/', upload.single('cvFile'), async (req: FileUploadRequest, res: Re
     const uploadId = uuidv4();
     const now = new Date().toISOString();
 
+    // Only point at earlier uploads the user owns; others just mark the file as already seen
+    const contentHash = await hashFile(req.file.path);
+    const clientId = formField(req.body?.clientId);
+    const templateId = formField(req.body?.templateId);
+    const earlierUploads = uploadsByHash.get(contentHash) || [];
+    const duplicateOf = earlierUploads.find(id => uploads.get(id)?.userId === req.userId);
+
     // Create upload record
-    const uploadRecord: UploadStatus = {
+    const uploadRecord: UploadRecord = {
       id: uploadId,
       status: 'queued',
       progress: 0,
@@ -104,18 +109,30 @@ router.post('/', upload.single('cvFile'), async (req: FileUploadRequest, res: Re
       updatedAt: now,
       fileName: req.file.originalname,
       fileSize: req.file.size,
-      userId: req.userId
+      userId: req.userId,
+      contentHash,
+      duplicateOf,
+      clientId,
+      templateId,
+      filePath: req.file.path,
+      mimeType: req.file.mimetype,
+      // Password for protected PDFs, sent as a form field alongside the file
+      documentPassword: typeof req.body?.password === 'string' && req.body.password ? req.body.password : undefined
     };
 
     // Save to database (mock implementation)
     uploads.set(uploadId, uploadRecord);
+    uploadsByHash.set(contentHash, [...earlierUploads, uploadId]);
 
     // Enqueue processing job
     await processingQueue.add('process-cv', {
       uploadId,
       filePath: req.file.path,
       userId: req.userId,
-      fileName: req.file.originalname
+      fileName: req.file.originalname,
+      contentHash,
+      clientId,
+      templateId
     }, {
       attempts: 3,
       backoff: {
@@ -124,9 +141,20 @@ router.post('/', upload.single('cvFile'), async (req: FileUploadRequest, res: Re
       }
     });
 
-    console.log(`📁 File uploaded: ${req.file.originalname} -> ${uploadId}`);
+    console.log(`📁 File uploaded: ${req.file.originalname} -> ${uploadId}` +
+      (earlierUploads.length > 0 ? ` (duplicate of ${duplicateOf || 'another user\'s upload'})` : ''));
+
+    const result: UploadResult = {
+      uploadId,
+      contentHash,
+      duplicate: earlierUploads.length > 0,
+      duplicateOf
+    };
 
-    res.status(201).json(createSuccessResponse({ uploadId }, 'File uploaded successfully'));
+    res.status(201).json(createSuccessResponse(
+      result,
+      result.duplicate ? 'File uploaded successfully; it matches an earlier upload' : 'File uploaded successfully'
+    ));
 
   } catch (error) {
     console.error('Upload error:', error);
@@ -151,7 +179,7 @@ router.get('/:id/status', async (req: Request<{ id: string }>, res: Response<Api
       return res.status(404).json(createErrorResponse(ErrorCode.UPLOAD_NOT_FOUND));
     }
 
-    res.json(createSuccessResponse(uploadRecord, 'Upload status retrieved successfully'));
+    res.json(createSuccessResponse(toUploadStatus(uploadRecord), 'Upload status retrieved successfully'));
 
   } catch (error) {
     console.error('Status check error:', error);
@@ -170,7 +198,8 @@ router.get('/', async (req: UploadRequest, res: Response<ApiResponse<UploadStatu
     // Get user's uploads from database (mock implementation)
     const userUploads = Array.from(uploads.values())
       .filter(upload => upload.userId === req.userId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(toUploadStatus);
 
     res.json(createSuccessResponse(userUploads, 'User uploads retrieved successfully'));
 
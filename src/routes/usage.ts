@@ -0,0 +1,87 @@
+import { Router, Response } from 'express';
+import { summarizeUsage, UsageSummary } from '../services/usageStore';
+import {
+  ApiResponse,
+  createSuccessResponse,
+  createErrorResponse,
+  ErrorCode,
+  AuthenticatedRequest
+} from '../types/api';
+
+// Types
+interface UsageRequest extends AuthenticatedRequest {
+  query: {
+    userId?: string;
+    from?: string;
+    to?: string;
+  };
+}
+
+interface UsageResponse extends UsageSummary {
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+const router = Router();
+
+// GET /v1/usage - Token usage and cost of CV processing, optionally for one user and a date range.
+// Administrators see every user's; everyone else only their own
+router.get('/', async (req: UsageRequest, res: Response<ApiResponse<UsageResponse>>) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json(createErrorResponse(ErrorCode.UNAUTHORIZED));
+    }
+
+    if (!req.isAdmin && req.query.userId && req.query.userId !== req.userId) {
+      return res.status(403).json(createErrorResponse(ErrorCode.ACCESS_DENIED));
+    }
+
+    const userId = req.isAdmin ? req.query.userId : req.userId;
+    const from = parseDate(req.query.from, 'start');
+    const to = parseDate(req.query.to, 'end');
+
+    if (from === null || to === null) {
+      return res.status(400).json(createErrorResponse(ErrorCode.VALIDATION_ERROR, 'from and to must be ISO 8601 dates'));
+    }
+    if (from && to && from > to) {
+      return res.status(400).json(createErrorResponse(ErrorCode.VALIDATION_ERROR, 'from must not be after to'));
+    }
+
+    const summary = summarizeUsage({ userId, from, to });
+
+    res.json(createSuccessResponse({
+      ...summary,
+      userId,
+      from: from?.toISOString(),
+      to: to?.toISOString()
+    }, 'Usage retrieved successfully'));
+
+  } catch (error) {
+    console.error('Usage retrieval error:', error);
+
+    res.status(500).json(createErrorResponse(ErrorCode.INTERNAL_SERVER_ERROR, 'Failed to retrieve usage'));
+  }
+});
+
+/**
+ * Parse a query date. A bare date (2024-05-31) covers the whole day, so as the end of
+ * a range it means the end of that day. Returns undefined when absent and null when invalid.
+ */
+function parseDate(value: string | undefined, bound: 'start' | 'end'): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  if (bound === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+export default router;
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentCache, hashFile, isCacheable, parseCacheKey, draftCacheKey } from '../contentCache';
+
+describe('Content Cache', () => {
+  describe('hashFile', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-cache-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should return the SHA-256 of the file contents', async () => {
+      const filePath = path.join(tempDir, 'cv.txt');
+      await fs.writeFile(filePath, 'abc');
+
+      await expect(hashFile(filePath)).resolves.toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('should give identical files the same hash whatever their name', async () => {
+      await fs.writeFile(path.join(tempDir, 'jane-doe.txt'), 'Jane Doe\nProduct Lead');
+      await fs.writeFile(path.join(tempDir, 'copy (2).txt'), 'Jane Doe\nProduct Lead');
+      await fs.writeFile(path.join(tempDir, 'edited.txt'), 'Jane Doe\nProduct Leader');
+
+      const [original, copy, edited] = await Promise.all([
+        hashFile(path.join(tempDir, 'jane-doe.txt')),
+        hashFile(path.join(tempDir, 'copy (2).txt')),
+        hashFile(path.join(tempDir, 'edited.txt')),
+      ]);
+
+      expect(copy).toBe(original);
+      expect(edited).not.toBe(original);
+    });
+
+    it('should reject when the file does not exist', async () => {
+      await expect(hashFile(path.join(tempDir, 'missing.pdf'))).rejects.toThrow();
+    });
+  });
+
+  describe('ContentCache', () => {
+    it('should evict the least recently used entry once full', () => {
+      const cache = new ContentCache<number>(2);
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(cache.get('a')).toBe(1);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('c')).toBe(3);
+      expect(cache.size).toBe(2);
+    });
+
+    it('should replace an existing entry without growing', () => {
+      const cache = new ContentCache<string>(2);
+      cache.set('a', 'old');
+      cache.set('a', 'new');
+
+      expect(cache.get('a')).toBe('new');
+      expect(cache.size).toBe(1);
+    });
+  });
+
+  describe('cache keys', () => {
+    const hash = 'f'.repeat(64);
+
+    it('should change with the parser version and output options', () => {
+      const key = parseCacheKey(hash, '1', { extractImages: true });
+
+      expect(parseCacheKey(hash, '2', { extractImages: true })).not.toBe(key);
+      expect(parseCacheKey(hash, '1', { extractImages: true, layoutMode: false })).not.toBe(key);
+      expect(parseCacheKey('0'.repeat(64), '1', { extractImages: true })).not.toBe(key);
+    });
+
+    it('should ignore the password and page limit', () => {
+      expect(parseCacheKey(hash, '1', { password: 'secret', pageLimit: 20 })).toBe(parseCacheKey(hash, '1'));
+    });
+
+    it('should never cache a document opened with a password', () => {
+      expect(isCacheable({ password: 'secret', extractImages: true })).toBe(false);
+      expect(isCacheable({ extractImages: true })).toBe(true);
+      expect(isCacheable()).toBe(true);
+    });
+
+    it('should change draft keys with the prompt version and providers', () => {
+      const parseKey = parseCacheKey(hash, '1');
+      const key = draftCacheKey(parseKey, '1');
+
+      expect(draftCacheKey(parseKey, '2')).not.toBe(key);
+      expect(draftCacheKey(parseKey, '1', ['anthropic'])).not.toBe(key);
+      expect(draftCacheKey(parseCacheKey(hash, '2'), '1')).not.toBe(key);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import {
+  extractDocxStructure,
+  htmlToDocumentTree,
+  renderDocumentTree,
+  classifyLink,
+} from '../docxStructure';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// Minimal WordprocessingML package with heading styles, a bullet list definition and one hyperlink
+async function buildDocx(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '</Relationships>');
+  zip.file('word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+    '<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://www.linkedin.com/in/jane-doe" TargetMode="External"/>' +
+    '</Relationships>');
+  zip.file('word/styles.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:styles ${W_NS}>` +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>' +
+    '</w:styles>');
+  zip.file('word/numbering.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:numbering ${W_NS}>` +
+    '<w:abstractNum w:abstractNumId="0">' +
+    '<w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl>' +
+    '<w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>' +
+    '</w:abstractNum>' +
+    '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>' +
+    '</w:numbering>');
+  zip.file('word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const bullet = (text: string, level: number) =>
+  `<w:p><w:pPr><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const cell = (content: string) => `<w:tc>${content}</w:tc>`;
+
+describe('DOCX Structure Extraction', () => {
+  describe('htmlToDocumentTree', () => {
+    it('should keep heading levels and paragraphs', () => {
+      const tree = htmlToDocumentTree('<h1>Jane Doe</h1><h2>Experience</h2><p>Led a <strong>team</strong> of six.</p>');
+
+      expect(tree.nodes).toEqual([
+        { type: 'heading', level: 1, text: 'Jane Doe' },
+        { type: 'heading', level: 2, text: 'Experience' },
+        { type: 'paragraph', text: 'Led a team of six.' },
+      ]);
+    });
+
+    it('should keep list nesting', () => {
+      const tree = htmlToDocumentTree(
+        '<ul><li>Leadership<ul><li>Hiring</li><li>Mentoring</li></ul></li><li>Delivery</li></ul>' +
+        '<ol><li>First</li><li>Second</li></ol>'
+      );
+
+      expect(tree.nodes).toEqual([
+        {
+          type: 'list',
+          ordered: false,
+          items: [
+            {
+              text: 'Leadership',
+              children: [{
+                type: 'list',
+                ordered: false,
+                items: [{ text: 'Hiring', children: [] }, { text: 'Mentoring', children: [] }],
+              }],
+            },
+            { text: 'Delivery', children: [] },
+          ],
+        },
+        {
+          type: 'list',
+          ordered: true,
+          items: [{ text: 'First', children: [] }, { text: 'Second', children: [] }],
+        },
+      ]);
+      expect(renderDocumentTree(tree)).toBe('• Leadership\n  • Hiring\n  • Mentoring\n• Delivery\n\n1. First\n2. Second');
+    });
+
+    it('should keep table cells, including lists inside layout tables', () => {
+      const tree = htmlToDocumentTree(
+        '<table><tr><td><p>2015 – 2019</p></td><td><p>BSc Physics</p></td></tr></table>' +
+        '<table><tr><td><p>Skills</p><ul><li>Python</li><li>SQL</li></ul></td>' +
+        '<td><p>Experience</p><p>Acme Ltd</p></td></tr></table>'
+      );
+
+      expect(tree.nodes).toEqual([
+        { type: 'table', rows: [['2015 – 2019', 'BSc Physics']] },
+        { type: 'table', rows: [['Skills\n• Python\n• SQL', 'Experience\nAcme Ltd']] },
+      ]);
+      expect(renderDocumentTree(tree)).toBe(
+        '2015 – 2019 | BSc Physics\n\nSkills\n• Python\n• SQL\n\nExperience\nAcme Ltd'
+      );
+    });
+
+    it('should extract profile links and keep their targets in the text', () => {
+      const tree = htmlToDocumentTree(
+        '<p><a href="https://www.linkedin.com/in/jane-doe">LinkedIn</a> | ' +
+        '<a href="https://github.com/janedoe">github.com/janedoe</a> | ' +
+        '<a href="mailto:jane@example.com">jane@example.com</a> | ' +
+        '<a href="#_Toc1">Contents</a></p>' +
+        '<p>Portfolio: <a href="https://janedoe.design">janedoe.design</a></p>'
+      );
+
+      expect(tree.links).toEqual([
+        { kind: 'linkedin', url: 'https://www.linkedin.com/in/jane-doe', text: 'LinkedIn' },
+        { kind: 'github', url: 'https://github.com/janedoe', text: 'github.com/janedoe' },
+        { kind: 'email', url: 'jane@example.com', text: 'jane@example.com' },
+        { kind: 'portfolio', url: 'https://janedoe.design', text: 'janedoe.design' },
+      ]);
+      expect(tree.nodes[0]).toEqual({
+        type: 'paragraph',
+        text: 'LinkedIn (https://www.linkedin.com/in/jane-doe) | github.com/janedoe | jane@example.com | Contents',
+      });
+    });
+
+    it('should find profile URLs typed as plain text', () => {
+      const tree = htmlToDocumentTree('<ul><li>linkedin.com/in/jdoe</li></ul><p>Code: https://github.com/jdoe</p>');
+
+      expect(tree.links.map(link => [link.kind, link.url])).toEqual([
+        ['linkedin', 'https://linkedin.com/in/jdoe'],
+        ['github', 'https://github.com/jdoe'],
+      ]);
+    });
+  });
+
+  describe('classifyLink', () => {
+    it('should ignore bookmarks and unsupported schemes', () => {
+      expect(classifyLink('#section', 'Top')).toBeNull();
+      expect(classifyLink('file:///C:/cv.docx', 'CV')).toBeNull();
+    });
+
+    it('should recognise LinkedIn subdomains', () => {
+      expect(classifyLink('https://uk.linkedin.com/in/jdoe', 'Profile')?.kind).toBe('linkedin');
+    });
+  });
+
+  describe('extractDocxStructure', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-structure-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should build a document tree from a Word file', async () => {
+      const filePath = path.join(tempDir, 'cv.docx');
+      await fs.writeFile(filePath, await buildDocx(
+        paragraph('Jane Doe', 'Title') +
+        '<w:p><w:hyperlink r:id="rId4"><w:r><w:t>LinkedIn</w:t></w:r></w:hyperlink></w:p>' +
+        paragraph('Experience', 'Heading1') +
+        bullet('Product strategy', 0) +
+        bullet('Roadmaps', 1) +
+        `<w:tbl><w:tr>${cell(paragraph('2019 – 2023'))}${cell(paragraph('Head of Product, Acme'))}</w:tr></w:tbl>`
+      ));
+
+      const { tree, text, hasImages } = await extractDocxStructure(filePath);
+
+      expect(tree.nodes.map(node => node.type)).toEqual(['heading', 'paragraph', 'heading', 'list', 'table']);
+      expect(tree.links).toEqual([
+        { kind: 'linkedin', url: 'https://www.linkedin.com/in/jane-doe', text: 'LinkedIn' },
+      ]);
+      expect(text).toBe([
+        '# Jane Doe',
+        'LinkedIn (https://www.linkedin.com/in/jane-doe)',
+        '# Experience',
+        '• Product strategy\n  • Roadmaps',
+        '2019 – 2023 | Head of Product, Acme',
+      ].join('\n\n'));
+      expect(hasImages).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { loadImagePages } from '../imagePages';
+
+describe('Image Page Loading', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-pages-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // A landscape 40x20 white image
+  function blankImage() {
+    return sharp({
+      create: { width: 40, height: 20, channels: 3, background: '#ffffff' },
+    });
+  }
+
+  it('should apply EXIF orientation from phone photos', async () => {
+    const filePath = path.join(tempDir, 'rotated.jpg');
+    // Orientation 6 means the camera was held sideways: the image must be turned 90° clockwise
+    await blankImage().jpeg().withMetadata({ orientation: 6 }).toFile(filePath);
+
+    const [page] = await loadImagePages(filePath, 'jpeg');
+    const metadata = await sharp(page).metadata();
+
+    expect(metadata.format).toBe('png');
+    expect(metadata.width).toBe(20);
+    expect(metadata.height).toBe(40);
+  });
+
+  it('should flatten transparent PNGs onto white', async () => {
+    const filePath = path.join(tempDir, 'transparent.png');
+    await sharp({
+      create: { width: 4, height: 4, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    }).png().toFile(filePath);
+
+    const [page] = await loadImagePages(filePath, 'png');
+    const { data } = await sharp(page).raw().toBuffer({ resolveWithObject: true });
+
+    expect(Array.from(data.subarray(0, 3))).toEqual([255, 255, 255]);
+  });
+
+  it('should load every page of a multi-page TIFF up to maxPages', async () => {
+    const filePath = path.join(tempDir, 'scan.tif');
+    const page = await blankImage().png().toBuffer();
+    await sharp([page, page, page], { join: { animated: true } }).tiff().toFile(filePath);
+
+    const pages = await loadImagePages(filePath, 'tiff');
+    const limited = await loadImagePages(filePath, 'tiff', 2);
+
+    expect(pages).toHaveLength(3);
+    expect(limited).toHaveLength(2);
+  });
+});
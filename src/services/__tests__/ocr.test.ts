@@ -0,0 +1,114 @@
+import { createWorker } from 'tesseract.js';
+import { recognizeImages, ocrPdf, DEFAULT_OCR_CONFIDENCE_THRESHOLD } from '../ocr';
+import { renderPdfPages } from '../pdfRenderer';
+
+jest.mock('tesseract.js', () => ({
+  createWorker: jest.fn(),
+}));
+
+jest.mock('../pdfRenderer', () => ({
+  renderPdfPages: jest.fn(),
+}));
+
+const mockCreateWorker = createWorker as jest.Mock;
+const mockRenderPdfPages = renderPdfPages as jest.Mock;
+
+// Each "image" buffer carries the text and confidence the fake worker should return
+function fakePage(text: string, confidence: number): Buffer {
+  return Buffer.from(JSON.stringify({ text, confidence }));
+}
+
+function mockWorker() {
+  const worker = {
+    recognize: jest.fn(async (image: Buffer) => ({ data: JSON.parse(image.toString()) })),
+    terminate: jest.fn(async () => undefined),
+  };
+  mockCreateWorker.mockResolvedValue(worker);
+  return worker;
+}
+
+describe('OCR Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recognizeImages', () => {
+    it('should recognise every page and join the text in page order', async () => {
+      const worker = mockWorker();
+
+      const result = await recognizeImages([
+        fakePage('John Smith\nSenior Engineer', 91.5),
+        fakePage('Experience\nAcme Ltd', 88.25),
+      ]);
+
+      expect(worker.recognize).toHaveBeenCalledTimes(2);
+      expect(worker.terminate).toHaveBeenCalledTimes(1);
+      expect(result.text).toBe('John Smith\nSenior Engineer\n\nExperience\nAcme Ltd');
+      expect(result.pages.map(page => page.page)).toEqual([1, 2]);
+      expect(result.averageConfidence).toBeCloseTo(89.88, 2);
+    });
+
+    it('should honour the requested OCR language', async () => {
+      mockWorker();
+
+      await recognizeImages([fakePage('Berufserfahrung', 90)], { language: 'deu' });
+
+      expect(mockCreateWorker).toHaveBeenCalledWith('deu');
+    });
+
+    it('should deskew pages unless told not to', async () => {
+      const worker = mockWorker();
+
+      await recognizeImages([fakePage('Straightened', 85)]);
+      await recognizeImages([fakePage('As scanned', 85)], { deskew: false });
+
+      expect(worker.recognize).toHaveBeenNthCalledWith(1, expect.any(Buffer), { rotateAuto: true });
+      expect(worker.recognize).toHaveBeenNthCalledWith(2, expect.any(Buffer), { rotateAuto: false });
+    });
+
+    it('should flag pages below the confidence threshold', async () => {
+      mockWorker();
+
+      const result = await recognizeImages([
+        fakePage('Clear page', DEFAULT_OCR_CONFIDENCE_THRESHOLD + 20),
+        fakePage('sm3dg3d p4g3', DEFAULT_OCR_CONFIDENCE_THRESHOLD - 20),
+      ]);
+
+      expect(result.pages[0].lowConfidence).toBe(false);
+      expect(result.pages[1].lowConfidence).toBe(true);
+    });
+
+    it('should not flag or score blank pages', async () => {
+      mockWorker();
+
+      const result = await recognizeImages(
+        [fakePage('Only page with text', 80), fakePage('', 0)],
+        { confidenceThreshold: 70 }
+      );
+
+      expect(result.pages[1].lowConfidence).toBe(false);
+      expect(result.averageConfidence).toBe(80);
+    });
+
+    it('should terminate the worker when recognition fails', async () => {
+      const worker = mockWorker();
+      worker.recognize.mockRejectedValueOnce(new Error('Tesseract crashed'));
+
+      await expect(recognizeImages([fakePage('x', 1)])).rejects.toThrow('Tesseract crashed');
+      expect(worker.terminate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ocrPdf', () => {
+    it('should rasterise the PDF and pass maxPages through to the renderer', async () => {
+      mockWorker();
+      mockRenderPdfPages.mockResolvedValue([fakePage('Scanned CV', 75)]);
+
+      const result = await ocrPdf('/uploads/scan.pdf', { maxPages: 3 });
+
+      expect(mockRenderPdfPages).toHaveBeenCalledWith('/uploads/scan.pdf', { maxPages: 3 });
+      expect(result.text).toBe('Scanned CV');
+      expect(result.pages).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import JSZip from 'jszip';
+import { extractOdtText, odtXmlToText } from '../odtText';
+
+function contentXml(body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+    ' xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+    ' xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0">',
+    '<office:automatic-styles><style:style style:name="P1"/></office:automatic-styles>',
+    `<office:body><office:text>${body}</office:text></office:body>`,
+    '</office:document-content>',
+  ].join('\n');
+}
+
+describe('ODT Text Extraction', () => {
+  it('should turn headings and paragraphs into lines', () => {
+    const xml = contentXml(
+      '<text:h text:outline-level="1">Maria Rossi</text:h>' +
+      '<text:p text:style-name="P1">Head of <text:span text:style-name="T1">Marketing</text:span></text:p>' +
+      '<text:p/>' +
+      '<text:p>Milan &amp; London</text:p>'
+    );
+
+    expect(odtXmlToText(xml)).toBe('Maria Rossi\nHead of Marketing\n\nMilan & London');
+  });
+
+  it('should bullet list items and keep nested lists indented', () => {
+    const xml = contentXml(
+      '<text:list><text:list-item><text:p>Brand strategy</text:p>' +
+      '<text:list><text:list-item><text:p>Market research</text:p></text:list-item></text:list>' +
+      '</text:list-item><text:list-item><text:p>Team leadership</text:p></text:list-item></text:list>'
+    );
+
+    expect(odtXmlToText(xml)).toBe('• Brand strategy\n  • Market research\n• Team leadership');
+  });
+
+  it('should expand spaces, tabs and line breaks', () => {
+    const xml = contentXml('<text:p>2018<text:tab/>Acme<text:s text:c="3"/>Ltd<text:line-break/>Milan</text:p>');
+
+    expect(odtXmlToText(xml)).toBe('2018\tAcme   Ltd\nMilan');
+  });
+
+  it('should separate table cells with tabs and rows with newlines', () => {
+    const xml = contentXml(
+      '<table:table><table:table-row>' +
+      '<table:table-cell><text:p>2015 – 2019</text:p></table:table-cell>' +
+      '<table:table-cell><text:p>BA Economics</text:p></table:table-cell>' +
+      '</table:table-row></table:table>'
+    );
+
+    expect(odtXmlToText(xml)).toBe('2015 – 2019\tBA Economics');
+  });
+
+  it('should read content.xml from the package and detect embedded pictures', async () => {
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+    zip.file('content.xml', contentXml('<text:p>Curriculum Vitae</text:p>'));
+    zip.file('Pictures/photo.jpg', Buffer.from([0xff, 0xd8, 0xff]));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    await expect(extractOdtText(buffer)).resolves.toEqual({ text: 'Curriculum Vitae', hasImages: true });
+  });
+
+  it('should reject zip files without content.xml', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    await expect(extractOdtText(buffer)).rejects.toThrow('content.xml not found');
+  });
+});
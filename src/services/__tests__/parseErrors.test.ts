@@ -0,0 +1,65 @@
+import { ParseError, classifyDocumentError, assertZipPackage } from '../parseErrors';
+
+function namedError(name: string, message: string, code?: number): Error {
+  return Object.assign(new Error(message), { name, code });
+}
+
+describe('Parse Errors', () => {
+  describe('classifyDocumentError', () => {
+    it('should recognise pdf.js password exceptions', () => {
+      expect(classifyDocumentError(namedError('PasswordException', 'No password given', 1))?.code)
+        .toBe('DOCUMENT_ENCRYPTED');
+      expect(classifyDocumentError(namedError('PasswordException', 'Incorrect Password', 2))?.code)
+        .toBe('DOCUMENT_PASSWORD_INCORRECT');
+    });
+
+    it('should recognise password errors wrapped by the format parsers', () => {
+      expect(classifyDocumentError(new Error('PDF parsing failed: Incorrect Password'))?.code)
+        .toBe('DOCUMENT_PASSWORD_INCORRECT');
+      expect(classifyDocumentError(new Error('Excel parsing failed: File is password-protected'))?.code)
+        .toBe('DOCUMENT_ENCRYPTED');
+    });
+
+    it('should recognise damaged PDFs and zip packages', () => {
+      for (const error of [
+        namedError('InvalidPDFException', 'Invalid PDF structure'),
+        new Error('PDF parsing failed: bad XRef entry'),
+        new Error("DOCX parsing failed: Can't find end of central directory : is this a zip file ?"),
+        new Error('DOCX parsing failed: Could not find main document part. Are you sure this is a valid .docx file?'),
+      ]) {
+        expect(classifyDocumentError(error)?.code).toBe('DOCUMENT_CORRUPTED');
+      }
+    });
+
+    it('should leave other errors alone', () => {
+      expect(classifyDocumentError(new Error('ENOENT: no such file or directory'))).toBeNull();
+      expect(classifyDocumentError(new Error('Unsupported file format. MIME: application/zip'))).toBeNull();
+      expect(classifyDocumentError('timeout')).toBeNull();
+    });
+
+    it('should pass parse errors through', () => {
+      const error = new ParseError('PAGE_LIMIT_EXCEEDED', 'The document has 40 pages; the limit is 20');
+
+      expect(classifyDocumentError(error)).toBe(error);
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('assertZipPackage', () => {
+    it('should accept zip packages', () => {
+      expect(() => assertZipPackage(Buffer.from('PK\u0003\u0004rest'))).not.toThrow();
+    });
+
+    it('should treat OLE containers as encrypted', () => {
+      const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+      expect(() => assertZipPackage(ole)).toThrow(expect.objectContaining({ code: 'DOCUMENT_ENCRYPTED' }));
+    });
+
+    it('should treat anything else as corrupted', () => {
+      expect(() => assertZipPackage(Buffer.from('<html>'))).toThrow(expect.objectContaining({ code: 'DOCUMENT_CORRUPTED' }));
+      expect(() => assertZipPackage(Buffer.alloc(0))).toThrow(expect.objectContaining({ code: 'DOCUMENT_CORRUPTED' }));
+    });
+  });
+});
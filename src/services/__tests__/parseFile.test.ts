@@ -1,4 +1,6 @@
 import { parseFile, getFileInfo, isFileSupported, getSupportedFileTypes } from '../parseFile';
+import { sanitizeText } from '../sanitizeText';
+import { ParseError } from '../parseErrors';
 import path from 'path';
 
 // Mock file paths for testing
@@ -15,7 +17,25 @@ describe('parseFile Service', () => {
       expect(isFileSupported('application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe(true);
       expect(isFileSupported('application/vnd.ms-excel')).toBe(true);
       expect(isFileSupported('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')).toBe(true);
-      expect(isFileSupported('text/plain')).toBe(false);
+      expect(isFileSupported('application/zip')).toBe(false);
+    });
+
+    it('should detect legacy word processor and text formats as supported', () => {
+      expect(isFileSupported('application/msword')).toBe(true);
+      expect(isFileSupported('application/vnd.oasis.opendocument.text')).toBe(true);
+      expect(isFileSupported('application/rtf')).toBe(true);
+      expect(isFileSupported('text/rtf')).toBe(true);
+      expect(isFileSupported('text/plain')).toBe(true);
+      expect(isFileSupported('application/octet-stream', 'cv.ODT')).toBe(true);
+    });
+
+    it('should detect image uploads as supported', () => {
+      expect(isFileSupported('image/jpeg')).toBe(true);
+      expect(isFileSupported('image/png')).toBe(true);
+      expect(isFileSupported('image/tiff')).toBe(true);
+      expect(isFileSupported('image/heic')).toBe(true);
+      expect(isFileSupported('application/octet-stream', 'phone-photo.HEIC')).toBe(true);
+      expect(isFileSupported('image/gif')).toBe(false);
     });
 
     it('should return supported file types', () => {
@@ -24,6 +44,12 @@ describe('parseFile Service', () => {
       expect(supportedTypes).toContain('docx');
       expect(supportedTypes).toContain('xls');
       expect(supportedTypes).toContain('xlsx');
+      expect(supportedTypes).toContain('jpeg');
+      expect(supportedTypes).toContain('tiff');
+      expect(supportedTypes).toContain('doc');
+      expect(supportedTypes).toContain('odt');
+      expect(supportedTypes).toContain('rtf');
+      expect(supportedTypes).toContain('txt');
     });
   });
 
@@ -44,9 +70,20 @@ describe('parseFile Service', () => {
 
   describe('Error Handling', () => {
     it('should throw error for unsupported file types', async () => {
-      await expect(
-        parseFile('/nonexistent/file.txt', 'text/plain')
-      ).rejects.toThrow('Unsupported file format');
+      const fs = require('fs').promises;
+      const os = require('os');
+      // The file has to exist, or parsing fails before it checks the format
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'parse-file-unsupported-'));
+      const filePath = path.join(tempDir, 'file.zip');
+      await fs.writeFile(filePath, 'PK');
+
+      try {
+        await expect(
+          parseFile(filePath, 'application/zip')
+        ).rejects.toThrow('Unsupported file format');
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
     });
 
     it('should throw error for non-existent files', async () => {
@@ -59,13 +96,50 @@ describe('parseFile Service', () => {
   describe('Text Sanitization', () => {
     it('should sanitize text correctly', () => {
       const dirtyText = '  Multiple    spaces\n\n\n\nand\n\n\n\nnewlines  ';
-      const cleanText = dirtyText.trim().replace(/\s+/g, ' ').replace(/\n\s*\n\s*\n/g, '\n\n');
+      const cleanText = sanitizeText(dirtyText);
       
       expect(cleanText).toBe('Multiple spaces\n\nand\n\nnewlines');
     });
   });
 });
 
+describe('parseFile Text Formats', () => {
+  const fs = require('fs').promises;
+  const os = require('os');
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'parse-file-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse Latin-1 plain-text files and report the encoding', async () => {
+    const filePath = path.join(tempDir, 'cv.txt');
+    await fs.writeFile(filePath, Buffer.from('José Müller\nSoftware Engineer with experience in distributed systems', 'latin1'));
+
+    const result = await parseFile(filePath, 'text/plain');
+
+    expect(result.rawText).toContain('José Müller');
+    expect(result.metadata.fileType).toBe('txt');
+    expect(result.metadata.textEncoding).toBe('windows-1252');
+  });
+
+  it('should parse RTF files', async () => {
+    const filePath = path.join(tempDir, 'cv.rtf');
+    await fs.writeFile(filePath, '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}\\f0 Ana Garc\\\'eda\\par Project Manager}');
+
+    const result = await parseFile(filePath, 'application/rtf');
+
+    expect(result.rawText).toContain('Ana García');
+    expect(result.rawText).toContain('Project Manager');
+    expect(result.rawText).not.toContain('Arial');
+    expect(result.metadata.fileType).toBe('rtf');
+  });
+});
+
 // Integration test (only run if test files exist)
 describe('parseFile Integration Tests', () => {
   const fs = require('fs').promises;
@@ -123,3 +197,71 @@ describe('parseFile Integration Tests', () => {
 
 
 
+
+describe('parseFile Document Problems', () => {
+  const fs = require('fs').promises;
+  const os = require('os');
+  const ENCRYPTED_PDF = path.join(__dirname, 'fixtures/encrypted.pdf'); // User password: secret
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'parse-file-errors-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report password-protected PDFs', async () => {
+    await expect(parseFile(ENCRYPTED_PDF, 'application/pdf', { enableOCR: false }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_ENCRYPTED' });
+    await expect(parseFile(ENCRYPTED_PDF, 'application/pdf', { enableOCR: false, password: 'wrong' }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_PASSWORD_INCORRECT' });
+  });
+
+  it('should open password-protected PDFs with the password', async () => {
+    const result = await parseFile(ENCRYPTED_PDF, 'application/pdf', { enableOCR: false, password: 'secret' });
+
+    expect(result.rawText).toContain('Jane Doe - Senior Software Engineer');
+  });
+
+  it('should report truncated PDFs as corrupted', async () => {
+    const filePath = path.join(tempDir, 'truncated.pdf');
+    await fs.writeFile(filePath, (await fs.readFile(ENCRYPTED_PDF)).subarray(0, 300));
+
+    await expect(parseFile(filePath, 'application/pdf', { enableOCR: false }))
+      .rejects.toBeInstanceOf(ParseError);
+    await expect(parseFile(filePath, 'application/pdf', { enableOCR: false }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_CORRUPTED' });
+  });
+
+  it('should report encrypted and damaged DOCX packages', async () => {
+    const encryptedPath = path.join(tempDir, 'encrypted.docx');
+    await fs.writeFile(encryptedPath, Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0, 0, 0]));
+    const damagedPath = path.join(tempDir, 'damaged.docx');
+    await fs.writeFile(damagedPath, 'PK\u0003\u0004 truncated');
+    const docxMime = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    await expect(parseFile(encryptedPath, docxMime)).rejects.toMatchObject({ code: 'DOCUMENT_ENCRYPTED' });
+    await expect(parseFile(damagedPath, docxMime)).rejects.toMatchObject({ code: 'DOCUMENT_CORRUPTED' });
+  });
+
+  it('should report empty documents', async () => {
+    const emptyPath = path.join(tempDir, 'empty.txt');
+    await fs.writeFile(emptyPath, '');
+    const blankPath = path.join(tempDir, 'blank.txt');
+    await fs.writeFile(blankPath, ' \n\u200b\n\t');
+
+    await expect(parseFile(emptyPath, 'text/plain')).rejects.toMatchObject({ code: 'DOCUMENT_EMPTY' });
+    await expect(parseFile(blankPath, 'text/plain')).rejects.toMatchObject({ code: 'DOCUMENT_EMPTY' });
+  });
+
+  it('should reject documents over the page limit', async () => {
+    const filePath = path.join(tempDir, 'long.txt');
+    await fs.writeFile(filePath, Array(2000).fill('word').join(' '));
+
+    await expect(parseFile(filePath, 'text/plain', { pageLimit: 3 }))
+      .rejects.toMatchObject({ code: 'PAGE_LIMIT_EXCEEDED' });
+    await expect(parseFile(filePath, 'text/plain', { pageLimit: 4 })).resolves.toHaveProperty('rawText');
+  });
+});
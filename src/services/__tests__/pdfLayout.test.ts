@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { layoutPageText, columnMarker, LayoutPage } from '../pdfLayout';
+
+interface LayoutFixture {
+  description: string;
+  page: LayoutPage;
+  expected: {
+    columns: number;
+    headings: string[];
+    text: string[];
+  };
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures/layout');
+
+async function loadFixture(name: string): Promise<LayoutFixture> {
+  const content = await fs.readFile(path.join(FIXTURES_DIR, name), 'utf8');
+  return JSON.parse(content);
+}
+
+describe('PDF Layout Extraction', () => {
+  describe('Fixtures', () => {
+    const fixtureNames = [
+      'two-column-sidebar.json',
+      'single-column-dates.json',
+      'two-column-footer.json',
+    ];
+
+    it.each(fixtureNames)('should lay out %s in logical reading order', async (name) => {
+      const fixture = await loadFixture(name);
+
+      const result = layoutPageText(fixture.page);
+
+      expect(result.text.split('\n')).toEqual(fixture.expected.text);
+      expect(result.columns).toBe(fixture.expected.columns);
+      expect(result.headings).toEqual(fixture.expected.headings);
+    });
+  });
+
+  describe('Reading Order', () => {
+    it('should not interleave sidebar and main column lines that share a baseline', async () => {
+      const fixture = await loadFixture('two-column-sidebar.json');
+
+      const lines = layoutPageText(fixture.page).text.split('\n');
+
+      expect(lines.indexOf('• Prototyping')).toBeLessThan(lines.indexOf('## EXPERIENCE'));
+      expect(lines.indexOf('German (B2)')).toBeLessThan(lines.indexOf(columnMarker(2, 2)));
+    });
+
+    it('should be independent of the order items appear in the content stream', async () => {
+      const fixture = await loadFixture('two-column-sidebar.json');
+      const shuffled = { ...fixture.page, items: [...fixture.page.items].reverse() };
+
+      expect(layoutPageText(shuffled).text).toBe(layoutPageText(fixture.page).text);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    it('should return empty text for a page without text', () => {
+      const result = layoutPageText({ pageNumber: 3, width: 595, height: 842, items: [] });
+
+      expect(result).toEqual({ pageNumber: 3, text: '', columns: 1, headings: [] });
+    });
+
+    it('should join Symbol-font bullet glyphs that are separate text items', () => {
+      const result = layoutPageText({
+        pageNumber: 1,
+        width: 595,
+        height: 842,
+        items: [
+          { str: '\uf0b7', x: 40, y: 100, width: 3, height: 9 },
+          { str: 'Negotiated supplier contracts', x: 50, y: 100, width: 130, height: 9 },
+        ],
+      });
+
+      expect(result.text).toBe('• Negotiated supplier contracts');
+    });
+  });
+});
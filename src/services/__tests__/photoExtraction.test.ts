@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import {
+  scoreHeadshot,
+  selectHeadshot,
+  extractDocxImages,
+  extractCandidatePhoto,
+  EmbeddedImage,
+} from '../photoExtraction';
+
+function image(overrides: Partial<EmbeddedImage>): EmbeddedImage {
+  return {
+    data: Buffer.alloc(0),
+    width: 300,
+    height: 400,
+    page: 1,
+    position: 0.05,
+    box: { x: 0.75, y: 0.04, width: 0.17, height: 0.16 },
+    ...overrides,
+  };
+}
+
+function solidImage(width: number, height: number, format: 'png' | 'jpeg'): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#996633' } })[format]().toBuffer();
+}
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:v="urn:schemas-microsoft-com:vml"';
+
+// Word package whose paragraphs may hold VML pictures referencing media/imageN.png
+async function buildDocx(body: string, media: Buffer[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '</Relationships>');
+  zip.file('word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    media.map((_, index) =>
+      `<Relationship Id="rIdImg${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image${index + 1}.png"/>`
+    ).join('') +
+    '</Relationships>');
+  media.forEach((data, index) => zip.file(`word/media/image${index + 1}.png`, data));
+  zip.file('word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const picture = (index: number) =>
+  `<w:p><w:r><w:pict><v:shape><v:imagedata r:id="rIdImg${index}"/></v:shape></w:pict></w:r></w:p>`;
+
+describe('Candidate Photo Extraction', () => {
+  describe('scoreHeadshot', () => {
+    it('should rate a portrait photo in the top corner of page one highly', () => {
+      expect(scoreHeadshot(image({}))).toBe(1);
+    });
+
+    it('should reject icons, banners and full-page images', () => {
+      expect(scoreHeadshot(image({ width: 32, height: 32 }))).toBe(0);
+      expect(scoreHeadshot(image({ width: 1200, height: 200 }))).toBe(0);
+      expect(scoreHeadshot(image({ box: { x: 0, y: 0, width: 1, height: 1 } }))).toBe(0);
+    });
+
+    it('should reject images beyond the second page', () => {
+      expect(scoreHeadshot(image({ page: 3 }))).toBe(0);
+      expect(scoreHeadshot(image({ page: 2 }))).toBe(0.5);
+    });
+
+    it('should prefer images near the top of the page', () => {
+      const footer = image({ box: { x: 0.75, y: 0.8, width: 0.17, height: 0.16 } });
+
+      expect(scoreHeadshot(footer)).toBeLessThan(0.3);
+    });
+
+    it('should fall back to reading order when there is no page geometry', () => {
+      expect(scoreHeadshot(image({ box: undefined, position: 0.02 }))).toBe(1);
+      expect(scoreHeadshot(image({ box: undefined, position: 0.9 }))).toBeLessThan(0.3);
+    });
+  });
+
+  describe('selectHeadshot', () => {
+    it('should pick the best scoring image and ignore logos', () => {
+      const logo = image({ width: 400, height: 120 });
+      const photo = image({ width: 200, height: 260 });
+      const squareBadge = image({ width: 200, height: 200, box: { x: 0.4, y: 0.5, width: 0.1, height: 0.07 } });
+
+      expect(selectHeadshot([logo, squareBadge, photo])?.image).toBe(photo);
+    });
+
+    it('should return null when nothing looks like a headshot', () => {
+      expect(selectHeadshot([image({ width: 40, height: 40 }), image({ page: 4 })])).toBeNull();
+      expect(selectHeadshot([])).toBeNull();
+    });
+  });
+
+  describe('DOCX images', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'photo-extraction-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should list embedded images with their size and place in the document', async () => {
+      const filePath = path.join(tempDir, 'images.docx');
+      await fs.writeFile(filePath, await buildDocx(
+        picture(1) + paragraph('Jane Doe') + paragraph('Experience '.repeat(40)) + picture(2),
+        [await solidImage(150, 200, 'png'), await solidImage(300, 80, 'png')]
+      ));
+
+      const images = await extractDocxImages(filePath);
+
+      expect(images.map(({ width, height, page }) => ({ width, height, page }))).toEqual([
+        { width: 150, height: 200, page: 1 },
+        { width: 300, height: 80, page: 1 },
+      ]);
+      expect(images[0].position).toBeLessThan(0.1);
+      expect(images[1].position).toBeGreaterThan(0.9);
+    });
+
+    it('should return the headshot as a JPEG', async () => {
+      const filePath = path.join(tempDir, 'cv.docx');
+      await fs.writeFile(filePath, await buildDocx(
+        picture(1) + paragraph('Jane Doe') + paragraph('Head of Product'),
+        [await solidImage(900, 1200, 'png')]
+      ));
+
+      const photo = await extractCandidatePhoto(filePath, 'docx');
+
+      expect(photo).not.toBeNull();
+      expect(photo?.data.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+      expect([photo?.width, photo?.height]).toEqual([450, 600]);
+    });
+
+    it('should return null for a CV without a photo', async () => {
+      const filePath = path.join(tempDir, 'no-photo.docx');
+      await fs.writeFile(filePath, await buildDocx(paragraph('Jane Doe'), []));
+
+      await expect(extractCandidatePhoto(filePath, 'docx')).resolves.toBeNull();
+    });
+  });
+});
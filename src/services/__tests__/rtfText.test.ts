@@ -0,0 +1,49 @@
+import { rtfToText } from '../rtfText';
+
+describe('RTF Text Extraction', () => {
+  it('should drop font tables, colour tables and document info', () => {
+    const rtf = [
+      '{\\rtf1\\ansi\\deff0',
+      '{\\fonttbl{\\f0\\fswiss Helvetica;}{\\f1 Times New Roman;}}',
+      '{\\colortbl;\\red0\\green0\\blue0;}',
+      '{\\info{\\author Recruiter}{\\title Draft}}',
+      '\\pard\\b John Smith\\b0\\par',
+      'Senior Engineer\\par',
+      '}',
+    ].join('\n');
+
+    expect(rtfToText(rtf)).toBe('John Smith\nSenior Engineer');
+  });
+
+  it('should decode Unicode escapes and skip their fallback characters', () => {
+    const rtf = '{\\rtf1\\ansi\\uc1 Bj\\u246?rk \\u8212? \\uc2 Gda\\u324\\\'6e sk}';
+
+    expect(rtfToText(rtf)).toBe('Björk — Gdańsk');
+  });
+
+  it('should decode hex escapes in the document code page', () => {
+    expect(rtfToText("{\\rtf1\\ansi\\ansicpg1252 Caf\\'e9 \\'93Manager\\'94}")).toBe('Café “Manager”');
+    expect(rtfToText("{\\rtf1\\ansi\\ansicpg1251 \\'cf\\'f0\\'e8\\'e2\\'e5\\'f2}")).toBe('Привет');
+  });
+
+  it('should skip ignorable destinations but keep field results', () => {
+    const rtf = [
+      '{\\rtf1\\ansi',
+      '{\\*\\generator Msftedit 5.41;}{\\*\\expandedcolortbl;;}',
+      'Portfolio: {\\field{\\*\\fldinst{HYPERLINK "https://example.com"}}{\\fldrslt{example.com}}}\\par',
+      '}',
+    ].join('\n');
+
+    expect(rtfToText(rtf)).toBe('Portfolio: example.com');
+  });
+
+  it('should convert special characters, escaped braces and table cells', () => {
+    const rtf = '{\\rtf1 \\bullet\\tab Skills \\{core\\}\\par 2019\\endash 2021\\cell Acme\\cell\\row}';
+
+    expect(rtfToText(rtf)).toBe('•\tSkills {core}\n2019–2021\tAcme');
+  });
+
+  it('should reject input that is not RTF', () => {
+    expect(() => rtfToText('Plain text CV')).toThrow('Not an RTF document');
+  });
+});
@@ -0,0 +1,165 @@
+import { sanitizeText, sanitizeTextWithPages, normaliseUnicode, removeRunningLines, PAGE_BREAK } from '../sanitizeText';
+
+describe('Text Sanitization', () => {
+  describe('sanitizeText', () => {
+    it('should keep line breaks and paragraphs', () => {
+      const text = 'John Smith\nSenior Engineer\n\nExperience\nAcme Ltd';
+
+      expect(sanitizeText(text)).toBe(text);
+    });
+
+    it('should collapse spaces and limit blank lines to one', () => {
+      expect(sanitizeText('  Multiple    spaces\n\n\n\nand\r\n\r\n\r\nnewlines  ')).toBe('Multiple spaces\n\nand\n\nnewlines');
+    });
+
+    it('should trim lines and drop whitespace-only lines between paragraphs', () => {
+      expect(sanitizeText('Profile   \n   \t \nLed a team of six.  ')).toBe('Profile\n\nLed a team of six.');
+    });
+
+    it('should keep tabs that separate table cells', () => {
+      expect(sanitizeText('2015 – 2019 \t  BSc Physics')).toBe('2015 – 2019\tBSc Physics');
+    });
+
+    it('should not touch URLs, emails and decimals', () => {
+      const text = 'jane.doe@example.com | https://github.com/janedoe | GPA 3.8';
+
+      expect(sanitizeText(text)).toBe(text);
+    });
+
+    it('should remove spaces left before punctuation', () => {
+      expect(sanitizeText('Python , SQL and Go .')).toBe('Python, SQL and Go.');
+    });
+
+    it('should return an empty string for empty input', () => {
+      expect(sanitizeText('')).toBe('');
+      expect(sanitizeText(' \n\t\n ')).toBe('');
+    });
+  });
+
+  describe('bullets', () => {
+    it('should normalise bullet glyphs at the start of a line', () => {
+      expect(sanitizeText('● Hiring\n▪ Mentoring\n➢ Delivery\n\uf0b7 Budgets\n\uf0a7Roadmaps')).toBe(
+        '• Hiring\n• Mentoring\n• Delivery\n• Budgets\n• Roadmaps'
+      );
+    });
+
+    it('should treat leading dashes and asterisks followed by a space as bullets', () => {
+      expect(sanitizeText('- Python\n* SQL\n-3 degrees')).toBe('• Python\n• SQL\n-3 degrees');
+    });
+
+    it('should keep the indentation of nested bullets', () => {
+      expect(sanitizeText('• Leadership\n  • Hiring\n\t◦ Interviews')).toBe('• Leadership\n  • Hiring\n  • Interviews');
+    });
+
+    it('should leave inline separators alone', () => {
+      expect(sanitizeText('Python • SQL • Go')).toBe('Python • SQL • Go');
+    });
+  });
+
+  describe('hyphenated line wraps', () => {
+    it('should rejoin words split across lines', () => {
+      expect(sanitizeText('Managed infra-\nstructure migra-\n  tion')).toBe('Managed infrastructure migration');
+    });
+
+    it('should rejoin words with accented letters', () => {
+      expect(sanitizeText('Kundenbe-\nziehungen in Zürich und Mün-\nchen')).toBe('Kundenbeziehungen in Zürich und München');
+    });
+
+    it('should keep hyphens before capitalised words, numbers and bullets', () => {
+      expect(sanitizeText('Anglo-\nAmerican\nCOVID-\n19\nSkills -\n• SQL')).toBe('Anglo-\nAmerican\nCOVID-\n19\nSkills -\n• SQL');
+    });
+
+    it('should remove soft hyphens', () => {
+      expect(sanitizeText('Soft\u00adware engi\u00ad\nneer')).toBe('Software engineer');
+    });
+  });
+
+  describe('normaliseUnicode', () => {
+    it('should expand ligatures', () => {
+      expect(normaliseUnicode('ﬁnance oﬃce workﬂow')).toBe('finance office workflow');
+    });
+
+    it('should replace smart quotes, ellipses and hyphen variants', () => {
+      expect(normaliseUnicode('“Jane’s” team‘s work… e‑commerce')).toBe('"Jane\'s" team\'s work... e-commerce');
+    });
+
+    it('should keep en and em dashes', () => {
+      expect(normaliseUnicode('2019 – 2021 — Acme')).toBe('2019 – 2021 — Acme');
+    });
+
+    it('should remove zero-width and control characters', () => {
+      expect(normaliseUnicode('\ufeffJa\u200bne\u200d Doe\u0007\u0000')).toBe('Jane Doe');
+    });
+
+    it('should turn unusual spaces into plain spaces', () => {
+      expect(normaliseUnicode('Jane\u00a0Doe\u2009|\u202fLondon\u3000UK')).toBe('Jane Doe | London UK');
+    });
+
+    it('should compose decomposed accents', () => {
+      expect(normaliseUnicode('Jose\u0301 Mu\u0308ller')).toBe('José Müller');
+    });
+  });
+
+  describe('running headers and footers', () => {
+    const page = (number: number, body: string) =>
+      `Jane Doe – Curriculum Vitae\n${body}\nPage ${number} of 3`;
+
+    it('should remove page numbers and keep the first running header', () => {
+      const text = [
+        page(1, 'Profile\nProduct leader.'),
+        page(2, 'Experience\nAcme Ltd'),
+        page(3, 'Education\nBSc Physics'),
+      ].join(PAGE_BREAK);
+
+      expect(sanitizeText(text)).toBe([
+        'Jane Doe – Curriculum Vitae\nProfile\nProduct leader.',
+        'Experience\nAcme Ltd',
+        'Education\nBSc Physics',
+      ].join('\n\n'));
+    });
+
+    it('should remove bare page numbers even when they differ per page', () => {
+      expect(removeRunningLines(['Profile\n1', '2\nExperience', 'Education\n- 3 -'])).toEqual([
+        'Profile',
+        'Experience',
+        'Education',
+      ]);
+    });
+
+    it('should keep lines that repeat inside the page body', () => {
+      const pages = ['A1\nA2\nA3\n• Python\nA5\nA6\nA7', 'B1\nB2\nB3\n• Python\nB5\nB6\nB7'];
+
+      expect(removeRunningLines(pages)).toEqual(pages);
+    });
+
+    it('should ignore lines that repeat on too few pages', () => {
+      const pages = ['Confidential\nPage one', 'Page two', 'Page three', 'Confidential\nPage four'];
+
+      expect(removeRunningLines(pages)).toEqual(pages);
+    });
+
+    it('should leave single pages alone', () => {
+      expect(sanitizeText('Jane Doe\nPage 1 of 1')).toBe('Jane Doe\nPage 1 of 1');
+    });
+  });
+
+  describe('sanitizeTextWithPages', () => {
+    it('should report where each page starts in the cleaned text', () => {
+      const raw = ['Jane Doe\n\n\n\nProfile  ', '\n\nExperience\nAcme Ltd', 'Education\nBSc Physics', ''].join(PAGE_BREAK);
+
+      const { text, pageStarts } = sanitizeTextWithPages(raw);
+
+      expect(text).toBe(sanitizeText(raw));
+      expect(pageStarts).toEqual([0, text.indexOf('Experience'), text.indexOf('Education')]);
+    });
+
+    it('should keep page starts in step with removed running lines', () => {
+      const raw = ['Jane Doe\nProfile\nData engi-', 'Page 2\nneer at Acme', 'Page 3\nSkills'].join(PAGE_BREAK);
+
+      const { text, pageStarts } = sanitizeTextWithPages(raw);
+
+      expect(text).toBe('Jane Doe\nProfile\nData engi-\n\nneer at Acme\n\nSkills');
+      expect(pageStarts).toEqual([0, text.indexOf('neer'), text.indexOf('Skills')]);
+    });
+  });
+});
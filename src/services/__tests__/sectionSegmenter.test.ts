@@ -0,0 +1,162 @@
+import { segmentSections, groupSections, matchHeading, CvSection } from '../sectionSegmenter';
+
+const ENGLISH_CV = [
+  'John Smith',
+  'Senior Software Engineer',
+  'john.smith@example.com',
+  '',
+  'PROFILE',
+  'Engineer with 10 years of experience in distributed systems.',
+  '',
+  'Work Experience:',
+  'Acme Ltd — Lead Engineer, Jan 2020 – Present',
+  '• Led a team of six engineers',
+  '',
+  'Education',
+  'BSc Computer Science, University of Leeds, 2010 – 2013',
+  '',
+  'Key Skills',
+  '• TypeScript',
+  '• Kubernetes',
+].join('\n');
+
+describe('Section Segmentation', () => {
+  describe('segmentSections', () => {
+    it('should split a CV into typed sections in document order', () => {
+      const sections = segmentSections(ENGLISH_CV);
+
+      expect(sections.map(section => section.type)).toEqual([
+        'header',
+        'profile',
+        'experience',
+        'education',
+        'skills',
+      ]);
+      expect(sections.map(section => section.heading)).toEqual([
+        null,
+        'PROFILE',
+        'Work Experience:',
+        'Education',
+        'Key Skills',
+      ]);
+    });
+
+    it('should return offsets that map each section back to the raw text', () => {
+      const sections = segmentSections(ENGLISH_CV);
+
+      for (const section of sections) {
+        expect(ENGLISH_CV.slice(section.start, section.end)).toBe(section.text);
+      }
+      expect(sections[0].start).toBe(0);
+      expect(sections[sections.length - 1].end).toBe(ENGLISH_CV.length);
+      expect(sections.map(section => section.text).join('')).toBe(ENGLISH_CV);
+
+      const experience = sections.find(section => section.type === 'experience') as CvSection;
+      expect(experience.text.startsWith('Work Experience:\n')).toBe(true);
+      expect(experience.text).toContain('Led a team of six engineers');
+    });
+
+    it('should recognise German headings', () => {
+      const text = [
+        'Anna Müller',
+        'Berufserfahrung',
+        'Siemens AG, 2018 – heute',
+        'Ausbildung',
+        'M.Sc. Informatik, TU München',
+        'Sprachkenntnisse',
+        'Deutsch, Englisch',
+        'Hobbys',
+        'Klettern',
+      ].join('\n');
+
+      expect(segmentSections(text).map(section => section.type)).toEqual([
+        'header',
+        'experience',
+        'education',
+        'languages',
+        'interests',
+      ]);
+    });
+
+    it('should recognise French and Spanish headings with accents', () => {
+      const text = 'Expérience professionnelle\nL\'Oréal\nFormación académica\nUniversidad de Madrid';
+
+      expect(segmentSections(text).map(section => section.type)).toEqual(['experience', 'education']);
+    });
+
+    it('should not start a section on a sentence that mentions a heading word', () => {
+      const text = [
+        'Profile',
+        'My experience spans finance and retail, and my skills include negotiation.',
+        'Skills and experience gained abroad',
+      ].join('\n');
+
+      const sections = segmentSections(text);
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].type).toBe('profile');
+    });
+
+    it('should return a single header section when no headings are found', () => {
+      const sections = segmentSections('Jane Doe\nProduct Designer');
+
+      expect(sections).toEqual([
+        { type: 'header', heading: null, start: 0, end: 25, text: 'Jane Doe\nProduct Designer' },
+      ]);
+    });
+
+    it('should return no sections for empty text', () => {
+      expect(segmentSections('')).toEqual([]);
+    });
+  });
+
+  describe('matchHeading', () => {
+    it.each([
+      ['EXPERIENCE', 'experience'],
+      ['## EDUCATION', 'education'],
+      ['2. Education', 'education'],
+      ['E X P E R I E N C E', 'experience'],
+      ['Personal Details', 'personalDetails'],
+      ['Hobbies & Interests', 'interests'],
+      ['Centres d’intérêt', 'interests'],
+      ['Persönliche Daten', 'personalDetails'],
+      ['Werkervaring', 'experience'],
+    ])('should classify %s as %s', (line, type) => {
+      expect(matchHeading(line)).toBe(type);
+    });
+
+    it('should ignore bullets and ordinary lines', () => {
+      expect(matchHeading('• Skills')).toBeNull();
+      expect(matchHeading('Acme Ltd — Lead Engineer')).toBeNull();
+      expect(matchHeading('')).toBeNull();
+    });
+  });
+
+  describe('groupSections', () => {
+    const section = (type: CvSection['type'], length: number): CvSection => ({
+      type,
+      heading: null,
+      start: 0,
+      end: length,
+      text: 'x'.repeat(length),
+    });
+
+    it('should pack whole sections into groups up to the maximum length', () => {
+      const groups = groupSections(
+        [section('header', 100), section('profile', 300), section('experience', 700), section('skills', 200)],
+        1000
+      );
+
+      expect(groups.map(group => group.map(s => s.type))).toEqual([
+        ['header', 'profile'],
+        ['experience', 'skills'],
+      ]);
+    });
+
+    it('should keep an oversized section in a group of its own', () => {
+      const groups = groupSections([section('header', 50), section('experience', 5000), section('skills', 50)], 1000);
+
+      expect(groups.map(group => group.map(s => s.type))).toEqual([['header'], ['experience'], ['skills']]);
+    });
+  });
+});
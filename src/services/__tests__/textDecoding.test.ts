@@ -0,0 +1,44 @@
+import { decodeTextBuffer, detectEncoding } from '../textDecoding';
+
+const SAMPLE = 'Zoë Brontë — Café Manager';
+
+describe('Text Decoding', () => {
+  it('should decode UTF-8 with and without a byte order mark', () => {
+    const withoutBom = Buffer.from(SAMPLE, 'utf8');
+    const withBom = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), withoutBom]);
+
+    expect(decodeTextBuffer(withoutBom)).toEqual({ text: SAMPLE, encoding: 'utf-8' });
+    expect(decodeTextBuffer(withBom)).toEqual({ text: SAMPLE, encoding: 'utf-8' });
+  });
+
+  it('should decode UTF-16 little endian as saved by Windows Notepad', () => {
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(SAMPLE, 'utf16le')]);
+
+    expect(decodeTextBuffer(buffer)).toEqual({ text: SAMPLE, encoding: 'utf-16le' });
+  });
+
+  it('should decode UTF-16 big endian with a byte order mark', () => {
+    const buffer = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(SAMPLE, 'utf16le').swap16()]);
+
+    expect(decodeTextBuffer(buffer)).toEqual({ text: SAMPLE, encoding: 'utf-16be' });
+  });
+
+  it('should recognise UTF-16 without a byte order mark', () => {
+    const littleEndian = Buffer.from('Curriculum Vitae', 'utf16le');
+    const bigEndian = Buffer.from('Curriculum Vitae', 'utf16le').swap16();
+
+    expect(detectEncoding(littleEndian)).toBe('utf-16le');
+    expect(detectEncoding(bigEndian)).toBe('utf-16be');
+  });
+
+  it('should fall back to Latin-1 when the bytes are not valid UTF-8', () => {
+    // "Zoë Brontë" in Latin-1, plus Windows-1252 curly quotes (0x93/0x94)
+    const buffer = Buffer.from([0x5a, 0x6f, 0xeb, 0x20, 0x42, 0x72, 0x6f, 0x6e, 0x74, 0xeb, 0x20, 0x93, 0x43, 0x56, 0x94]);
+
+    expect(decodeTextBuffer(buffer)).toEqual({ text: 'Zoë Brontë “CV”', encoding: 'windows-1252' });
+  });
+
+  it('should treat empty files as UTF-8', () => {
+    expect(decodeTextBuffer(Buffer.alloc(0))).toEqual({ text: '', encoding: 'utf-8' });
+  });
+});
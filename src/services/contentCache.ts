@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import type { ParseResult, ParseOptions } from './parseFile';
+import type { CvDraft } from '../../shared/schemas/cv.schema';
+import { ContentCache } from '../../shared/cache/contentCache';
+
+export { ContentCache };
+
+// Parse options that change the parser's output; the password only opens the file (see isCacheable)
+const OUTPUT_OPTIONS: (keyof ParseOptions)[] = [
+  'enableOCR',
+  'ocrLanguage',
+  'ocrConfidenceThreshold',
+  'maxPages',
+  'extractImages',
+  'layoutMode',
+  'structuredDocx',
+];
+
+// Parsed documents and AI drafts, shared by every upload of the same file
+export const parseResultCache = new ContentCache<ParseResult>();
+export const cvDraftCache = new ContentCache<CvDraft>();
+
+/**
+ * SHA-256 of a file's bytes, streamed so large scans are not read into memory
+ * @param filePath - Path to the file
+ * @returns Promise<string> - Lowercase hex digest
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Whether a parse with these options may be cached. A document that needs a password is never
+ * cached, nor is its draft: the key leaves out the password, so a later upload of the same file
+ * without the password, or with a wrong one, would otherwise be served the decrypted text.
+ */
+export function isCacheable(options: ParseOptions = {}): boolean {
+  return !options.password;
+}
+
+/**
+ * Cache key for a ParseResult. Bumping the parser version or changing an
+ * option that affects the output gives a new key, so stale results are never reused.
+ */
+export function parseCacheKey(contentHash: string, parserVersion: string, options: ParseOptions = {}): string {
+  const settings = OUTPUT_OPTIONS
+    .filter(option => options[option] !== undefined)
+    .map(option => `${option}=${options[option]}`)
+    .join(',');
+
+  return `parse:${parserVersion}:${contentHash}:${settings}`;
+}
+
+/**
+ * Cache key for a CvDraft built from a cached parse. The draft depends on the
+ * parsed text, the prompt and the providers asked, in order of preference.
+ */
+export function draftCacheKey(parseKey: string, promptVersion: string, providers: string[] = []): string {
+  return `draft:${promptVersion}:${providers.join(',')}:${parseKey}`;
+}
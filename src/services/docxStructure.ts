@@ -0,0 +1,366 @@
+import mammoth from 'mammoth';
+import { decodeEntities } from './odtText';
+
+// Lightweight document tree built from a DOCX file
+export type DocumentNode =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: DocumentListItem[] }
+  | { type: 'table'; rows: string[][] }; // Cell text keeps its line breaks
+
+export interface DocumentListItem {
+  text: string;
+  children: DocumentNode[]; // Nested lists
+}
+
+export type DocumentLinkKind = 'linkedin' | 'github' | 'portfolio' | 'email';
+
+export interface DocumentLink {
+  kind: DocumentLinkKind;
+  url: string;
+  text: string;
+}
+
+export interface DocumentTree {
+  nodes: DocumentNode[];
+  links: DocumentLink[];
+}
+
+// Title styles are common in CV templates but not in mammoth's default style map
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
+
+// Bare profile URLs typed as plain text rather than inserted as hyperlinks
+const PLAIN_PROFILE_URL = /\b(?:https?:\/\/)?(?:[\w-]+\.)?(?:linkedin\.com\/in|github\.com)\/[\w%-]+\/?/gi;
+
+/**
+ * Extract a DOCX file as a document tree that keeps heading levels, list
+ * nesting, table cells and hyperlink targets, plus text rendered from it.
+ * @param filePath - Path to the .docx file
+ * @returns Promise with the tree, its text rendering and whether images were found
+ */
+export async function extractDocxStructure(filePath: string): Promise<{
+  tree: DocumentTree;
+  text: string;
+  hasImages: boolean;
+}> {
+  let imageCount = 0;
+
+  const result = await mammoth.convertToHtml(
+    { path: filePath },
+    {
+      styleMap: STYLE_MAP,
+      // Only count images; embedding them as data URIs would bloat the HTML
+      convertImage: mammoth.images.imgElement(async () => {
+        imageCount++;
+        return { src: '' };
+      }),
+    }
+  );
+
+  const tree = htmlToDocumentTree(result.value);
+
+  return { tree, text: renderDocumentTree(tree), hasImages: imageCount > 0 };
+}
+
+interface ListFrame {
+  ordered: boolean;
+  items: DocumentListItem[];
+}
+
+/**
+ * Build a document tree from the HTML mammoth produces. Mammoth only emits a
+ * small, well-formed subset (h1-h6, p, ul/ol/li, table/tr/td/th, a, strong, em,
+ * img, br), so a tokenizer with a few stacks is enough.
+ */
+export function htmlToDocumentTree(html: string): DocumentTree {
+  const nodes: DocumentNode[] = [];
+  const links: DocumentLink[] = [];
+
+  const listStack: ListFrame[] = [];
+  let table: string[][] | null = null;
+  let tableDepth = 0;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+  let block: { type: 'heading' | 'paragraph'; level: number; text: string } | null = null;
+  let link: { href: string; text: string } | null = null;
+  let itemText: string | null = null;
+
+  const appendText = (text: string) => {
+    if (link) link.text += text;
+    if (cell !== null) {
+      cell += text;
+    } else if (block) {
+      block.text += text;
+    } else if (itemText !== null) {
+      itemText += text;
+    }
+  };
+
+  // Attach a finished node to the innermost open list item, or to the document
+  const emit = (node: DocumentNode) => {
+    const list = listStack[listStack.length - 1];
+    if (list && list.items.length > 0) {
+      list.items[list.items.length - 1].children.push(node);
+    } else {
+      nodes.push(node);
+    }
+  };
+
+  const flushItemText = () => {
+    const list = listStack[listStack.length - 1];
+    if (list && itemText !== null && list.items.length > 0) {
+      const item = list.items[list.items.length - 1];
+      item.text = joinText(item.text, itemText);
+    }
+    itemText = null;
+  };
+
+  for (const token of html.match(/<[^>]+>|[^<]+/g) || []) {
+    if (!token.startsWith('<')) {
+      appendText(decodeEntities(token));
+      continue;
+    }
+
+    const tag = /^<(\/?)([a-z][a-z0-9]*)([^>]*?)\/?>$/i.exec(token);
+    if (!tag) continue;
+
+    const [, closing, rawName, attributes] = tag;
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      switch (name) {
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        case 'p':
+          if (block && cell === null) {
+            const text = normaliseSpace(block.text);
+            if (text && listStack.length > 0 && itemText !== null) {
+              // Paragraph inside a list item (multi-paragraph bullet)
+              itemText = joinText(itemText, text);
+            } else if (text) {
+              emit(block.type === 'heading'
+                ? { type: 'heading', level: block.level, text }
+                : { type: 'paragraph', text });
+            }
+          } else if (cell !== null) {
+            cell += '\n';
+          }
+          block = null;
+          break;
+        case 'li':
+          if (tableDepth === 0) flushItemText();
+          break;
+        case 'ul':
+        case 'ol': {
+          if (tableDepth > 0) break;
+          flushItemText();
+          const list = listStack.pop();
+          if (list) {
+            emit({ type: 'list', ordered: list.ordered, items: list.items });
+          }
+          break;
+        }
+        case 'td':
+        case 'th':
+          if (tableDepth === 1 && row && cell !== null) {
+            row.push(normaliseSpace(cell));
+            cell = null;
+          }
+          break;
+        case 'tr':
+          if (tableDepth === 1 && table && row && row.some(value => value)) {
+            table.push(row);
+          }
+          if (tableDepth === 1) row = null;
+          break;
+        case 'table':
+          tableDepth--;
+          if (tableDepth === 0 && table) {
+            if (table.length > 0) emit({ type: 'table', rows: table });
+            table = null;
+          }
+          break;
+        case 'a':
+          if (link) {
+            const documentLink = classifyLink(link.href, normaliseSpace(link.text));
+            if (documentLink) links.push(documentLink);
+            // Keep the link target in the text so the formatter can see it
+            if (documentLink && documentLink.kind !== 'email' && !link.text.includes(stripScheme(link.href))) {
+              appendText(` (${link.href})`);
+            }
+          }
+          link = null;
+          break;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        block = { type: 'heading', level: parseInt(name[1], 10), text: '' };
+        break;
+      case 'p':
+        block = { type: 'paragraph', level: 0, text: '' };
+        break;
+      case 'br':
+        appendText('\n');
+        break;
+      case 'ul':
+      case 'ol':
+        // Lists inside table cells stay part of the cell text
+        if (tableDepth > 0) break;
+        flushItemText();
+        listStack.push({ ordered: name === 'ol', items: [] });
+        break;
+      case 'li': {
+        if (cell !== null) {
+          cell += '\n• ';
+          break;
+        }
+        const list = listStack[listStack.length - 1];
+        if (list) list.items.push({ text: '', children: [] });
+        itemText = '';
+        break;
+      }
+      case 'table':
+        tableDepth++;
+        if (tableDepth === 1) table = [];
+        break;
+      case 'tr':
+        if (tableDepth === 1) row = [];
+        break;
+      case 'td':
+      case 'th':
+        if (tableDepth === 1) cell = '';
+        break;
+      case 'a': {
+        const href = /href="([^"]*)"/.exec(attributes);
+        link = href ? { href: decodeEntities(href[1]), text: '' } : null;
+        break;
+      }
+    }
+  }
+
+  collectPlainProfileUrls(nodes, links);
+
+  return { nodes, links: dedupeLinks(links) };
+}
+
+/**
+ * Render a document tree as text: headings prefixed with '#', nested bullets
+ * indented by two spaces, and tables row by row
+ */
+export function renderDocumentTree(tree: DocumentTree): string {
+  return renderNodes(tree.nodes, 0).join('\n\n');
+}
+
+function renderNodes(nodes: DocumentNode[], depth: number): string[] {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'heading':
+        return `${'#'.repeat(node.level)} ${node.text}`;
+      case 'paragraph':
+        return node.text;
+      case 'table':
+        return node.rows.map(renderRow).join('\n');
+      case 'list':
+        return node.items
+          .map((item, index) => {
+            const marker = node.ordered ? `${index + 1}.` : '•';
+            const lines = [`${'  '.repeat(depth)}${marker} ${item.text}`];
+            lines.push(...renderNodes(item.children, depth + 1));
+            return lines.join('\n');
+          })
+          .join('\n');
+    }
+  });
+}
+
+/**
+ * Render a table row. Rows of short cells read as ' | ' separated data; rows
+ * whose cells hold several lines are page layout (a sidebar and a main column),
+ * so their cells are emitted one after another.
+ */
+function renderRow(row: string[]): string {
+  const cells = row.filter(value => value);
+  return cells.some(value => value.includes('\n')) ? cells.join('\n\n') : cells.join(' | ');
+}
+
+/**
+ * Classify a hyperlink as a LinkedIn, GitHub, portfolio or email link.
+ * Internal bookmarks and other schemes are ignored.
+ */
+export function classifyLink(href: string, text: string): DocumentLink | null {
+  const url = href.trim();
+
+  if (/^mailto:/i.test(url)) {
+    return { kind: 'email', url: url.replace(/^mailto:/i, ''), text };
+  }
+
+  const normalised = /^https?:\/\//i.test(url) ? url : /^(www\.|[\w-]+\.[a-z]{2,})/i.test(url) ? `https://${url}` : null;
+  if (!normalised) {
+    return null;
+  }
+
+  const host = normalised.replace(/^https?:\/\//i, '').split(/[/?#]/)[0].toLowerCase();
+  if (host === 'linkedin.com' || host.endsWith('.linkedin.com')) {
+    return { kind: 'linkedin', url: normalised, text };
+  }
+  if (host === 'github.com' || host.endsWith('.github.com')) {
+    return { kind: 'github', url: normalised, text };
+  }
+  return { kind: 'portfolio', url: normalised, text };
+}
+
+/**
+ * Pick up LinkedIn and GitHub profiles written as plain text
+ */
+function collectPlainProfileUrls(nodes: DocumentNode[], links: DocumentLink[]): void {
+  const texts: string[] = [];
+  const walk = (items: DocumentNode[]) => {
+    for (const node of items) {
+      if (node.type === 'list') {
+        for (const item of node.items) {
+          texts.push(item.text);
+          walk(item.children);
+        }
+      } else if (node.type === 'table') {
+        texts.push(...node.rows.flat());
+      } else {
+        texts.push(node.text);
+      }
+    }
+  };
+  walk(nodes);
+
+  for (const text of texts) {
+    for (const match of text.match(PLAIN_PROFILE_URL) || []) {
+      const documentLink = classifyLink(match, match);
+      if (documentLink) links.push(documentLink);
+    }
+  }
+}
+
+function dedupeLinks(links: DocumentLink[]): DocumentLink[] {
+  const seen = new Set<string>();
+  return links.filter(link => {
+    const key = stripScheme(link.url).replace(/\/$/, '').toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function stripScheme(url: string): string {
+  return url.replace(/^(https?:\/\/|mailto:)/i, '').replace(/^www\./i, '');
+}
+
+function joinText(existing: string, addition: string): string {
+  return existing ? `${existing} ${addition}` : addition;
+}
+
+function normaliseSpace(text: string): string {
+  return text.replace(/[ \t\u00a0]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{2,}/g, '\n').trim();
+}
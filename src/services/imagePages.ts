@@ -0,0 +1,3 @@
+// Image pages are prepared in shared/images so the Express API OCRs uploads the same way
+export { loadImagePages } from '../../shared/images/imagePages';
+export type { ImageFileType } from '../../shared/images/imagePages';
@@ -0,0 +1,92 @@
+import { createWorker } from 'tesseract.js';
+import { renderPdfPages } from './pdfRenderer';
+
+// Types for the OCR service
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  confidence: number;
+  lowConfidence: boolean;
+}
+
+export interface OcrResult {
+  text: string;
+  pages: OcrPageResult[];
+  averageConfidence: number;
+}
+
+export interface OcrOptions {
+  language?: string;
+  confidenceThreshold?: number;
+  maxPages?: number;
+  deskew?: boolean;
+  password?: string; // For encrypted PDFs
+}
+
+// Tesseract reports confidence on a 0-100 scale; below this a page usually needs a human look
+export const DEFAULT_OCR_CONFIDENCE_THRESHOLD = 60;
+
+/**
+ * Recognise text in a list of page images using a single Tesseract worker
+ * @param images - Page images (PNG/JPEG/TIFF buffers) in page order
+ * @param options - OCR language, confidence threshold and deskew toggle
+ * @returns Promise<OcrResult> - Text per page plus combined text and confidence
+ */
+export async function recognizeImages(images: Buffer[], options: OcrOptions = {}): Promise<OcrResult> {
+  const language = options.language || 'eng';
+  const threshold = options.confidenceThreshold ?? DEFAULT_OCR_CONFIDENCE_THRESHOLD;
+  const rotateAuto = options.deskew !== false;
+
+  console.log(`[recognizeImages] Starting OCR on ${images.length} images with language: ${language}`);
+
+  const worker = await createWorker(language);
+  const pages: OcrPageResult[] = [];
+
+  try {
+    for (let index = 0; index < images.length; index++) {
+      // rotateAuto lets Tesseract measure page skew and straighten the image before recognition
+      const { data } = await worker.recognize(images[index], { rotateAuto });
+      const text = (data.text || '').trim();
+      const confidence = Math.round(data.confidence * 100) / 100;
+      const lowConfidence = text.length > 0 && confidence < threshold;
+
+      if (lowConfidence) {
+        console.warn(`[recognizeImages] Page ${index + 1} recognised with low confidence (${confidence})`);
+      }
+
+      pages.push({
+        page: index + 1,
+        text,
+        confidence,
+        lowConfidence,
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return {
+    text: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+    pages,
+    averageConfidence: averageConfidence(pages),
+  };
+}
+
+/**
+ * Rasterise a scanned PDF page by page and run OCR on every page
+ */
+export async function ocrPdf(filePath: string, options: OcrOptions = {}): Promise<OcrResult> {
+  const images = await renderPdfPages(filePath, { maxPages: options.maxPages, password: options.password });
+  return recognizeImages(images, options);
+}
+
+/**
+ * Average page confidence, ignoring blank pages that Tesseract scores as 0
+ */
+function averageConfidence(pages: OcrPageResult[]): number {
+  const scored = pages.filter(page => page.text.length > 0);
+  if (scored.length === 0) return 0;
+
+  const total = scored.reduce((sum, page) => sum + page.confidence, 0);
+  return Math.round((total / scored.length) * 100) / 100;
+}
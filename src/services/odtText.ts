@@ -0,0 +1,2 @@
+// ODT reading lives in shared/text so the Express API reads OpenDocument uploads the same way
+export { extractOdtText, odtXmlToText, decodeEntities } from '../../shared/text/odtText';
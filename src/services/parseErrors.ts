@@ -0,0 +1,61 @@
+// Failures caused by the document itself rather than by the parser; routes map these to API error codes
+export type ParseErrorCode =
+  | 'DOCUMENT_ENCRYPTED'
+  | 'DOCUMENT_PASSWORD_INCORRECT'
+  | 'DOCUMENT_CORRUPTED'
+  | 'DOCUMENT_EMPTY'
+  | 'PAGE_LIMIT_EXCEEDED';
+
+export class ParseError extends Error {
+  constructor(public readonly code: ParseErrorCode, message: string) {
+    super(message);
+    this.name = 'ParseError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ParseError.prototype);
+  }
+}
+
+// OLE compound file signature. Encrypted Word and Excel files are always wrapped in one.
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const INCORRECT_PASSWORD = /incorrect password/i;
+const PASSWORD_REQUIRED = /password|encrypt/i;
+const CORRUPTED = /invalid pdf|xref|unexpected end|end of data|central directory|corrupt|invalid signature|main document part|not a valid|bad (?:header|format)|truncated/i;
+
+/**
+ * Map an error thrown by pdf-parse, pdf.js, mammoth, JSZip, SheetJS or
+ * word-extractor to a ParseError, or return null when it is not caused by
+ * the document being protected or damaged
+ */
+export function classifyDocumentError(error: unknown): ParseError | null {
+  if (error instanceof ParseError) return error;
+
+  const name = (error as { name?: string } | null)?.name || '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  // pdf.js reports code 2 for a wrong password and 1 when none was given
+  if (name === 'PasswordException' || PASSWORD_REQUIRED.test(message)) {
+    return INCORRECT_PASSWORD.test(message) || (error as { code?: number }).code === 2
+      ? new ParseError('DOCUMENT_PASSWORD_INCORRECT', 'The password for this document is incorrect')
+      : new ParseError('DOCUMENT_ENCRYPTED', 'The document is password-protected');
+  }
+
+  if (name === 'InvalidPDFException' || name === 'FormatError' || CORRUPTED.test(message)) {
+    return new ParseError('DOCUMENT_CORRUPTED', `The document is damaged or incomplete: ${message}`);
+  }
+
+  return null;
+}
+
+/**
+ * Check that an Office Open XML or OpenDocument file is a zip package before
+ * handing it to a parser. Encrypted .docx and .xlsx files are OLE containers.
+ */
+export function assertZipPackage(buffer: Buffer): void {
+  if (OLE_SIGNATURE.every((byte, index) => buffer[index] === byte)) {
+    throw new ParseError('DOCUMENT_ENCRYPTED', 'The document is password-protected');
+  }
+  if (buffer.length < 4 || buffer[0] !== 0x50 || buffer[1] !== 0x4b) {
+    throw new ParseError('DOCUMENT_CORRUPTED', 'The document is damaged or incomplete: not a zip package');
+  }
+}
@@ -0,0 +1,410 @@
+import path from 'path';
+import { loadPdfDocument } from './pdfRenderer';
+
+// Types for layout-aware extraction
+export interface PositionedTextItem {
+  str: string;
+  x: number;       // Left edge in points from the left of the page
+  y: number;       // Baseline in points from the top of the page
+  width: number;
+  height: number;  // Font size in points
+}
+
+export interface LayoutPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PositionedTextItem[];
+}
+
+export interface LayoutPageResult {
+  pageNumber: number;
+  text: string;
+  columns: number;
+  headings: string[];
+}
+
+export interface LayoutResult {
+  text: string;
+  pages: LayoutPageResult[];
+}
+
+interface TextLine {
+  x: number;
+  y: number;
+  height: number;
+  text: string;
+}
+
+interface Gutter {
+  start: number;
+  end: number;
+}
+
+// Narrowest whitespace channel treated as a gap between columns
+const MIN_GUTTER_WIDTH = 12;
+// Each column must hold at least this share of the region's text, so a right-aligned date strip is not a column
+const MIN_COLUMN_TEXT_SHARE = 0.15;
+// ...and span at least this many lines, so one "title    date" line is not two columns
+const MIN_COLUMN_LINES = 3;
+// A side with this share of its lines on the other side's baselines, and far fewer lines,
+// holds row annotations (title ... date) rather than a column
+const MAX_SHARED_BASELINE_RATIO = 0.8;
+const SPARSE_SIDE_RATIO = 0.8;
+// Blank vertical space, relative to body text size, that separates horizontal bands
+const BAND_GAP_RATIO = 0.8;
+// A vertical gap this many line heights tall starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.8;
+// Lines this much larger than body text are headings
+const HEADING_SIZE_RATIO = 1.2;
+
+// Includes the private-use code points Word's Symbol and Wingdings bullets come through as
+const BULLET_PATTERN = /^([•▪●◦■□►▶➢✓✔·\-–*\uf0a7\uf0b7\uf0d8\uf0fc])\s*(.+)$/;
+
+/**
+ * Marker emitted at the start of each column when a page region has more than one
+ */
+export function columnMarker(index: number, total: number): string {
+  return `--- Column ${index} of ${total} ---`;
+}
+
+/**
+ * Extract text from a PDF in logical reading order using positioned text items
+ * @param filePath - Path to the PDF file
+ * @param maxPages - Optional limit on the number of pages to process
+ * @param password - User password for encrypted PDFs
+ * @returns Promise<LayoutResult> - Ordered text plus per-page column and heading information
+ */
+export async function extractPdfLayout(filePath: string, maxPages?: number, password?: string): Promise<LayoutResult> {
+  console.log(`[extractPdfLayout] Extracting positioned text from PDF: ${path.basename(filePath)}`);
+
+  const document = await loadPdfDocument(filePath, password);
+
+  try {
+    const pageCount = maxPages ? Math.min(maxPages, document.numPages) : document.numPages;
+    const pages: LayoutPageResult[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items: PositionedTextItem[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+
+        const [, , c, d, e, f] = item.transform;
+        const [x, y] = viewport.convertToViewportPoint(e, f);
+        items.push({
+          str: item.str,
+          x,
+          y,
+          width: item.width,
+          height: item.height || Math.hypot(c, d),
+        });
+      }
+
+      pages.push(layoutPageText({ pageNumber, width: viewport.width, height: viewport.height, items }));
+      page.cleanup();
+    }
+
+    console.log(`[extractPdfLayout] Laid out ${pages.length} pages, columns per page: ${pages.map(page => page.columns).join(', ')}`);
+
+    return {
+      text: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+      pages,
+    };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Order one page's text items into readable text.
+ * The page is cut into horizontal bands at blank vertical gaps; the largest
+ * run of bands that has a clean vertical gutter is laid out column by column,
+ * and whatever sits above or below it (names, contact lines, footers) is laid
+ * out on its own, so a full-width header does not hide the columns under it.
+ */
+export function layoutPageText(page: LayoutPage): LayoutPageResult {
+  const items = page.items.filter(item => item.str.trim().length > 0);
+  const bodyHeight = medianHeight(items);
+  const headings: string[] = [];
+  let columns = 1;
+
+  const layoutRegion = (regionItems: PositionedTextItem[]): string[] => {
+    if (regionItems.length === 0) return [];
+
+    const gutters = detectGutters(regionItems);
+    if (gutters.length > 0) {
+      // Leading bands that only one column reaches into are a header above the columns
+      const bands = splitBands(regionItems, bodyHeight);
+      let headerBands = 0;
+      while (
+        headerBands < bands.length - 1 &&
+        splitColumns(bands[headerBands], gutters).filter(column => column.length > 0).length === 1
+      ) {
+        headerBands++;
+      }
+      if (headerBands > 0) {
+        return [
+          ...layoutRegion(bands.slice(0, headerBands).flat()),
+          ...layoutRegion(bands.slice(headerBands).flat()),
+        ];
+      }
+
+      const columnItems = splitColumns(regionItems, gutters);
+      columns = Math.max(columns, columnItems.length);
+      return columnItems.map((itemsInColumn, index) =>
+        `${columnMarker(index + 1, columnItems.length)}\n${renderLines(buildLines(itemsInColumn), bodyHeight, headings)}`
+      );
+    }
+
+    const bands = splitBands(regionItems, bodyHeight);
+    for (let first = 0; first < bands.length; first++) {
+      for (let last = bands.length; last > first; last--) {
+        if (first === 0 && last === bands.length) continue;
+
+        const candidate = bands.slice(first, last).flat();
+        if (detectGutters(candidate).length > 0) {
+          return [
+            ...layoutRegion(bands.slice(0, first).flat()),
+            ...layoutRegion(candidate),
+            ...layoutRegion(bands.slice(last).flat()),
+          ];
+        }
+      }
+    }
+
+    return [renderLines(buildLines(regionItems), bodyHeight, headings)];
+  };
+
+  const text = layoutRegion(items).filter(Boolean).join('\n\n');
+  return { pageNumber: page.pageNumber, text, columns, headings };
+}
+
+/**
+ * Split items into horizontal bands separated by blank vertical gaps
+ */
+function splitBands(items: PositionedTextItem[], bodyHeight: number): PositionedTextItem[][] {
+  const sorted = [...items].sort((a, b) => (a.y - a.height) - (b.y - b.height));
+  const minGap = bodyHeight * BAND_GAP_RATIO;
+  const bands: PositionedTextItem[][] = [];
+  let bottom = -Infinity;
+
+  for (const item of sorted) {
+    const top = item.y - item.height;
+    if (bands.length === 0 || top - bottom > minGap) {
+      bands.push([item]);
+    } else {
+      bands[bands.length - 1].push(item);
+    }
+    bottom = Math.max(bottom, item.y);
+  }
+
+  return bands;
+}
+
+/**
+ * Find vertical whitespace channels that no text crosses and that have real columns on both sides
+ */
+function detectGutters(items: PositionedTextItem[]): Gutter[] {
+  if (items.length === 0) return [];
+
+  const contentLeft = Math.floor(Math.min(...items.map(item => item.x)));
+  const contentRight = Math.ceil(Math.max(...items.map(item => item.x + item.width)));
+
+  // Mark every horizontal point covered by at least one item
+  const covered = new Array<boolean>(contentRight - contentLeft + 1).fill(false);
+  for (const item of items) {
+    const start = Math.floor(item.x) - contentLeft;
+    const end = Math.ceil(item.x + item.width) - contentLeft;
+    for (let x = start; x < end; x++) {
+      covered[x] = true;
+    }
+  }
+
+  const totalChars = items.reduce((sum, item) => sum + item.str.length, 0);
+  const gutters: Gutter[] = [];
+
+  let runStart = -1;
+  for (let offset = 0; offset < covered.length; offset++) {
+    if (!covered[offset] && runStart === -1) {
+      runStart = offset;
+    } else if (covered[offset] && runStart !== -1) {
+      const gutter = { start: contentLeft + runStart, end: contentLeft + offset };
+      if (isColumnGutter(gutter, items, gutters, totalChars)) {
+        gutters.push(gutter);
+      }
+      runStart = -1;
+    }
+  }
+
+  return gutters;
+}
+
+/**
+ * Check that a whitespace run is wide and has enough text on both sides to be a column break
+ */
+function isColumnGutter(
+  gutter: Gutter,
+  items: PositionedTextItem[],
+  previous: Gutter[],
+  totalChars: number
+): boolean {
+  if (gutter.end - gutter.start < MIN_GUTTER_WIDTH) return false;
+
+  const leftBound = previous.length > 0 ? previous[previous.length - 1].end : -Infinity;
+  const left = items.filter(item => item.x >= leftBound && item.x + item.width <= gutter.start);
+  const right = items.filter(item => item.x >= gutter.end);
+
+  return isColumn(left, totalChars) && isColumn(right, totalChars) && !isRowAligned(left, right);
+}
+
+/**
+ * A column holds a fair share of the text spread over several lines
+ */
+function isColumn(items: PositionedTextItem[], totalChars: number): boolean {
+  const chars = items.reduce((sum, item) => sum + item.str.length, 0);
+  const lines = new Set(items.map(item => Math.round(item.y))).size;
+
+  return chars / totalChars >= MIN_COLUMN_TEXT_SHARE && lines >= MIN_COLUMN_LINES;
+}
+
+/**
+ * Check whether one side is a sparse annotation of the other (dates or labels
+ * on the same baselines as some of its lines) rather than an independent column.
+ * Two columns set on the same baseline grid have similar line counts and stay columns.
+ */
+function isRowAligned(left: PositionedTextItem[], right: PositionedTextItem[]): boolean {
+  const leftLines = Array.from(new Set(left.map(item => Math.round(item.y))));
+  const rightLines = Array.from(new Set(right.map(item => Math.round(item.y))));
+  const annotates = (lines: number[], others: number[]) =>
+    lines.length <= others.length * SPARSE_SIDE_RATIO &&
+    lines.filter(y => others.some(other => Math.abs(other - y) <= 2)).length / lines.length >= MAX_SHARED_BASELINE_RATIO;
+
+  return annotates(rightLines, leftLines) || annotates(leftLines, rightLines);
+}
+
+/**
+ * Partition items into columns, left to right
+ */
+function splitColumns(items: PositionedTextItem[], gutters: Gutter[]): PositionedTextItem[][] {
+  const columns: PositionedTextItem[][] = Array.from({ length: gutters.length + 1 }, () => []);
+
+  for (const item of items) {
+    const index = gutters.findIndex(gutter => item.x + item.width <= gutter.start);
+    columns[index === -1 ? gutters.length : index].push(item);
+  }
+
+  return columns;
+}
+
+/**
+ * Group items sharing a baseline into lines, top to bottom
+ */
+function buildLines(items: PositionedTextItem[]): TextLine[] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const groups: PositionedTextItem[][] = [];
+
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    const tolerance = current ? Math.min(current[0].height, item.height) * 0.5 : 0;
+    if (current && Math.abs(item.y - current[0].y) <= tolerance) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+
+    let text = '';
+    let previous: PositionedTextItem | null = null;
+    for (const item of group) {
+      const gap = previous ? item.x - (previous.x + previous.width) : 0;
+      const needsSpace = previous && gap > item.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str);
+      text += (needsSpace ? ' ' : '') + item.str;
+      previous = item;
+    }
+
+    return {
+      x: group[0].x,
+      y: group[0].y,
+      height: Math.max(...group.map(item => item.height)),
+      text: text.replace(/\s+/g, ' ').trim(),
+    };
+  });
+}
+
+/**
+ * Render lines with headings marked, bullets normalised and wrapped bullets rejoined
+ */
+function renderLines(lines: TextLine[], bodyHeight: number, headings: string[]): string {
+  const output: string[] = [];
+  let previous: TextLine | null = null;
+  let bulletX: number | null = null;
+
+  for (const line of lines) {
+    if (!line.text) continue;
+
+    const paragraphBreak = previous !== null &&
+      line.y - previous.y > Math.max(line.height, previous.height) * PARAGRAPH_GAP_RATIO;
+    if (paragraphBreak) {
+      output.push('');
+      bulletX = null;
+    }
+
+    const bullet = line.text.match(BULLET_PATTERN);
+
+    if (isHeading(line, bodyHeight)) {
+      output.push(`## ${line.text}`);
+      headings.push(line.text);
+      bulletX = null;
+    } else if (bullet) {
+      output.push(`• ${bullet[2].trim()}`);
+      bulletX = line.x;
+    } else if (bulletX !== null && line.x > bulletX + 2) {
+      // Indented line under a bullet is the bullet's wrapped continuation
+      output[output.length - 1] += ` ${line.text}`;
+    } else {
+      output.push(line.text);
+      bulletX = null;
+    }
+
+    previous = line;
+  }
+
+  return output.join('\n').trim();
+}
+
+/**
+ * Headings are short lines that are either larger than body text or set in capitals
+ */
+function isHeading(line: TextLine, bodyHeight: number): boolean {
+  const text = line.text;
+  if (text.length > 60 || /[.,;:]$/.test(text) || BULLET_PATTERN.test(text)) return false;
+
+  const letters = text.replace(/[^A-Za-zÀ-ÿ]/g, '');
+  const words = text.split(/\s+/).length;
+
+  if (bodyHeight > 0 && line.height >= bodyHeight * HEADING_SIZE_RATIO) return true;
+  return letters.length >= 3 && words <= 5 && letters === letters.toUpperCase();
+}
+
+/**
+ * Median font size weighted by the number of characters set in it
+ */
+function medianHeight(items: PositionedTextItem[]): number {
+  const heights: number[] = [];
+  for (const item of items) {
+    for (let count = 0; count < item.str.length; count++) {
+      heights.push(item.height);
+    }
+  }
+
+  if (heights.length === 0) return 0;
+  heights.sort((a, b) => a - b);
+  return heights[Math.floor(heights.length / 2)];
+}
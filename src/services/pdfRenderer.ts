@@ -0,0 +1,3 @@
+// pdf.js loading and rendering live in shared/pdf so the Express API can read PDF images the same way
+export { loadPdfjs, loadPdfDocument, renderPdfPages } from '../../shared/pdf/pdfRenderer';
+export type { RenderOptions } from '../../shared/pdf/pdfRenderer';
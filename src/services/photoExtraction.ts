@@ -0,0 +1,10 @@
+// Headshot detection lives in shared/images so the Express API finds photos in PDFs and DOCX files the same way
+export {
+  MIN_HEADSHOT_SCORE,
+  extractCandidatePhoto,
+  selectHeadshot,
+  scoreHeadshot,
+  extractPdfImages,
+  extractDocxImages,
+} from '../../shared/images/photoExtraction';
+export type { EmbeddedImage, CandidatePhoto } from '../../shared/images/photoExtraction';
@@ -0,0 +1,2 @@
+// RTF reading lives in shared/text so the Express API reads RTF uploads the same way
+export { rtfToText } from '../../shared/text/rtfText';
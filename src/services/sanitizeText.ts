@@ -0,0 +1,208 @@
+// Separates pages in extractor output so running headers and footers can be found
+export const PAGE_BREAK = '\f';
+
+// Typographic ligatures that PDF text layers often keep as single code points
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st',
+};
+
+// Bullet glyphs, including the Symbol and Wingdings private-use code points Word exports
+const BULLET_GLYPHS = '•●○◦▪▫■□◆◇►▶▸▹➢➤➣➔→‣⁃∙·✓✔✗❖★☆\uf076\uf0a7\uf0a8\uf0b7\uf0d8\uf0fc';
+
+const LEADING_BULLET = new RegExp(`^([ \\t]*)(?:[${BULLET_GLYPHS}]|[-*](?=[ \\t]))[ \\t]*`, 'gm');
+
+// Letters on both sides of a hyphen that ends a line mark a word split by wrapping
+const HYPHENATED_WRAP = /([A-Za-zÀ-ÖØ-öø-ɏ])-\n[ \t]*([a-zß-öø-ÿā-ſ])/g;
+
+// Lines that only number the page: "3", "Page 2 of 4", "Seite 2/4", "- 3 -"
+const PAGE_NUMBER_LINE = /^[-–—\s]*(?:(?:page|seite|pagina|página|pag\.?|p\.)\s*)?#+(?:\s*(?:of|von|de|di|\/)\s*#+)?[-–—\s]*$/i;
+
+// Every page number style shares one key, so "1" on one page and "- 2 -" on the next still count as running
+const PAGE_NUMBER_KEY = '#page';
+
+// Only short lines near the top or bottom of a page can be running headers or footers
+const PAGE_EDGE_LINES = 3;
+const MAX_RUNNING_LINE_LENGTH = 100;
+
+// Stands in for the blank line between pages while cleaning, so page starts can be found
+// afterwards. normaliseUnicode strips the character from the text itself
+const PAGE_MARK = '\u0001';
+
+export interface SanitizedText {
+  text: string;
+  pageStarts: number[];  // Offset in text at which each page begins
+}
+
+/**
+ * Clean extracted text without losing its structure. Unicode is normalised
+ * (ligatures, smart quotes, zero-width and control characters, bullet glyphs),
+ * words split across lines are rejoined, running page headers and footers are
+ * removed, and paragraphs and line breaks are kept.
+ * @param text - Extracted text, with pages separated by PAGE_BREAK where known
+ * @returns Cleaned text with at most one blank line between blocks
+ */
+export function sanitizeText(text: string): string {
+  return sanitizeTextWithPages(text).text;
+}
+
+/**
+ * sanitizeText, also reporting where each page starts in the cleaned text so
+ * offsets into it can be traced back to a page
+ */
+export function sanitizeTextWithPages(text: string): SanitizedText {
+  if (!text) return { text: '', pageStarts: [] };
+
+  const pages = removeRunningLines(
+    normaliseUnicode(text)
+      .replace(/\r\n?|[\u2028\u2029]/g, '\n')
+      .split(PAGE_BREAK)
+  );
+
+  // PDF extractors end every page with a break, leaving nothing after the last one
+  const trailing = pages.length > 1 && !pages[pages.length - 1].trim() ? pages.pop()! : null;
+  const joined = pages.join(`\n${PAGE_MARK}\n`) + (trailing === null ? '' : `\n\n${trailing}`);
+
+  const marked = joined
+    // Drop soft hyphens, rejoining words they split at a line end
+    .replace(/\u00ad\n[ \t]*/g, '')
+    .replace(/\u00ad/g, '')
+    .replace(HYPHENATED_WRAP, '$1$2')
+    .replace(LEADING_BULLET, '$1• ')
+    .split('\n')
+    .map(normaliseLine)
+    .join('\n');
+
+  // Without its marks the text is exactly what joining the pages with a blank line gives
+  const marks: number[] = [];
+  let unmarked = '';
+  let from = 0;
+  for (let index = marked.indexOf(PAGE_MARK); index !== -1; index = marked.indexOf(PAGE_MARK, from)) {
+    unmarked += marked.slice(from, index);
+    marks.push(unmarked.length);
+    from = index + 1;
+  }
+  unmarked += marked.slice(from);
+
+  // Collapse blank lines and trim, moving the marks with the text
+  const removals: { at: number; length: number }[] = [];
+  const collapsed = unmarked.replace(/\n{3,}/g, (run, at: number) => {
+    removals.push({ at: at + 2, length: run.length - 2 });
+    return '\n\n';
+  });
+  const leading = collapsed.length - collapsed.replace(/^\s+/, '').length;
+  const cleaned = collapsed.trim();
+
+  const moved = (offset: number): number => {
+    let shift = 0;
+    for (const { at, length } of removals) {
+      if (offset >= at + length) shift += length;
+      else if (offset > at) shift += offset - at;
+    }
+    return Math.min(Math.max(offset - shift - leading, 0), cleaned.length);
+  };
+
+  const pageStarts = [0, ...marks.map(mark => {
+    let start = moved(mark);
+    while (cleaned[start] === '\n') start++;
+    return start;
+  })];
+
+  return { text: cleaned, pageStarts };
+}
+
+/**
+ * Replace typographic variants with their plain equivalents and strip invisible characters
+ */
+export function normaliseUnicode(text: string): string {
+  return text
+    .replace(/[\ufb00-\ufb06]/g, char => LIGATURES[char] ?? char)
+    .normalize('NFC')
+    .replace(/[‘’‚‛′`´]/g, "'")
+    .replace(/[“”„‟″]/g, '"')
+    .replace(/[‐‑−]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, ' ')
+    .replace(/[\u200b-\u200d\u2060\ufeff]/g, '')
+    // Control characters other than tab, newline and the page break
+    .replace(/[\u0000-\u0008\u000b\u000e-\u001f\u007f]/g, '');
+}
+
+/**
+ * Collapse runs of spaces, keep tab separators and the indentation of bullets
+ */
+function normaliseLine(line: string): string {
+  const indentation = /^[ \t]*(?=• )/.exec(line)?.[0].replace(/\t/g, '  ') ?? '';
+
+  return indentation + line
+    .trim()
+    .replace(/ *\t[ \t]*/g, '\t')
+    .replace(/ {2,}/g, ' ')
+    // "word ," left by extractors that emit punctuation as separate items
+    .replace(/ +([,;:!?.])(?=\s|$)/g, '$1');
+}
+
+/**
+ * Remove lines repeated at the top or bottom of most pages. Page numbers go
+ * everywhere; any other running line (often the candidate's name) is kept
+ * where it first appears.
+ */
+export function removeRunningLines(pages: string[]): string[] {
+  if (pages.length < 2) return pages;
+
+  const pageLines = pages.map(page => page.split('\n'));
+  const pageCounts = new Map<string, number>();
+
+  for (const lines of pageLines) {
+    const keys = new Set(edgeLineIndexes(lines).map(index => runningLineKey(lines[index])));
+    keys.forEach(key => pageCounts.set(key, (pageCounts.get(key) || 0) + 1));
+  }
+
+  const threshold = Math.max(2, Math.ceil(pages.length * 0.6));
+  const running = new Set(Array.from(pageCounts.keys()).filter(key => pageCounts.get(key)! >= threshold));
+  if (running.size === 0) return pages;
+
+  const seen = new Set<string>();
+
+  return pageLines.map(lines => {
+    const removed = new Set<number>();
+
+    for (const index of edgeLineIndexes(lines)) {
+      const key = runningLineKey(lines[index]);
+      if (!running.has(key)) continue;
+
+      if (key === PAGE_NUMBER_KEY || seen.has(key)) {
+        removed.add(index);
+      }
+      seen.add(key);
+    }
+
+    return lines.filter((_, index) => !removed.has(index)).join('\n');
+  });
+}
+
+/**
+ * Indexes of the first and last few non-empty lines of a page
+ */
+function edgeLineIndexes(lines: string[]): number[] {
+  const filled = lines
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line && line.length <= MAX_RUNNING_LINE_LENGTH)
+    .map(({ index }) => index);
+
+  if (filled.length <= PAGE_EDGE_LINES * 2) return filled;
+  return filled.slice(0, PAGE_EDGE_LINES).concat(filled.slice(-PAGE_EDGE_LINES));
+}
+
+/**
+ * Compare running lines ignoring case, spacing and page numbers
+ */
+function runningLineKey(line: string): string {
+  const key = line.trim().toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+  return PAGE_NUMBER_LINE.test(key) ? PAGE_NUMBER_KEY : key;
+}
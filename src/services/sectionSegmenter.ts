@@ -0,0 +1,3 @@
+// Section segmentation lives in shared/extraction so the Express API finds sections the same way
+export { segmentSections, groupSections, matchHeading } from '../../shared/extraction/sectionSegmenter';
+export type { CvSectionType, CvSection } from '../../shared/extraction/sectionSegmenter';
@@ -0,0 +1,3 @@
+// Text decoding lives in shared/text so the Express API reads plain-text uploads the same way
+export { decodeTextBuffer, decodeWindows1252, detectEncoding } from '../../shared/text/textDecoding';
+export type { TextEncoding, DecodedText } from '../../shared/text/textDecoding';
@@ -0,0 +1,42 @@
+/**
+ * An upload as clients see it, in status and list responses
+ */
+export interface UploadStatus {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  message?: string;
+  createdAt: string;
+  updatedAt: string;
+  fileName: string;
+  fileSize: number;
+  userId: string;
+  contentHash: string;    // SHA-256 of the file, shared by every upload of the same document
+  duplicateOf?: string;   // Earlier upload of the same file by this user
+  clientId?: string;      // Client the CV is for; with templateId, picks the extraction prompt
+  templateId?: string;    // CV template chosen, e.g. "finance"
+}
+
+/**
+ * An upload as stored: the status, where the file is, and what processing it produced
+ */
+export interface UploadRecord extends UploadStatus {
+  filePath: string;
+  mimeType: string;
+  // Password for a protected PDF, kept in memory only until the file has been parsed. It is
+  // never queued (job payloads are stored in Redis) or returned to clients
+  documentPassword?: string;
+  // Set by the process route
+  [processed: string]: any;
+}
+
+// Mock database shared by the upload and process routes - replace with your actual database implementation
+export const uploads = new Map<string, UploadRecord>();
+
+/**
+ * The record as clients see it, without the document password or processing results
+ */
+export function toUploadStatus(record: UploadRecord): UploadStatus {
+  const { id, status, progress, message, createdAt, updatedAt, fileName, fileSize, userId, contentHash, duplicateOf, clientId, templateId } = record;
+  return { id, status, progress, message, createdAt, updatedAt, fileName, fileSize, userId, contentHash, duplicateOf, clientId, templateId };
+}
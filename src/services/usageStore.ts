@@ -0,0 +1,82 @@
+import { addToBreakdown, emptyBreakdown, UsageBreakdown, UsageTotals } from '../ai/usage';
+
+/**
+ * LLM usage of one processing run of an upload. Reprocessing an upload adds another
+ * record, as every run is billed.
+ */
+export interface UsageRecord {
+  uploadId: string;
+  userId: string;
+  recordedAt: string;
+  usage: UsageTotals;
+}
+
+export interface UsageQuery {
+  userId?: string;
+  from?: Date;   // Inclusive
+  to?: Date;     // Inclusive
+}
+
+export interface UsageSummary extends UsageBreakdown {
+  currency: 'USD';
+  uploads: number;   // Distinct uploads processed
+  runs: number;      // Processing runs, including reprocessing
+  unpricedModels: string[];
+  byProvider: Record<string, UsageBreakdown>;
+  byUser: Record<string, UsageBreakdown>;
+}
+
+// Mock database - replace with your actual database implementation
+const usageRecords: UsageRecord[] = [];
+
+/**
+ * Store the usage of a processing run.
+ */
+export function recordUsage(record: UsageRecord): void {
+  usageRecords.push(record);
+}
+
+/**
+ * Total usage across the runs matching the query.
+ */
+export function summarizeUsage(query: UsageQuery = {}): UsageSummary {
+  const summary: UsageSummary = {
+    ...emptyBreakdown(),
+    currency: 'USD',
+    uploads: 0,
+    runs: 0,
+    unpricedModels: [],
+    byProvider: {},
+    byUser: {},
+  };
+  const uploadIds = new Set<string>();
+
+  for (const record of usageRecords) {
+    const recordedAt = new Date(record.recordedAt).getTime();
+    if (query.userId && record.userId !== query.userId) continue;
+    if (query.from && recordedAt < query.from.getTime()) continue;
+    if (query.to && recordedAt > query.to.getTime()) continue;
+
+    uploadIds.add(record.uploadId);
+    summary.runs++;
+    addToBreakdown(summary, record.usage);
+    addToBreakdown(summary.byUser[record.userId] ||= emptyBreakdown(), record.usage);
+
+    for (const [provider, breakdown] of Object.entries(record.usage.byProvider)) {
+      addToBreakdown(summary.byProvider[provider] ||= emptyBreakdown(), breakdown);
+    }
+    for (const model of record.usage.unpricedModels) {
+      if (!summary.unpricedModels.includes(model)) summary.unpricedModels.push(model);
+    }
+  }
+
+  summary.uploads = uploadIds.size;
+  return summary;
+}
+
+/**
+ * Remove every stored record (for tests).
+ */
+export function clearUsage(): void {
+  usageRecords.length = 0;
+}
@@ -20,6 +20,13 @@ export enum ErrorCode {
   UNSUPPORTED_FILE_TYPE = 'UNSUPPORTED_FILE_TYPE',
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
   
+  // Document Problems
+  DOCUMENT_ENCRYPTED = 'DOCUMENT_ENCRYPTED',
+  DOCUMENT_PASSWORD_INCORRECT = 'DOCUMENT_PASSWORD_INCORRECT',
+  DOCUMENT_CORRUPTED = 'DOCUMENT_CORRUPTED',
+  DOCUMENT_EMPTY = 'DOCUMENT_EMPTY',
+  PAGE_LIMIT_EXCEEDED = 'PAGE_LIMIT_EXCEEDED',
+  
   // Upload Operations
   UPLOAD_NOT_FOUND = 'UPLOAD_NOT_FOUND',
   UPLOAD_FAILED = 'UPLOAD_FAILED',
@@ -57,6 +64,11 @@ export const HTTP_STATUS_CODES: Record<ErrorCode, number> = {
   [ErrorCode.FILE_TOO_LARGE]: 413,
   [ErrorCode.UNSUPPORTED_FILE_TYPE]: 400,
   [ErrorCode.FILE_NOT_FOUND]: 404,
+  [ErrorCode.DOCUMENT_ENCRYPTED]: 422,
+  [ErrorCode.DOCUMENT_PASSWORD_INCORRECT]: 422,
+  [ErrorCode.DOCUMENT_CORRUPTED]: 422,
+  [ErrorCode.DOCUMENT_EMPTY]: 422,
+  [ErrorCode.PAGE_LIMIT_EXCEEDED]: 413,
   [ErrorCode.UPLOAD_NOT_FOUND]: 404,
   [ErrorCode.UPLOAD_FAILED]: 500,
   [ErrorCode.MISSING_UPLOAD_ID]: 400,
@@ -111,6 +123,11 @@ function getDefaultErrorMessage(errorCode: ErrorCode): string {
     [ErrorCode.FILE_TOO_LARGE]: 'File size exceeds maximum allowed limit',
     [ErrorCode.UNSUPPORTED_FILE_TYPE]: 'File type not supported',
     [ErrorCode.FILE_NOT_FOUND]: 'Requested file not found',
+    [ErrorCode.DOCUMENT_ENCRYPTED]: 'This document is password-protected. Upload it again with its password',
+    [ErrorCode.DOCUMENT_PASSWORD_INCORRECT]: 'The password for this document is incorrect',
+    [ErrorCode.DOCUMENT_CORRUPTED]: 'This document is damaged or incomplete. Export it again and re-upload',
+    [ErrorCode.DOCUMENT_EMPTY]: 'No text could be found in this document',
+    [ErrorCode.PAGE_LIMIT_EXCEEDED]: 'This document has too many pages to be a CV',
     [ErrorCode.UPLOAD_NOT_FOUND]: 'Upload record not found',
     [ErrorCode.UPLOAD_FAILED]: 'Failed to process file upload',
     [ErrorCode.MISSING_UPLOAD_ID]: 'Upload ID is required',
@@ -134,6 +151,7 @@ function getDefaultErrorMessage(errorCode: ErrorCode): string {
 // Request interfaces
 export interface AuthenticatedRequest extends Request {
   userId?: string;
+  isAdmin?: boolean; // Set by the auth middleware for organisation administrators
 }
 
 export interface FileUploadRequest extends AuthenticatedRequest {
@@ -32,7 +32,14 @@ export interface CvDraft {
   audit: {
     rulesApplied: string[];
     issues: string[];
+    uncertain?: string[];  // Values the model was unsure of
+    repaired?: string[];   // Values schema repair had to fix
   };
+  generatedBy?: {
+    prompt?: string;    // e.g. "ehs@1"
+    models: string[];   // e.g. ["openai:gpt-4o-mini"]
+  };
+  confidence?: Record<string, number>;  // 0 to 1 by JSON path, e.g. "experience[2].company"
 }
 
 export interface PersonalDetails {
@@ -78,12 +85,28 @@ export interface CVData {
     originalFileName: string
     processedAt: string
     version: string
+    uploadId?: string
   }
 }
 
+// Where a CV value was read from in the original content; fuzzy matches are approximate
+export interface SourceSpan {
+  start: number
+  end: number
+  page?: number
+  match: 'exact' | 'fuzzy'
+}
+
+// Source spans keyed by JSON path, e.g. "experience[2].company"
+export type Provenance = Record<string, SourceSpan>
+
+// How far each CV value can be trusted, from 0 to 1, keyed by JSON path like Provenance
+export type FieldConfidence = Record<string, number>
+
 export interface FileUploadProps {
-  onFileProcessed: (data: CVData, original: string) => void
+  onFileProcessed: (data: CVData, original: string, provenance?: Provenance, confidence?: FieldConfidence) => void
   onProcessingStart: () => void
+  onProgress?: (progress: ProcessingProgress) => void
 }
 
 export interface CVPreviewProps {
@@ -92,10 +115,26 @@ export interface CVPreviewProps {
 
 export interface CVEditorProps {
   cvData: CVData
+  confidence?: FieldConfidence
   onUpdate: (data: CVData) => void
+  onConfidenceChange?: (confidence: FieldConfidence) => void  // Fields the reviewer has edited no longer need checking
   onBack: () => void
 }
 
+// Steps of processing an upload, in order
+export type ProcessingStage = 'uploading' | 'parsing' | 'extracting' | 'verifying'
+
+export type CVSection = 'personalDetails' | 'profile' | 'experience' | 'education' | 'keySkills' | 'interests'
+
+// How far processing has got, as the server streams it
+export interface ProcessingProgress {
+  stage: ProcessingStage
+  progress: number                                 // 0 to 100
+  message?: string
+  chunks?: { completed: number; total: number }    // Parts of a long CV extracted so far
+  sections: Partial<Pick<CVData, CVSection>>       // The CV so far, filled in as sections arrive
+}
+
 export interface ProcessingStatusProps {
-  // Component doesn't need props for now
+  progress?: ProcessingProgress
 }
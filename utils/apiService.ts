@@ -1,4 +1,4 @@
-import { CVData } from '@/types/cv'
+import { CVData, CVSection, FieldConfidence, ProcessingStage, Provenance } from '@/types/cv'
 
 // API configuration
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'
@@ -17,10 +17,43 @@ const API_ENDPOINTS = {
 interface CVProcessingResponse {
   cvData: CVData
   originalContent: string
+  provenance?: Provenance // Where each CVData field was read from in originalContent
+  confidence?: FieldConfidence // How far each CVData field can be trusted, by the same paths
   processingTime: number
   fileName: string
+  duplicateOf?: string // Earlier upload with identical file contents
 }
 
+interface UploadResponse {
+  success: boolean
+  uploadId: string
+  message: string
+  filename: string
+  duplicate?: boolean
+  duplicateOf?: string
+}
+
+interface ProcessResponse {
+  success: boolean
+  uploadId: string
+  cvData: CVData
+  originalContent?: string
+  provenance?: Provenance
+  confidence?: FieldConfidence
+  message: string
+}
+
+// Progress the process stream sends before its result
+type ProcessingEvent =
+  | { type: 'stage'; stage: ProcessingStage; progress: number; message: string }
+  | { type: 'chunks'; total: number }
+  | { type: 'section'; section: CVSection; value: CVData[CVSection]; completed: number; total: number }
+
+// Everything the process stream sends
+type StreamEvent =
+  | ProcessingEvent
+  | ({ type: 'done' } & ProcessResponse)
+  | { type: 'error'; error: string; message?: string; code?: string }
 
 
 // Error handling
@@ -73,24 +106,28 @@ class ApiService {
       const data = await response.json()
       return data
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error
-      }
-      
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new ApiError(
-          'Failed to connect to the server. Please check your internet connection and try again.',
-          0,
-          'NETWORK_ERROR'
-        )
-      }
-      
-      throw new ApiError(
-        error instanceof Error ? error.message : 'An unexpected error occurred',
+      throw this.toApiError(error)
+    }
+  }
+
+  private toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error
+    }
+    
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      return new ApiError(
+        'Failed to connect to the server. Please check your internet connection and try again.',
         0,
-        'UNKNOWN_ERROR'
+        'NETWORK_ERROR'
       )
     }
+    
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      0,
+      'UNKNOWN_ERROR'
+    )
   }
 
   // Health check
@@ -98,18 +135,15 @@ class ApiService {
     return this.request('/health')
   }
 
-  // Process CV file
-  async processCV(file: File): Promise<CVProcessingResponse> {
-    // Step 1: Upload the file
+  // Upload a CV file; password opens password-protected PDFs
+  private async uploadFile(file: File, password?: string): Promise<UploadResponse> {
     const formData = new FormData()
     formData.append('file', file) // Changed from 'cvFile' to 'file' to match backend
+    if (password) {
+      formData.append('password', password)
+    }
 
-    const uploadResponse = await this.request<{
-      success: boolean
-      uploadId: string
-      message: string
-      filename: string
-    }>(
+    return this.request<UploadResponse>(
       API_ENDPOINTS.CV_UPLOAD,
       {
         method: 'POST',
@@ -117,28 +151,112 @@ class ApiService {
         headers: {}, // Let browser set Content-Type for FormData
       }
     )
+  }
 
-    const { uploadId } = uploadResponse
+  private toProcessingResponse(uploadResponse: UploadResponse, processResponse: ProcessResponse): CVProcessingResponse {
+    return {
+      cvData: processResponse.cvData,
+      originalContent: processResponse.originalContent || '',
+      provenance: processResponse.provenance,
+      confidence: processResponse.confidence,
+      processingTime: 0, // Backend doesn't provide this
+      fileName: uploadResponse.filename,
+      duplicateOf: uploadResponse.duplicateOf
+    }
+  }
+
+  // Process CV file; password opens password-protected PDFs
+  async processCV(file: File, password?: string): Promise<CVProcessingResponse> {
+    // Step 1: Upload the file
+    const uploadResponse = await this.uploadFile(file, password)
 
     // Step 2: Process the uploaded file
-    const processResponse = await this.request<{
-      success: boolean
-      uploadId: string
-      cvData: CVData
-      message: string
-    }>(
-      `${API_ENDPOINTS.CV_PROCESS}/${uploadId}`,
+    const processResponse = await this.request<ProcessResponse>(
+      `${API_ENDPOINTS.CV_PROCESS}/${uploadResponse.uploadId}`,
       {
         method: 'POST',
       }
     )
 
-    // Return the processed CV data
-    return {
-      cvData: processResponse.cvData,
-      originalContent: '', // Backend doesn't provide this, so we'll leave it empty
-      processingTime: 0, // Backend doesn't provide this
-      fileName: uploadResponse.filename
+    return this.toProcessingResponse(uploadResponse, processResponse)
+  }
+
+  /**
+   * Process CV file like processCV, calling onEvent with each step and each section of the CV
+   * as the server sends them, so the user can watch the CV fill in
+   */
+  async processCVStream(
+    file: File,
+    password: string | undefined,
+    onEvent: (event: ProcessingEvent) => void
+  ): Promise<CVProcessingResponse> {
+    const uploadResponse = await this.uploadFile(file, password)
+    onEvent({ type: 'stage', stage: 'parsing', progress: 10, message: 'File uploaded' })
+
+    try {
+      const response = await fetch(`${this.baseUrl}${API_ENDPOINTS.CV_PROCESS}/${uploadResponse.uploadId}/stream`, {
+        method: 'POST',
+      })
+
+      // Refused before the stream started, e.g. an unknown upload
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new ApiError(
+          errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          errorData.code
+        )
+      }
+
+      for await (const event of this.readEvents(response)) {
+        if (event.type === 'done') {
+          return this.toProcessingResponse(uploadResponse, event)
+        }
+        if (event.type === 'error') {
+          throw new ApiError(event.message || event.error, 0, event.code)
+        }
+        onEvent(event)
+      }
+      throw new ApiError('The server closed the connection before the CV was processed', 0, 'STREAM_CLOSED')
+    } catch (error) {
+      throw this.toApiError(error)
+    }
+  }
+
+  // Server-sent events from a response, one "data:" line of JSON each
+  private async *readEvents(response: Response): AsyncGenerator<StreamEvent> {
+    const parse = (block: string): StreamEvent | null => {
+      const data = block
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n')
+      return data ? JSON.parse(data) : null
+    }
+
+    // Without a readable body the events can only be read once the response is complete
+    if (!response.body) {
+      for (const block of (await response.text()).split('\n\n')) {
+        const event = parse(block)
+        if (event) yield event
+      }
+      return
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffered = ''
+    while (true) {
+      const { done, value } = await reader.read()
+      buffered += decoder.decode(value, { stream: !done })
+
+      const blocks = buffered.split('\n\n')
+      buffered = done ? '' : blocks.pop() || ''
+      for (const block of blocks) {
+        const event = parse(block)
+        if (event) yield event
+      }
+      if (done) return
     }
   }
 
@@ -183,6 +301,16 @@ class ApiService {
     return response
   }
 
+  // Reject the candidate photo detected in the upload
+  async rejectPhoto(uploadId: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(
+      `${API_ENDPOINTS.CV_GET}/${uploadId}/photo`,
+      {
+        method: 'DELETE',
+      }
+    )
+  }
+
   // Test API connection
   async testConnection(): Promise<boolean> {
     try {
@@ -219,6 +347,7 @@ export { ApiService, ApiError }
 // Export types for external use
 export type {
   CVProcessingResponse,
+  ProcessingEvent,
 }
 
 
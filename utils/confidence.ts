@@ -0,0 +1,50 @@
+import { FieldConfidence } from '@/types/cv'
+
+// Fields scoring below this are flagged for review, as in shared/confidence
+export const LOW_CONFIDENCE = 0.6
+
+const isUnder = (path: string, prefix: string) =>
+  path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`)
+
+/**
+ * The lowest score at or under a path, so "personalDetails.languages" covers each language;
+ * undefined when nothing there was scored
+ */
+export const confidenceAt = (confidence: FieldConfidence | undefined, path: string): number | undefined => {
+  const scores = Object.keys(confidence || {})
+    .filter(scored => isUnder(scored, path))
+    .map(scored => confidence![scored])
+  return scores.length > 0 ? Math.min(...scores) : undefined
+}
+
+export const isLowConfidence = (confidence: FieldConfidence | undefined, path: string): boolean => {
+  const score = confidenceAt(confidence, path)
+  return score !== undefined && score < LOW_CONFIDENCE
+}
+
+// Tooltip for a flagged field
+export const describeConfidence = (score: number): string =>
+  `Low confidence (${Math.round(score * 100)}%): check this against the original`
+
+/**
+ * The scores without those at or under a path, once a reviewer has checked or edited it
+ */
+export const withoutConfidence = (confidence: FieldConfidence, path: string): FieldConfidence =>
+  Object.fromEntries(Object.entries(confidence).filter(([scored]) => !isUnder(scored, path)))
+
+/**
+ * The scores after removing an item from a list, so later items keep their own scores
+ * e.g. removing experience[1] makes experience[2].company experience[1].company
+ */
+export const withoutListItem = (confidence: FieldConfidence, list: string, index: number): FieldConfidence => {
+  const item = new RegExp(`^${list.replace(/[.[\]]/g, '\\$&')}\\[(\\d+)\\]`)
+  return Object.fromEntries(
+    Object.entries(withoutConfidence(confidence, `${list}[${index}]`)).map(([path, score]) => {
+      const match = item.exec(path)
+      const shifted = match && Number(match[1]) > index
+        ? path.replace(item, `${list}[${Number(match[1]) - 1}]`)
+        : path
+      return [shifted, score]
+    })
+  )
+}
@@ -0,0 +1,28 @@
+import { ProcessingProgress } from '@/types/cv'
+import { ProcessingEvent } from '@/utils/apiService'
+
+// Before the server has reported anything
+export const INITIAL_PROGRESS: ProcessingProgress = {
+  stage: 'uploading',
+  progress: 0,
+  message: 'Uploading your CV...',
+  sections: {}
+}
+
+/**
+ * Progress after an event from the process stream; a section replaces what arrived for it before
+ */
+export const applyProcessingEvent = (progress: ProcessingProgress, event: ProcessingEvent): ProcessingProgress => {
+  switch (event.type) {
+    case 'stage':
+      return { ...progress, stage: event.stage, progress: event.progress, message: event.message }
+    case 'chunks':
+      return { ...progress, chunks: { completed: 0, total: event.total } }
+    case 'section':
+      return {
+        ...progress,
+        chunks: event.total > 1 ? { completed: event.completed, total: event.total } : progress.chunks,
+        sections: { ...progress.sections, [event.section]: event.value }
+      }
+  }
+}